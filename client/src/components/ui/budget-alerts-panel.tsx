@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, RefreshCw } from "lucide-react";
+import type { AlertSettings, BudgetAlert } from "@shared/schema";
+
+// Thresholds are edited as a comma-separated list of percentages
+const joinThresholds = (thresholds: number[]) => thresholds.join(", ");
+const splitThresholds = (value: string) =>
+  value.split(",").map(t => parseInt(t.trim(), 10)).filter(t => !isNaN(t));
+
+interface EditableSettings {
+  enabled: boolean;
+  thresholds: string;
+  includeForecast: boolean;
+  recipients: string;
+}
+
+function toEditable(settings: AlertSettings): EditableSettings {
+  return {
+    enabled: settings.enabled,
+    thresholds: joinThresholds(settings.thresholds),
+    includeForecast: settings.includeForecast,
+    recipients: settings.recipients || ""
+  };
+}
+
+const formatDateTime = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '-';
+
+export function BudgetAlertsPanel() {
+  const [draft, setDraft] = useState<EditableSettings | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<AlertSettings>({
+    queryKey: ["/api/alerts/settings"],
+  });
+
+  const { data: alerts, isLoading: alertsLoading } = useQuery<BudgetAlert[]>({
+    queryKey: ["/api/alerts"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(toEditable(settings));
+    }
+  }, [settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft) throw new Error("No alert settings loaded");
+      const response = await apiRequest("PUT", "/api/alerts/settings", {
+        enabled: draft.enabled,
+        thresholds: splitThresholds(draft.thresholds),
+        includeForecast: draft.includeForecast,
+        recipients: draft.recipients.trim() || null
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Alert settings saved"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Alert Settings Error",
+        description: error.message || "Failed to save alert settings",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const checkNowMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/alerts/check");
+      return response.json() as Promise<{ alerts: BudgetAlert[] }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Budgets Checked",
+        description: result.alerts.length > 0
+          ? `${result.alerts.length} new alert${result.alerts.length === 1 ? '' : 's'} sent`
+          : "No new thresholds crossed"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Budget Check Error",
+        description: error.message || "Failed to check budgets",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const update = (changes: Partial<EditableSettings>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-gray-800">Budget Alerts</h2>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => checkNowMutation.mutate()}
+            disabled={checkNowMutation.isPending}
+            data-testid="button-check-budgets"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${checkNowMutation.isPending ? 'animate-spin' : ''}`} />
+            Check Now
+          </Button>
+        </div>
+        <p className="text-gray-600 mb-6">
+          Budgets are checked after every Harvest sync. Each project gets one email per threshold per month.
+        </p>
+
+        {!draft ? (
+          <div className="text-center py-4 text-gray-500">Loading alert settings...</div>
+        ) : (
+          <div className="space-y-4 max-w-xl">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="alerts-enabled">Send budget alerts</Label>
+              <Switch
+                id="alerts-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => update({ enabled })}
+                data-testid="switch-alerts-enabled"
+              />
+            </div>
+            <div>
+              <Label htmlFor="alert-thresholds">Thresholds (% of budget)</Label>
+              <Input
+                id="alert-thresholds"
+                value={draft.thresholds}
+                onChange={(e) => update({ thresholds: e.target.value })}
+                placeholder="85, 100"
+                data-testid="input-alert-thresholds"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="alerts-forecast">Also alert when the month-end forecast crosses a threshold</Label>
+              <Switch
+                id="alerts-forecast"
+                checked={draft.includeForecast}
+                onCheckedChange={(includeForecast) => update({ includeForecast })}
+                data-testid="switch-alerts-forecast"
+              />
+            </div>
+            <div>
+              <Label htmlFor="alert-recipients">Recipients</Label>
+              <Input
+                id="alert-recipients"
+                value={draft.recipients}
+                onChange={(e) => update({ recipients: e.target.value })}
+                placeholder="Defaults to the report recipients"
+                data-testid="input-alert-recipients"
+              />
+            </div>
+            <Button
+              onClick={() => saveSettingsMutation.mutate()}
+              disabled={saveSettingsMutation.isPending}
+              className="bg-orange-500 hover:bg-orange-600"
+              data-testid="button-save-alert-settings"
+            >
+              <BellRing className="h-4 w-4 mr-2" />
+              {saveSettingsMutation.isPending ? "Saving..." : "Save Alert Settings"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-800 mb-4">Alert History</h2>
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+          <table className="w-full" data-testid="table-alert-history">
+            <thead className="bg-gray-800 text-white">
+              <tr>
+                <th className="px-6 py-4 text-left">Project</th>
+                <th className="px-6 py-4 text-center">Month</th>
+                <th className="px-6 py-4 text-center">Threshold</th>
+                <th className="px-6 py-4 text-center">Budget Used</th>
+                <th className="px-6 py-4 text-center">Projected %</th>
+                <th className="px-6 py-4 text-center">Status</th>
+                <th className="px-6 py-4 text-center">Triggered</th>
+              </tr>
+            </thead>
+            <tbody>
+              {alertsLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">Loading alert history...</td>
+                </tr>
+              ) : !alerts || alerts.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">No budget alerts yet</td>
+                </tr>
+              ) : alerts.map((alert, index) => (
+                <tr key={alert.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                  <td className="px-6 py-4 font-medium text-gray-900">{alert.projectName}</td>
+                  <td className="px-6 py-4 text-center">{alert.month}</td>
+                  <td className="px-6 py-4 text-center">
+                    {alert.threshold}%{alert.kind === 'forecast' && <span className="text-gray-500"> (forecast)</span>}
+                  </td>
+                  <td className="px-6 py-4 text-center">{alert.budgetPercent.toFixed(1)}%</td>
+                  <td className="px-6 py-4 text-center">
+                    {alert.projectedPercent !== null ? `${alert.projectedPercent.toFixed(1)}%` : '-'}
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <span className={alert.status === 'sent' ? 'text-green-600' : 'text-red-600'}>
+                      {alert.status === 'sent' ? 'Sent' : `Failed (${alert.attempts} attempt${alert.attempts === 1 ? '' : 's'})`}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-center text-gray-600">{formatDateTime(alert.triggeredAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { LineChart, Line, ReferenceLine, YAxis, ResponsiveContainer } from "recharts";
+
+export interface ForecastPoint {
+  date: string;
+  actual: number | null;
+  projected: number | null;
+}
+
+export interface BudgetForecast {
+  unit: 'amount' | 'hours';
+  workingDaysElapsed: number;
+  workingDaysRemaining: number;
+  projectedHours: number;
+  projectedSpend: number;
+  projectedBudgetPercent: number;
+  budgetExhaustedOn: string | null;
+  series: ForecastPoint[];
+}
+
+interface BudgetSparklineProps {
+  forecast: BudgetForecast;
+  budget: number;
+}
+
+// Cumulative burn for the month: solid up to today, dashed projection after,
+// with the budget as a horizontal line
+export function BudgetSparkline({ forecast, budget }: BudgetSparklineProps) {
+  const overBudget = budget > 0 && forecast.projectedSpend > budget;
+  const maxValue = Math.max(budget, ...forecast.series.map(point => point.actual ?? point.projected ?? 0));
+
+  return (
+    <div className="h-10 w-32 mx-auto" data-testid="chart-budget-sparkline">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={forecast.series} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <YAxis hide domain={[0, maxValue || 1]} />
+          {budget > 0 && <ReferenceLine y={budget} stroke="#9ca3af" strokeDasharray="2 2" />}
+          <Line type="monotone" dataKey="actual" stroke="#ea580c" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line
+            type="monotone"
+            dataKey="projected"
+            stroke={overBudget ? "#dc2626" : "#16a34a"}
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
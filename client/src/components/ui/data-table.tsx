@@ -1,11 +1,77 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { getDataColumns, type ExportColumn } from "@shared/exports";
+import type { ChatData, HarvestClient, HarvestProject, HarvestTimeEntry, HarvestUser } from "@shared/schema";
+
+type DataRow = ChatData[number];
 
 interface DataTableProps {
-  data: any[];
+  data: ChatData;
   queryType: string;
 }
 
+// Test ids and row ids per table, by query type
+const TABLE_IDS: Record<string, { table: string; row: string }> = {
+  projects: { table: "table-projects", row: "row-project" },
+  clients: { table: "table-clients", row: "row-client" },
+  users: { table: "table-users", row: "row-user" },
+  time_entries: { table: "table-time-entries", row: "row-time-entry" }
+};
+
+// What a missing linked record shows as; other empty cells show "-"
+const EMPTY_CELLS: Record<string, string> = {
+  client: 'N/A',
+  project: 'N/A',
+  task: 'N/A',
+  person: 'N/A'
+};
+
+// Columns share their values with downloads (see @shared/exports); only the
+// on-screen formatting lives here
+function renderCell(column: ExportColumn<DataRow>, row: DataRow) {
+  const value = column.value(row);
+
+  switch (column.key) {
+    case "date":
+      return new Date((row as HarvestTimeEntry).spent_date).toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'numeric',
+        day: 'numeric'
+      });
+    case "hours":
+      return `${value}h`;
+    case "capacity":
+      return typeof value === "number" ? `${value}h` : '-';
+    case "budget":
+      return typeof value === "number" && value ? `$${value.toLocaleString()}` : '-';
+    case "billable":
+      return (
+        <Badge variant={(row as HarvestTimeEntry).billable ? "default" : "secondary"}>
+          {value}
+        </Badge>
+      );
+    case "active":
+      return (
+        <Badge variant={(row as HarvestProject | HarvestClient | HarvestUser).is_active ? "default" : "secondary"}>
+          {value}
+        </Badge>
+      );
+    default:
+      return value ?? EMPTY_CELLS[column.key] ?? '-';
+  }
+}
+
+const CELL_CLASSES: Record<string, string> = {
+  date: "font-mono text-sm",
+  project: "font-medium",
+  name: "font-medium",
+  code: "font-mono text-sm",
+  hours: "font-semibold",
+  notes: "max-w-xs truncate",
+  address: "max-w-xs truncate",
+  email: "text-sm"
+};
+
 export function DataTable({ data, queryType }: DataTableProps) {
   if (!data || data.length === 0) {
     return (
@@ -15,112 +81,31 @@ export function DataTable({ data, queryType }: DataTableProps) {
     );
   }
 
-  const renderTimeEntriesTable = () => (
-    <div className="overflow-x-auto bg-gray-50 rounded-lg border" data-testid="table-time-entries">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>Date</TableHead>
-            <TableHead>Project</TableHead>
-            <TableHead>Task</TableHead>
-            <TableHead>Hours</TableHead>
-            <TableHead>Notes</TableHead>
-            <TableHead>Status</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {data.map((entry, index) => (
-            <TableRow key={entry.id || index} data-testid={`row-time-entry-${index}`}>
-              <TableCell className="font-mono text-sm">
-                {new Date(entry.spent_date).toLocaleDateString('en-US', {
-                  weekday: 'short',
-                  month: 'numeric',
-                  day: 'numeric'
-                })}
-              </TableCell>
-              <TableCell className="font-medium">{entry.project?.name || 'N/A'}</TableCell>
-              <TableCell>{entry.task?.name || 'N/A'}</TableCell>
-              <TableCell className="font-semibold">{entry.hours}h</TableCell>
-              <TableCell className="max-w-xs truncate">{entry.notes || '-'}</TableCell>
-              <TableCell>
-                <Badge variant={entry.billable ? "default" : "secondary"}>
-                  {entry.billable ? "Billable" : "Non-billable"}
-                </Badge>
-              </TableCell>
-            </TableRow>
-          ))}
-        </TableBody>
-      </Table>
-    </div>
-  );
-
-  const renderProjectsTable = () => (
-    <div className="overflow-x-auto bg-gray-50 rounded-lg border" data-testid="table-projects">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>Project Name</TableHead>
-            <TableHead>Code</TableHead>
-            <TableHead>Client</TableHead>
-            <TableHead>Budget</TableHead>
-            <TableHead>Status</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {data.map((project, index) => (
-            <TableRow key={project.id || index} data-testid={`row-project-${index}`}>
-              <TableCell className="font-medium">{project.name}</TableCell>
-              <TableCell className="font-mono text-sm">{project.code || '-'}</TableCell>
-              <TableCell>{project.client?.name || 'N/A'}</TableCell>
-              <TableCell>{project.budget ? `$${project.budget.toLocaleString()}` : '-'}</TableCell>
-              <TableCell>
-                <Badge variant={project.is_active ? "default" : "secondary"}>
-                  {project.is_active ? "Active" : "Inactive"}
-                </Badge>
-              </TableCell>
-            </TableRow>
-          ))}
-        </TableBody>
-      </Table>
-    </div>
-  );
+  const columns = getDataColumns(queryType);
+  const ids = TABLE_IDS[queryType] || TABLE_IDS.time_entries;
 
-  const renderClientsTable = () => (
-    <div className="overflow-x-auto bg-gray-50 rounded-lg border" data-testid="table-clients">
+  return (
+    <div className="overflow-x-auto bg-gray-50 rounded-lg border" data-testid={ids.table}>
       <Table>
         <TableHeader>
           <TableRow>
-            <TableHead>Client Name</TableHead>
-            <TableHead>Address</TableHead>
-            <TableHead>Status</TableHead>
+            {columns.map(column => (
+              <TableHead key={column.key}>{column.header}</TableHead>
+            ))}
           </TableRow>
         </TableHeader>
         <TableBody>
-          {data.map((client, index) => (
-            <TableRow key={client.id || index} data-testid={`row-client-${index}`}>
-              <TableCell className="font-medium">{client.name}</TableCell>
-              <TableCell className="max-w-xs truncate">{client.address || '-'}</TableCell>
-              <TableCell>
-                <Badge variant={client.is_active ? "default" : "secondary"}>
-                  {client.is_active ? "Active" : "Inactive"}
-                </Badge>
-              </TableCell>
+          {(data as DataRow[]).map((row, index) => (
+            <TableRow key={row.id || index} data-testid={`${ids.row}-${index}`}>
+              {columns.map(column => (
+                <TableCell key={column.key} className={CELL_CLASSES[column.key]}>
+                  {renderCell(column, row)}
+                </TableCell>
+              ))}
             </TableRow>
           ))}
         </TableBody>
       </Table>
     </div>
   );
-
-  switch (queryType) {
-    case 'time_entries':
-    case 'summary':
-      return renderTimeEntriesTable();
-    case 'projects':
-      return renderProjectsTable();
-    case 'clients':
-      return renderClientsTable();
-    default:
-      return renderTimeEntriesTable();
-  }
 }
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@shared/exports";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON"
+};
+
+interface ExportMenuProps {
+  // Export endpoint; the chosen format is added as ?format=
+  url: string;
+  label?: string;
+  testId?: string;
+}
+
+// Filename from the server's Content-Disposition header
+function downloadFilename(response: Response, fallback: string): string {
+  const match = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/);
+  return match?.[1] || fallback;
+}
+
+export function ExportMenu({ url, label = "Download", testId = "button-export" }: ExportMenuProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const download = async (format: ExportFormat) => {
+    setIsDownloading(true);
+    try {
+      const response = await apiRequest("GET", `${url}${url.includes("?") ? "&" : "?"}format=${format}`);
+      const blobUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = blobUrl;
+      link.download = downloadFilename(response, `export.${format}`);
+      link.click();
+      URL.revokeObjectURL(blobUrl);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: errorMessage(error as Error, "Failed to export data"),
+        variant: "destructive"
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isDownloading} data-testid={testId}>
+          <Download className="h-4 w-4 mr-2" />
+          {isDownloading ? "Preparing..." : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+          <DropdownMenuItem key={format} onSelect={() => download(format)} data-testid={`${testId}-${format}`}>
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -6,10 +6,11 @@ interface MessageBubbleProps {
   content: string;
   timestamp: string;
   isLoading?: boolean;
+  loadingText?: string;
   extraContent?: React.ReactNode;
 }
 
-export function MessageBubble({ role, content, timestamp, isLoading, extraContent }: MessageBubbleProps) {
+export function MessageBubble({ role, content, timestamp, isLoading, loadingText, extraContent }: MessageBubbleProps) {
   const isUser = role === 'user';
   
   const formatTime = (timestamp: string) => {
@@ -47,7 +48,7 @@ export function MessageBubble({ role, content, timestamp, isLoading, extraConten
         {isLoading ? (
           <div className="flex items-center space-x-3">
             <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-harvest-orange"></div>
-            <span className="text-gray-600">Querying your Harvest data...</span>
+            <span className="text-gray-600">{loadingText || "Querying your Harvest data..."}</span>
           </div>
         ) : (
           <>
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, CartesianGrid, ResponsiveContainer } from "recharts";
+
+interface PeriodMetrics {
+  hours: number;
+  billableHours: number;
+  billedAmount: number;
+  budgetPercent: number;
+}
+
+interface ComparisonRow {
+  id: number | string;
+  name: string;
+  periods: PeriodMetrics[];
+  delta: PeriodMetrics;
+}
+
+interface ReportComparison {
+  periods: { month: string; label: string }[];
+  projects: ComparisonRow[];
+  bhsProjects: ComparisonRow[];
+  totals: Omit<PeriodMetrics, "budgetPercent">[];
+}
+
+type ComparisonMode = "previous_month" | "previous_year" | "trailing_3" | "trailing_6" | "trailing_12";
+
+const COMPARISON_MODES: { value: ComparisonMode; label: string }[] = [
+  { value: "previous_month", label: "vs previous month" },
+  { value: "previous_year", label: "vs same month last year" },
+  { value: "trailing_3", label: "Last 3 months" },
+  { value: "trailing_6", label: "Last 6 months" },
+  { value: "trailing_12", label: "Last 12 months" }
+];
+
+// Projects drawn in the trend chart, busiest first
+const CHART_PROJECT_LIMIT = 5;
+const CHART_COLORS = ["#ea580c", "#2563eb", "#16a34a", "#9333ea", "#db2777"];
+
+function shiftMonth(month: string, count: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + count, 1)).toISOString().slice(0, 7);
+}
+
+function comparisonQuery(month: string, mode: ComparisonMode): string {
+  switch (mode) {
+    case "previous_month":
+      return `base=${shiftMonth(month, -1)}&current=${month}`;
+    case "previous_year":
+      return `base=${shiftMonth(month, -12)}&current=${month}`;
+    default:
+      return `month=${month}&trailing=${mode.split("_")[1]}`;
+  }
+}
+
+const shortLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "short", year: "2-digit", timeZone: "UTC" });
+
+function Delta({ value, format }: { value: number; format: (value: number) => string }) {
+  if (value === 0) return <span className="text-gray-400">—</span>;
+  return (
+    <span className={value > 0 ? "text-green-600" : "text-red-600"}>
+      {value > 0 ? "▲ +" : "▼ "}{format(value)}
+    </span>
+  );
+}
+
+const formatHours = (value: number) => `${value.toFixed(1)}h`;
+const formatAmount = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const formatPoints = (value: number) => `${value.toFixed(1)} pts`;
+
+function ComparisonTable({ title, rows, previousLabel, testId }: {
+  title: string;
+  rows: ComparisonRow[];
+  previousLabel: string;
+  testId: string;
+}) {
+  if (rows.length === 0) return null;
+
+  return (
+    <div>
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4">{title}</h2>
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        <table className="w-full" data-testid={testId}>
+          <thead className="bg-gray-800 text-white">
+            <tr>
+              <th className="px-6 py-4 text-left">Name</th>
+              <th className="px-4 py-4 text-center">Hours</th>
+              <th className="px-4 py-4 text-center">Billable Hours</th>
+              <th className="px-4 py-4 text-center">Billed</th>
+              <th className="px-4 py-4 text-center">Budget %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const latest = row.periods[row.periods.length - 1];
+              return (
+                <tr key={row.id} className="border-b" data-testid={`row-comparison-${row.id}`}>
+                  <td className="px-6 py-4 font-medium">{row.name}</td>
+                  <td className="px-4 py-4 text-center">
+                    {formatHours(latest.hours)}
+                    <div className="text-xs"><Delta value={row.delta.hours} format={formatHours} /></div>
+                  </td>
+                  <td className="px-4 py-4 text-center">
+                    {formatHours(latest.billableHours)}
+                    <div className="text-xs"><Delta value={row.delta.billableHours} format={formatHours} /></div>
+                  </td>
+                  <td className="px-4 py-4 text-center">
+                    {formatAmount(latest.billedAmount)}
+                    <div className="text-xs"><Delta value={row.delta.billedAmount} format={formatAmount} /></div>
+                  </td>
+                  <td className="px-4 py-4 text-center">
+                    {formatPercent(latest.budgetPercent)}
+                    <div className="text-xs"><Delta value={row.delta.budgetPercent} format={formatPoints} /></div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Changes are against {previousLabel}.</p>
+    </div>
+  );
+}
+
+// The budget report across several months: hours per project over time and
+// each project's change from the previous period
+export function ReportComparisonPanel({ month }: { month: string }) {
+  const [mode, setMode] = useState<ComparisonMode>("previous_month");
+  const query = comparisonQuery(month, mode);
+
+  const { data: comparison, isLoading, error } = useQuery<ReportComparison>({
+    queryKey: ["/api/reports/compare", query],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/reports/compare?${query}`);
+      return response.json();
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  const chartRows = [...(comparison?.projects || []), ...(comparison?.bhsProjects || [])]
+    .sort((a, b) => b.periods.reduce((sum, p) => sum + p.hours, 0) - a.periods.reduce((sum, p) => sum + p.hours, 0))
+    .slice(0, CHART_PROJECT_LIMIT);
+  const chartData = (comparison?.periods || []).map((period, index) => ({
+    label: shortLabel(period.month),
+    Total: comparison!.totals[index].hours,
+    ...Object.fromEntries(chartRows.map(row => [row.name, row.periods[index].hours]))
+  }));
+  const previousLabel = comparison && comparison.periods.length > 1
+    ? comparison.periods[comparison.periods.length - 2].label
+    : "the previous period";
+
+  return (
+    <div className="space-y-8" data-testid="report-comparison">
+      <div className="flex items-center justify-end space-x-4">
+        <Label htmlFor="comparison-mode" className="text-lg font-semibold text-gray-800">Compare:</Label>
+        <Select value={mode} onValueChange={(value) => setMode(value as ComparisonMode)}>
+          <SelectTrigger className="w-64" id="comparison-mode" data-testid="select-comparison-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {COMPARISON_MODES.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading report months from Harvest...</p>
+        </div>
+      ) : error || !comparison ? (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-600">
+          Could not load the comparison. {(error as Error | null)?.message}
+        </div>
+      ) : (
+        <>
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-800 mb-4">Hours Trend</h2>
+            <div className="bg-white rounded-lg shadow-lg p-4 h-80" data-testid="chart-report-trend">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 8, right: 24, bottom: 8, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="label" />
+                  <YAxis unit="h" />
+                  <Tooltip formatter={(value: number) => formatHours(value)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="Total" stroke="#374151" strokeWidth={2} strokeDasharray="5 4" />
+                  {chartRows.map((row, index) => (
+                    <Line key={row.id} type="monotone" dataKey={row.name} stroke={CHART_COLORS[index % CHART_COLORS.length]} strokeWidth={2} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <ComparisonTable
+            title="Primary Projects"
+            rows={comparison.projects}
+            previousLabel={previousLabel}
+            testId="table-comparison-projects"
+          />
+          <ComparisonTable
+            title="Basic Hosting Support (BHS) Projects"
+            rows={comparison.bhsProjects}
+            previousLabel={previousLabel}
+            testId="table-comparison-bhs"
+          />
+        </>
+      )}
+    </div>
+  );
+}
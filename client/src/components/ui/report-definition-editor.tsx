@@ -0,0 +1,317 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { SlidersHorizontal, Plus, Trash2 } from "lucide-react";
+import type { ReportDefinition } from "@shared/schema";
+
+// Keywords are edited as a comma-separated string and split on save
+const joinKeywords = (keywords: string[]) => keywords.join(", ");
+const splitKeywords = (value: string) => value.split(",").map(k => k.trim()).filter(Boolean);
+
+interface EditableDefinition {
+  name: string;
+  projectRules: Array<{ name: string; keywords: string }>;
+  budgetOverrides: Array<{ keywords: string; budget: string }>;
+  displayNames: Array<{ match: string; displayName: string }>;
+  bhsProjectKeywords: string;
+  bhsClientGroups: Array<{ displayName: string; keywords: string; defaultBudget: string }>;
+}
+
+function toEditable(definition: ReportDefinition): EditableDefinition {
+  return {
+    name: definition.name,
+    projectRules: definition.projectRules.map(rule => ({ name: rule.name, keywords: joinKeywords(rule.keywords) })),
+    budgetOverrides: definition.budgetOverrides.map(rule => ({ keywords: joinKeywords(rule.keywords), budget: rule.budget.toString() })),
+    displayNames: definition.displayNames.map(rule => ({ ...rule })),
+    bhsProjectKeywords: joinKeywords(definition.bhsProjectKeywords),
+    bhsClientGroups: definition.bhsClientGroups.map(group => ({
+      displayName: group.displayName,
+      keywords: joinKeywords(group.keywords),
+      defaultBudget: group.defaultBudget?.toString() || ""
+    }))
+  };
+}
+
+function fromEditable(editable: EditableDefinition) {
+  return {
+    name: editable.name,
+    projectRules: editable.projectRules
+      .map(rule => ({ name: rule.name.trim(), keywords: splitKeywords(rule.keywords) }))
+      .filter(rule => rule.name && rule.keywords.length > 0),
+    budgetOverrides: editable.budgetOverrides
+      .map(rule => ({ keywords: splitKeywords(rule.keywords), budget: parseFloat(rule.budget) || 0 }))
+      .filter(rule => rule.keywords.length > 0),
+    displayNames: editable.displayNames
+      .map(rule => ({ match: rule.match.trim(), displayName: rule.displayName.trim() }))
+      .filter(rule => rule.match && rule.displayName),
+    bhsProjectKeywords: splitKeywords(editable.bhsProjectKeywords),
+    bhsClientGroups: editable.bhsClientGroups
+      .map(group => ({
+        displayName: group.displayName.trim(),
+        keywords: splitKeywords(group.keywords),
+        defaultBudget: group.defaultBudget ? parseFloat(group.defaultBudget) : undefined
+      }))
+      .filter(group => group.displayName && group.keywords.length > 0)
+  };
+}
+
+export function ReportDefinitionEditor() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<EditableDefinition | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: definitions } = useQuery<ReportDefinition[]>({
+    queryKey: ["/api/report-definitions"],
+    enabled: isOpen,
+    refetchOnMount: true,
+  });
+
+  const activeDefinition = definitions?.find(definition => definition.isActive);
+
+  useEffect(() => {
+    if (activeDefinition && isOpen) {
+      setDraft(toEditable(activeDefinition));
+    }
+  }, [activeDefinition, isOpen]);
+
+  const saveDefinitionMutation = useMutation({
+    mutationFn: async () => {
+      if (!activeDefinition || !draft) throw new Error("No report definition loaded");
+      const response = await apiRequest("PUT", `/api/report-definitions/${activeDefinition.id}`, fromEditable(draft));
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Report settings saved"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/report-definitions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/data"] });
+      setIsOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Report Settings Error",
+        description: error.message || "Failed to save report settings",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const update = (changes: Partial<EditableDefinition>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  // Update a single field of one row in one of the rule lists
+  const updateRow = <K extends "projectRules" | "budgetOverrides" | "displayNames" | "bhsClientGroups">(
+    key: K,
+    index: number,
+    changes: Partial<EditableDefinition[K][number]>
+  ) => {
+    if (!draft) return;
+    const rows = [...draft[key]] as EditableDefinition[K];
+    rows[index] = { ...rows[index], ...changes };
+    update({ [key]: rows } as Partial<EditableDefinition>);
+  };
+
+  const removeRow = (key: "projectRules" | "budgetOverrides" | "displayNames" | "bhsClientGroups", index: number) => {
+    if (!draft) return;
+    update({ [key]: draft[key].filter((_, i) => i !== index) } as Partial<EditableDefinition>);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-report-settings">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Report Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Report Settings</DialogTitle>
+        </DialogHeader>
+        {!draft ? (
+          <div className="text-center py-8 text-gray-500">Loading report settings...</div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <Label htmlFor="definition-name">Report Name</Label>
+              <Input
+                id="definition-name"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                data-testid="input-definition-name"
+              />
+            </div>
+
+            {/* Tracked Projects */}
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="text-lg font-semibold">Tracked Projects</h3>
+              <p className="text-sm text-gray-600">
+                A Harvest project is included when its name contains any of the keywords (comma separated).
+              </p>
+              {draft.projectRules.map((rule, index) => (
+                <div key={index} className="flex space-x-2" data-testid={`row-project-rule-${index}`}>
+                  <Input
+                    className="w-1/3"
+                    value={rule.name}
+                    onChange={(e) => updateRow("projectRules", index, { name: e.target.value })}
+                    placeholder="Label"
+                  />
+                  <Input
+                    value={rule.keywords}
+                    onChange={(e) => updateRow("projectRules", index, { keywords: e.target.value })}
+                    placeholder="keyword, another keyword"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeRow("projectRules", index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ projectRules: [...draft.projectRules, { name: "", keywords: "" }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Project Rule
+              </Button>
+            </div>
+
+            {/* Budget Overrides */}
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="text-lg font-semibold">Budget Overrides</h3>
+              <p className="text-sm text-gray-600">
+                Used only when Harvest has no budget for a matching project.
+              </p>
+              {draft.budgetOverrides.map((rule, index) => (
+                <div key={index} className="flex space-x-2" data-testid={`row-budget-override-${index}`}>
+                  <Input
+                    value={rule.keywords}
+                    onChange={(e) => updateRow("budgetOverrides", index, { keywords: e.target.value })}
+                    placeholder="keyword, another keyword"
+                  />
+                  <Input
+                    className="w-32"
+                    type="number"
+                    value={rule.budget}
+                    onChange={(e) => updateRow("budgetOverrides", index, { budget: e.target.value })}
+                    placeholder="Budget $"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeRow("budgetOverrides", index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ budgetOverrides: [...draft.budgetOverrides, { keywords: "", budget: "" }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Budget Override
+              </Button>
+            </div>
+
+            {/* Display Names */}
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="text-lg font-semibold">Display Names</h3>
+              {draft.displayNames.map((rule, index) => (
+                <div key={index} className="flex space-x-2" data-testid={`row-display-name-${index}`}>
+                  <Input
+                    value={rule.match}
+                    onChange={(e) => updateRow("displayNames", index, { match: e.target.value })}
+                    placeholder="Harvest name contains"
+                  />
+                  <Input
+                    value={rule.displayName}
+                    onChange={(e) => updateRow("displayNames", index, { displayName: e.target.value })}
+                    placeholder="Show as"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeRow("displayNames", index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ displayNames: [...draft.displayNames, { match: "", displayName: "" }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Display Name
+              </Button>
+            </div>
+
+            {/* BHS Groupings */}
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="text-lg font-semibold">Basic Hosting Support (BHS)</h3>
+              <div>
+                <Label htmlFor="bhs-keywords">BHS Project Keywords</Label>
+                <Input
+                  id="bhs-keywords"
+                  value={draft.bhsProjectKeywords}
+                  onChange={(e) => update({ bhsProjectKeywords: e.target.value })}
+                  placeholder="basic hosting support, bhs"
+                  data-testid="input-bhs-keywords"
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                BHS projects are grouped into one row per client. Default support hours apply when Harvest has no budget.
+              </p>
+              {draft.bhsClientGroups.map((group, index) => (
+                <div key={index} className="flex space-x-2" data-testid={`row-bhs-client-${index}`}>
+                  <Input
+                    className="w-1/3"
+                    value={group.displayName}
+                    onChange={(e) => updateRow("bhsClientGroups", index, { displayName: e.target.value })}
+                    placeholder="Client display name"
+                  />
+                  <Input
+                    value={group.keywords}
+                    onChange={(e) => updateRow("bhsClientGroups", index, { keywords: e.target.value })}
+                    placeholder="client keyword, another"
+                  />
+                  <Input
+                    className="w-24"
+                    type="number"
+                    value={group.defaultBudget}
+                    onChange={(e) => updateRow("bhsClientGroups", index, { defaultBudget: e.target.value })}
+                    placeholder="Hours"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeRow("bhsClientGroups", index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ bhsClientGroups: [...draft.bhsClientGroups, { displayName: "", keywords: "", defaultBudget: "" }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add BHS Client
+              </Button>
+            </div>
+
+            <Button
+              onClick={() => saveDefinitionMutation.mutate()}
+              disabled={saveDefinitionMutation.isPending}
+              className="w-full bg-harvest-orange hover:bg-harvest-dark"
+              data-testid="button-save-report-settings"
+            >
+              {saveDefinitionMutation.isPending ? "Saving..." : "Save Report Settings"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
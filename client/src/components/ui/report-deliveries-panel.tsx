@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ReportRun, ReportDelivery, ReportDeliveryStatus } from "@shared/schema";
+
+type ReportRunWithDeliveries = Omit<ReportRun, "reportData"> & { deliveries: ReportDelivery[] };
+
+const STATUS_STYLES: Record<ReportDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: "Sending", className: "text-gray-600" },
+  sent: { label: "Sent", className: "text-green-600" },
+  retrying: { label: "Retrying", className: "text-yellow-600 font-semibold" },
+  failed: { label: "Failed", className: "text-red-600 font-semibold" },
+  saved_to_file: { label: "Saved to file", className: "text-red-600 font-semibold" }
+};
+
+const formatDateTime = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '—';
+
+function deliveryDetail(delivery: ReportDelivery): string {
+  switch (delivery.status) {
+    case "sent":
+      return delivery.messageId || "";
+    case "retrying":
+      return `Next try ${formatDateTime(delivery.nextAttemptAt)} · ${delivery.error || ""}`;
+    case "saved_to_file":
+      return `${delivery.fallbackPath} · ${delivery.error || ""}`;
+    default:
+      return delivery.error || "";
+  }
+}
+
+export function ReportDeliveriesPanel() {
+  const { data: runs, isLoading } = useQuery<ReportRunWithDeliveries[]>({
+    queryKey: ["/api/reports/deliveries"],
+    refetchInterval: 60000,
+  });
+
+  const rows = (runs || []).flatMap(run => run.deliveries.map(delivery => ({ run, delivery })));
+
+  return (
+    <div>
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4">Delivery Log</h2>
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        <table className="w-full" data-testid="table-report-deliveries">
+          <thead className="bg-gray-800 text-white">
+            <tr>
+              <th className="px-6 py-4 text-left">Report</th>
+              <th className="px-6 py-4 text-left">Recipient</th>
+              <th className="px-6 py-4 text-center">Status</th>
+              <th className="px-6 py-4 text-center">Attempts</th>
+              <th className="px-6 py-4 text-center">Sent</th>
+              <th className="px-6 py-4 text-left">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">Loading delivery log...</td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">No reports sent yet</td>
+              </tr>
+            ) : rows.map(({ run, delivery }) => {
+              const status = STATUS_STYLES[delivery.status as ReportDeliveryStatus] || STATUS_STYLES.failed;
+              return (
+                <tr key={delivery.id} className="border-b" data-testid={`row-delivery-${delivery.id}`}>
+                  <td className="px-6 py-4 font-medium">{run.subject}</td>
+                  <td className="px-6 py-4">{delivery.recipient}</td>
+                  <td className="px-6 py-4 text-center">
+                    <span className={status.className}>{status.label}</span>
+                  </td>
+                  <td className="px-6 py-4 text-center">{delivery.attempts}</td>
+                  <td className="px-6 py-4 text-center text-gray-600">{formatDateTime(delivery.sentAt || run.createdAt)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate" title={deliveryDetail(delivery)}>
+                    {deliveryDetail(delivery)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
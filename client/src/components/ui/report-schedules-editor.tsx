@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Plus, Trash2, Pencil, Send } from "lucide-react";
+import type { ReportSchedule, ReportCadence, ReportRangeMode } from "@shared/schema";
+
+type ScheduleWithNextRun = ReportSchedule & { nextRunAt: string | null };
+
+const CADENCE_LABELS: Record<ReportCadence, string> = {
+  daily: "Weekdays at 8:00 AM",
+  weekly: "Mondays at 8:00 AM",
+  monthly: "1st of the month at 8:00 AM",
+  custom: "Custom (cron)"
+};
+
+const RANGE_MODE_LABELS: Record<ReportRangeMode, string> = {
+  month_to_date: "Month to date",
+  last_week: "Last week",
+  last_month: "Last month"
+};
+
+interface EditableSchedule {
+  id?: string;
+  name: string;
+  cadence: ReportCadence;
+  cronExpression: string;
+  timezone: string;
+  reportType: string;
+  rangeMode: ReportRangeMode;
+  recipients: string;
+  enabled: boolean;
+}
+
+function newSchedule(): EditableSchedule {
+  return {
+    name: "Weekly Project Budget Report",
+    cadence: "weekly",
+    cronExpression: "",
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "America/Chicago",
+    reportType: "project_budget",
+    rangeMode: "month_to_date",
+    recipients: "",
+    enabled: true
+  };
+}
+
+function toEditable(schedule: ReportSchedule): EditableSchedule {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cadence: schedule.cadence as ReportCadence,
+    cronExpression: schedule.cronExpression || "",
+    timezone: schedule.timezone,
+    reportType: schedule.reportType,
+    rangeMode: schedule.rangeMode as ReportRangeMode,
+    recipients: schedule.recipients,
+    enabled: schedule.enabled
+  };
+}
+
+const formatDateTime = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '—';
+
+export function ReportSchedulesEditor() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<EditableSchedule | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: schedules, isLoading } = useQuery<ScheduleWithNextRun[]>({
+    queryKey: ["/api/report-schedules"],
+    enabled: isOpen,
+    refetchOnMount: true,
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong",
+      variant: "destructive"
+    });
+  };
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (schedule: EditableSchedule) => {
+      const { id, cronExpression, ...fields } = schedule;
+      const body = { ...fields, cronExpression: schedule.cadence === "custom" ? cronExpression : null };
+      const response = id
+        ? await apiRequest("PUT", `/api/report-schedules/${id}`, body)
+        : await apiRequest("POST", "/api/report-schedules", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Report schedule saved"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/report-schedules"] });
+      setDraft(null);
+    },
+    onError: onError("Report Schedule Error")
+  });
+
+  const toggleScheduleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/report-schedules/${id}`, { enabled });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-schedules"] });
+    },
+    onError: onError("Report Schedule Error")
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/report-schedules/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-schedules"] });
+    },
+    onError: onError("Report Schedule Error")
+  });
+
+  const runScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/report-schedules/${id}/run`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Report Sent",
+        description: result.message
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/report-schedules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/deliveries"] });
+    },
+    onError: (error: any) => {
+      onError("Report Send Error")(error);
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/deliveries"] });
+    }
+  });
+
+  const update = (changes: Partial<EditableSchedule>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) setDraft(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-report-schedules">
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Schedules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Report Schedules</DialogTitle>
+        </DialogHeader>
+        {draft ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                data-testid="input-schedule-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="schedule-cadence">Cadence</Label>
+                <Select value={draft.cadence} onValueChange={(cadence) => update({ cadence: cadence as ReportCadence })}>
+                  <SelectTrigger id="schedule-cadence" data-testid="select-schedule-cadence">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CADENCE_LABELS) as ReportCadence[]).map(cadence => (
+                      <SelectItem key={cadence} value={cadence}>{CADENCE_LABELS[cadence]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="schedule-timezone">Timezone</Label>
+                <Input
+                  id="schedule-timezone"
+                  value={draft.timezone}
+                  onChange={(e) => update({ timezone: e.target.value })}
+                  placeholder="America/Chicago"
+                  data-testid="input-schedule-timezone"
+                />
+              </div>
+            </div>
+            {draft.cadence === "custom" && (
+              <div>
+                <Label htmlFor="schedule-cron">Cron Expression</Label>
+                <Input
+                  id="schedule-cron"
+                  value={draft.cronExpression}
+                  onChange={(e) => update({ cronExpression: e.target.value })}
+                  placeholder="0 30 7 * * 1-5"
+                  data-testid="input-schedule-cron"
+                />
+                <p className="text-xs text-gray-500 mt-1">second (optional) minute hour day-of-month month day-of-week</p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="schedule-report-type">Report</Label>
+                <Select value={draft.reportType} onValueChange={(reportType) => update({ reportType })}>
+                  <SelectTrigger id="schedule-report-type" data-testid="select-schedule-report-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="project_budget">Project Budget Report</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="schedule-range">Date Range</Label>
+                <Select value={draft.rangeMode} onValueChange={(rangeMode) => update({ rangeMode: rangeMode as ReportRangeMode })}>
+                  <SelectTrigger id="schedule-range" data-testid="select-schedule-range">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RANGE_MODE_LABELS) as ReportRangeMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{RANGE_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="schedule-recipients">Recipients</Label>
+              <Input
+                id="schedule-recipients"
+                value={draft.recipients}
+                onChange={(e) => update({ recipients: e.target.value })}
+                placeholder="email1@example.com, email2@example.com"
+                data-testid="input-schedule-recipients"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="schedule-enabled">Enabled</Label>
+              <Switch
+                id="schedule-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => update({ enabled })}
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveScheduleMutation.mutate(draft)}
+                disabled={saveScheduleMutation.isPending}
+                className="flex-1 bg-harvest-orange hover:bg-harvest-dark"
+                data-testid="button-save-schedule"
+              >
+                {saveScheduleMutation.isPending ? "Saving..." : "Save Schedule"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">Loading schedules...</div>
+            ) : !schedules || schedules.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No report schedules yet.</div>
+            ) : schedules.map(schedule => (
+              <div key={schedule.id} className="border rounded-lg p-4 flex items-start justify-between" data-testid={`row-schedule-${schedule.id}`}>
+                <div className="space-y-1">
+                  <div className="font-semibold">{schedule.name}</div>
+                  <div className="text-sm text-gray-600">
+                    {schedule.cadence === "custom" ? schedule.cronExpression : CADENCE_LABELS[schedule.cadence as ReportCadence]}
+                    {" · "}{schedule.timezone}
+                    {" · "}{RANGE_MODE_LABELS[schedule.rangeMode as ReportRangeMode]}
+                  </div>
+                  <div className="text-sm text-gray-600">To: {schedule.recipients}</div>
+                  <div className="text-xs text-gray-500">
+                    Next: {schedule.enabled ? formatDateTime(schedule.nextRunAt) : "Paused"} · Last: {formatDateTime(schedule.lastRunAt)}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Switch
+                    checked={schedule.enabled}
+                    onCheckedChange={(enabled) => toggleScheduleMutation.mutate({ id: schedule.id, enabled })}
+                    data-testid={`switch-schedule-${schedule.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Send now"
+                    onClick={() => runScheduleMutation.mutate(schedule.id)}
+                    disabled={runScheduleMutation.isPending}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" title="Edit" onClick={() => setDraft(toEditable(schedule))}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete"
+                    onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                    disabled={deleteScheduleMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setDraft(newSchedule())} data-testid="button-add-schedule">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Schedule
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,9 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Clock, DollarSign, Briefcase, Users } from "lucide-react";
+import type { TimeEntrySummary } from "@shared/schema";
 
 interface SummaryCardProps {
-  summary: {
-    totalHours?: number;
-    billableHours?: number;
-    nonBillableHours?: number;
-    projectCount?: number;
-    clientCount?: number;
-    averageDaily?: number;
-    projects?: string[];
-    clients?: string[];
-  };
+  summary: Partial<TimeEntrySummary>;
 }
 
 export function SummaryCard({ summary }: SummaryCardProps) {
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface UtilizationMetrics {
+  hours: number;
+  billableHours: number;
+  capacityHours: number;
+  utilizationPercent: number | null;
+  billablePercent: number | null;
+}
+
+interface UtilizationPerson {
+  userId: number;
+  name: string;
+  weeklyCapacityHours: number;
+  isContractor: boolean;
+  weeks: UtilizationMetrics[];
+  total: UtilizationMetrics;
+}
+
+interface TeamUtilization {
+  from: string;
+  to: string;
+  weeks: { start: string; end: string }[];
+  people: UtilizationPerson[];
+  weekTotals: UtilizationMetrics[];
+  total: UtilizationMetrics;
+}
+
+const WEEK_OPTIONS = [4, 8, 13, 26];
+
+const formatWeek = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+// Under 70% is under-used, over 100% is over capacity
+function utilizationClass(percent: number | null): string {
+  if (percent === null) return "text-gray-400";
+  if (percent > 100) return "text-red-600";
+  if (percent < 70) return "text-amber-600";
+  return "text-green-600";
+}
+
+function MetricsCell({ metrics, testId }: { metrics: UtilizationMetrics; testId?: string }) {
+  return (
+    <td className="px-3 py-3 text-center whitespace-nowrap" data-testid={testId}>
+      <div className={`font-semibold ${utilizationClass(metrics.utilizationPercent)}`}>
+        {metrics.utilizationPercent === null ? "—" : `${metrics.utilizationPercent}%`}
+      </div>
+      <div className="text-xs text-gray-600">{metrics.hours}h / {metrics.capacityHours}h</div>
+      <div className="text-xs text-gray-500">
+        {metrics.billablePercent === null ? "no time" : `${metrics.billablePercent}% billable`}
+      </div>
+    </td>
+  );
+}
+
+// Hours against weekly capacity and billable share for everyone on the
+// Harvest account, week by week
+export function TeamUtilizationPanel() {
+  const [weekCount, setWeekCount] = useState(4);
+
+  const { data: utilization, isLoading, error } = useQuery<TeamUtilization>({
+    queryKey: ["/api/reports/utilization", weekCount],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/reports/utilization?weeks=${weekCount}`);
+      return response.json();
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  return (
+    <div className="space-y-6" data-testid="team-utilization">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">Team Utilization</h2>
+          <p className="text-sm text-gray-600">
+            Hours logged against each person's weekly capacity in Harvest. Partial weeks at the edges of the range count working days only.
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <Label htmlFor="utilization-weeks" className="text-lg font-semibold text-gray-800">Show:</Label>
+          <Select value={weekCount.toString()} onValueChange={(value) => setWeekCount(parseInt(value, 10))}>
+            <SelectTrigger className="w-44" id="utilization-weeks" data-testid="select-utilization-weeks">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_OPTIONS.map(option => (
+                <SelectItem key={option} value={option.toString()}>Last {option} weeks</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading team hours from Harvest...</p>
+        </div>
+      ) : error || !utilization ? (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-600">
+          Could not load team utilization. {(error as Error | null)?.message}
+        </div>
+      ) : utilization.people.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-600" data-testid="utilization-empty">
+          No people or time entries found for this range.
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-lg overflow-x-auto">
+          <table className="w-full" data-testid="table-utilization">
+            <thead className="bg-gray-800 text-white">
+              <tr>
+                <th className="px-6 py-4 text-left">Person</th>
+                <th className="px-3 py-4 text-center">Capacity</th>
+                {utilization.weeks.map(week => (
+                  <th key={week.start} className="px-3 py-4 text-center whitespace-nowrap">{formatWeek(week.start)}</th>
+                ))}
+                <th className="px-3 py-4 text-center">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {utilization.people.map(person => (
+                <tr key={person.userId} className="border-b" data-testid={`row-utilization-${person.userId}`}>
+                  <td className="px-6 py-3 font-medium whitespace-nowrap">
+                    {person.name}
+                    {person.isContractor && <Badge variant="secondary" className="ml-2">Contractor</Badge>}
+                  </td>
+                  <td className="px-3 py-3 text-center text-gray-600">{person.weeklyCapacityHours}h/wk</td>
+                  {person.weeks.map((metrics, index) => (
+                    <MetricsCell key={utilization.weeks[index].start} metrics={metrics} />
+                  ))}
+                  <MetricsCell metrics={person.total} testId={`utilization-total-${person.userId}`} />
+                </tr>
+              ))}
+              <tr className="bg-gray-100 font-semibold" data-testid="row-utilization-team">
+                <td className="px-6 py-3">Team</td>
+                <td className="px-3 py-3"></td>
+                {utilization.weekTotals.map((metrics, index) => (
+                  <MetricsCell key={utilization.weeks[index].start} metrics={metrics} />
+                ))}
+                <MetricsCell metrics={utilization.total} testId="utilization-total-team" />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
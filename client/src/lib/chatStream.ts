@@ -0,0 +1,75 @@
+// Client for the /api/chat/stream server-sent events endpoint. EventSource
+// only supports GET, so the stream is read from a fetch response instead.
+
+import type { AgentTraceStep, ChatClarification, ChatData, ParsedQuery, TimeEntrySummary } from "@shared/schema";
+
+// The events /api/chat/stream sends, in order (see answerChatMessage)
+export type ChatStreamEvent =
+  | { event: "conversation"; data: { conversationId: string } }
+  | { event: "parsed"; data: { parsedQuery: ParsedQuery } }
+  | { event: "data"; data: { data: ChatData | null; summary: TimeEntrySummary | null; queryType: ParsedQuery["queryType"] } }
+  | { event: "step"; data: { steps: AgentTraceStep[] } }
+  | { event: "text"; data: { delta: string } }
+  | { event: "reset"; data: Record<string, never> }
+  | {
+      event: "done";
+      data: {
+        response: string;
+        data: ChatData | null;
+        summary: TimeEntrySummary | null;
+        queryType: ParsedQuery["queryType"] | null;
+        parsedQuery: ParsedQuery | null;
+        clarification: ChatClarification | null;
+        trace: AgentTraceStep[];
+        conversationId: string;
+        messageId: string;
+      };
+    }
+  | { event: "error"; data: { error: string } };
+
+export async function streamChat(
+  body: { message: string; conversationId?: string },
+  onEvent: (event: ChatStreamEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const res = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      const dataLines: string[] = [];
+      rawEvent.split("\n").forEach(line => {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      });
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join("\n")) } as ChatStreamEvent);
+      }
+    }
+  }
+}
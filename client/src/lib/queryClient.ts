@@ -7,6 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Turn "401: {"error":"..."}" from apiRequest into just the message
+export function errorMessage(error: Error, fallback: string): string {
+  const match = error.message.match(/^\d+: ([\s\S]*)$/);
+  if (!match) return error.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
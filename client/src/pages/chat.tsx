@@ -1,43 +1,130 @@
 import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { streamChat } from "@/lib/chatStream";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { MessageBubble } from "@/components/ui/message-bubble";
 import { DataTable } from "@/components/ui/data-table";
 import { SummaryCard } from "@/components/ui/summary-card";
+import { ReportDefinitionEditor } from "@/components/ui/report-definition-editor";
+import { ReportSchedulesEditor } from "@/components/ui/report-schedules-editor";
+import { ReportDeliveriesPanel } from "@/components/ui/report-deliveries-panel";
+import { BudgetSparkline, type BudgetForecast } from "@/components/ui/budget-sparkline";
+import { BudgetAlertsPanel } from "@/components/ui/budget-alerts-panel";
+import { ExportMenu } from "@/components/ui/export-menu";
+import { ReportComparisonPanel } from "@/components/ui/report-comparison";
+import { TeamUtilizationPanel } from "@/components/ui/team-utilization";
 import { useToast } from "@/hooks/use-toast";
-import { Clock, Settings, Send, Mic, Mail, MessageCircle, ChevronDown } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Clock, Settings, Send, Mic, Mail, MessageCircle, ChevronDown, Plus, Pencil, Check, X, Square, LogOut, Bell, Users } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ChatHarvestData, HarvestDateSettings, WeekStartDay } from "@shared/schema";
 
 interface ChatMessage {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: string;
-  harvestData?: any;
+  harvestData?: ChatHarvestData | null;
   queryType?: string;
 }
 
+// A row of the budget report, as returned by /api/reports/data
+interface ReportProject {
+  id: number | string;
+  name: string;
+  totalHours: number;
+  budget: number;
+  budgetUsed: number;
+  budgetPercentComplete?: number;
+  billedAmount?: number;
+  billableHours?: number;
+  forecast?: BudgetForecast;
+}
+
+// The answer currently being streamed, with a status line until text arrives
+interface StreamingMessage extends ChatMessage {
+  status: string;
+}
+
+type EmailTransportName = "smtp" | "sendgrid" | "file";
+
+// Connection settings for the selected email transport
+interface EmailTransportSettings {
+  transport: EmailTransportName;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecure: boolean;
+  smtpAllowInvalidCerts: boolean;
+  fileSinkDir: string;
+}
+
+const DEFAULT_TRANSPORT_SETTINGS: EmailTransportSettings = {
+  transport: "smtp",
+  smtpHost: "smtp.gmail.com",
+  smtpPort: "587",
+  smtpSecure: false,
+  smtpAllowInvalidCerts: false,
+  fileSinkDir: ""
+};
+
+type DateSettings = Required<HarvestDateSettings>;
+
+const DEFAULT_DATE_SETTINGS: DateSettings = {
+  timezone: "America/Chicago",
+  weekStartDay: "monday",
+  fiscalYearStartMonth: 1
+};
+
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 interface HarvestStatus {
   connected: boolean;
   message: string;
 }
 
+// "Oct 23" for a YYYY-MM-DD run-out date
+const formatRunoutDate = (date: string | null | undefined) =>
+  date ? new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '—';
+
+const projectedPercentClass = (percent: number) =>
+  percent > 100 ? 'text-red-600 font-semibold' :
+  percent > 85 ? 'text-yellow-600 font-semibold' :
+  'text-green-600';
+
 export default function Chat() {
+  const { user, logoutMutation } = useAuth();
   const [message, setMessage] = useState("");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [streamingMessage, setStreamingMessage] = useState<StreamingMessage | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  // undefined until the conversation list loads, null for a new (unsaved) conversation
+  const [activeConversationId, setActiveConversationId] = useState<string | null | undefined>(undefined);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [conversationTitle, setConversationTitle] = useState("");
   const [accountId, setAccountId] = useState("");
   const [accessToken, setAccessToken] = useState("");
   const [emailUser, setEmailUser] = useState("");
   const [emailPassword, setEmailPassword] = useState("");
   const [reportRecipients, setReportRecipients] = useState("");
+  const [transportSettings, setTransportSettings] = useState<EmailTransportSettings>(DEFAULT_TRANSPORT_SETTINGS);
+  const [dateSettings, setDateSettings] = useState<DateSettings>(DEFAULT_DATE_SETTINGS);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<string>("report");
+  const [isComparing, setIsComparing] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState(() => {
     const now = new Date();
     return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
@@ -69,7 +156,7 @@ export default function Chat() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingMessage]);
 
   // Check Harvest connection status
   const { data: harvestStatus } = useQuery<HarvestStatus>({
@@ -82,8 +169,17 @@ export default function Chat() {
     harvestConfigured: boolean;
     emailConfigured: boolean;
     harvestAccountId?: string;
+    timezone?: string;
+    weekStartDay?: WeekStartDay;
+    fiscalYearStartMonth?: number;
     emailUser?: string;
     reportRecipients?: string;
+    emailTransport?: EmailTransportName;
+    smtpHost?: string;
+    smtpPort?: number;
+    smtpSecure?: boolean;
+    smtpAllowInvalidCerts?: boolean;
+    fileSinkDir?: string;
   }>({
     queryKey: ["/api/config"],
     enabled: isSettingsOpen, // Only load when settings modal is open
@@ -93,17 +189,8 @@ export default function Chat() {
 
   // Load report data
   const { data: reportData, isLoading: reportLoading } = useQuery<{
-    projects: Array<{
-      id: number;
-      name: string;
-      totalHours: number;
-      budget: number;
-      budgetUsed: number;
-      budgetPercentComplete?: number;
-      billedAmount?: number;
-      billableHours?: number;
-    }>;
-    bhsProjects: any[];
+    projects: ReportProject[];
+    bhsProjects: ReportProject[];
     summary: {
       totalHours: number;
       projectCount: number;
@@ -126,65 +213,196 @@ export default function Chat() {
     }
   }, [isSettingsOpen, refetchConfig]);
 
-  // Load chat history
-  const { data: chatHistory } = useQuery<ChatMessage[]>({
-    queryKey: ["/api/chat/history"]
+  // Load conversations
+  const { data: conversations } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"]
+  });
+
+  // Open the most recent conversation on first load
+  useEffect(() => {
+    if (conversations && activeConversationId === undefined) {
+      setActiveConversationId(conversations[0]?.id ?? null);
+    }
+  }, [conversations, activeConversationId]);
+
+  // Load the active conversation's messages
+  const { data: conversationMessages } = useQuery<ChatMessage[]>({
+    queryKey: ["/api/conversations", activeConversationId, "messages"],
+    enabled: !!activeConversationId,
   });
 
-  // Update messages when chat history loads
+  // Update messages when the conversation changes or its history loads
   useEffect(() => {
-    if (chatHistory) {
-      setMessages(chatHistory);
+    if (!activeConversationId) {
+      setMessages([]);
+    } else if (conversationMessages) {
+      setMessages(conversationMessages);
     }
-  }, [chatHistory]);
+  }, [activeConversationId, conversationMessages]);
+
+  const activeConversation = conversations?.find(c => c.id === activeConversationId);
 
   // Update form fields when config loads
   useEffect(() => {
     if (currentConfig && isSettingsOpen) {
       setAccountId(currentConfig.harvestAccountId || "");
+      setDateSettings({
+        timezone: currentConfig.timezone || DEFAULT_DATE_SETTINGS.timezone,
+        weekStartDay: currentConfig.weekStartDay || DEFAULT_DATE_SETTINGS.weekStartDay,
+        fiscalYearStartMonth: currentConfig.fiscalYearStartMonth || DEFAULT_DATE_SETTINGS.fiscalYearStartMonth
+      });
       setEmailUser(currentConfig.emailUser || "");
       setReportRecipients(currentConfig.reportRecipients || "");
+      setTransportSettings({
+        transport: currentConfig.emailTransport || DEFAULT_TRANSPORT_SETTINGS.transport,
+        smtpHost: currentConfig.smtpHost || DEFAULT_TRANSPORT_SETTINGS.smtpHost,
+        smtpPort: String(currentConfig.smtpPort || DEFAULT_TRANSPORT_SETTINGS.smtpPort),
+        smtpSecure: currentConfig.smtpSecure ?? false,
+        smtpAllowInvalidCerts: currentConfig.smtpAllowInvalidCerts ?? false,
+        fileSinkDir: currentConfig.fileSinkDir || ""
+      });
       // Clear passwords for security when loading
       setAccessToken("");
       setEmailPassword("");
     }
   }, [currentConfig, isSettingsOpen]);
 
-  // Send message mutation
-  const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      const response = await apiRequest("POST", "/api/chat", { message: content });
+  // Stream the answer to a question, rendering it as it arrives
+  const sendMessage = async (content: string) => {
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      content,
+      role: 'user',
+      timestamp: new Date().toISOString()
+    };
+    setMessages(prev => [...prev, userMessage]);
+    setMessage("");
+    setStreamingMessage({
+      id: (Date.now() + 1).toString(),
+      content: "",
+      role: 'assistant',
+      timestamp: new Date().toISOString(),
+      status: "Understanding your question..."
+    });
+
+    const updateStreaming = (changes: (prev: StreamingMessage) => Partial<StreamingMessage>) => {
+      setStreamingMessage(prev => prev ? { ...prev, ...changes(prev) } : prev);
+    };
+
+    let conversationId = activeConversationId ?? undefined;
+    try {
+      await streamChat({ message: content, conversationId }, ({ event, data }) => {
+        switch (event) {
+          case 'conversation':
+            conversationId = data.conversationId;
+            break;
+          case 'parsed':
+            updateStreaming(() => ({ status: "Fetching your Harvest data...", queryType: data.parsedQuery.queryType }));
+            break;
+          case 'data':
+            updateStreaming(() => ({
+              status: "Writing the answer...",
+              harvestData: { data: data.data, summary: data.summary },
+              queryType: data.queryType
+            }));
+            break;
+          case 'step':
+            // Text written before a tool call isn't part of the answer
+            updateStreaming(() => ({
+              content: "",
+              status: `Looking up: ${data.steps.map(step => step.tool.replace(/_/g, ' ')).join(', ')}...`
+            }));
+            break;
+          case 'reset':
+            updateStreaming(() => ({ content: "" }));
+            break;
+          case 'text':
+            updateStreaming(prev => ({ content: prev.content + data.delta }));
+            break;
+          case 'done':
+            setMessages(prev => [...prev, {
+              // The stored message's id, so its data can be downloaded right away
+              id: data.messageId || (Date.now() + 1).toString(),
+              content: data.response,
+              role: 'assistant',
+              timestamp: new Date().toISOString(),
+              harvestData: {
+                data: data.data,
+                summary: data.summary,
+                parsedQuery: data.parsedQuery ?? undefined,
+                trace: data.trace,
+                clarification: data.clarification ?? undefined
+              },
+              queryType: data.queryType ?? undefined
+            }]);
+            break;
+          case 'error':
+            throw new Error(data.error);
+        }
+      }, abortController.signal);
+
+      // A first message starts a new conversation on the server
+      if (conversationId && conversationId !== activeConversationId) {
+        setActiveConversationId(conversationId);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
+      }
+    } catch (error: any) {
+      // Nothing is stored for an unanswered question, so put it back in the input
+      setMessages(prev => prev.filter(msg => msg.id !== userMessage.id));
+      setMessage(content);
+      if (!abortController.signal.aborted) {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to send message",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      streamAbortRef.current = null;
+      setStreamingMessage(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+    }
+  };
+
+  const handleCancelStream = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  // Rename conversation mutation
+  const renameConversationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/conversations/${activeConversationId}`, {
+        title: conversationTitle
+      });
       return response.json();
     },
-    onSuccess: (data) => {
-      const userMessage: ChatMessage = {
-        id: Date.now().toString(),
-        content: message,
-        role: 'user',
-        timestamp: new Date().toISOString()
-      };
-
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        content: data.response,
-        role: 'assistant',
-        timestamp: new Date().toISOString(),
-        harvestData: data,
-        queryType: data.queryType
-      };
-
-      setMessages(prev => [...prev, userMessage, assistantMessage]);
-      setMessage("");
+    onSuccess: () => {
+      setIsRenaming(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to send message",
+        description: error.message || "Failed to rename conversation",
         variant: "destructive"
       });
     }
   });
 
+  const handleNewConversation = () => {
+    setIsRenaming(false);
+    setActiveConversationId(null);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    setIsRenaming(false);
+    setActiveConversationId(id);
+  };
+
   // Configure Harvest mutation
   const configureHarvestMutation = useMutation({
     mutationFn: async () => {
@@ -210,6 +428,29 @@ export default function Chat() {
     }
   });
 
+  // Save how relative dates ("last week", "this fiscal year") are worked out
+  const saveDateSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/harvest/settings", {
+        ...dateSettings,
+        timezone: dateSettings.timezone.trim()
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/data"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/utilization"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Date Settings Error",
+        description: errorMessage(error, "Failed to save date settings"),
+        variant: "destructive"
+      });
+    }
+  });
+
   // Configure Email mutation
   const configureEmailMutation = useMutation({
     mutationFn: async () => {
@@ -220,9 +461,15 @@ export default function Chat() {
       if (emailUser) body.emailUser = emailUser;
       if (emailPassword) body.emailPassword = emailPassword;
       if (reportRecipients !== undefined) body.reportRecipients = reportRecipients || "david@webapper.com";
+      body.transport = transportSettings.transport;
+      body.smtpHost = transportSettings.smtpHost;
+      body.smtpPort = parseInt(transportSettings.smtpPort, 10) || 587;
+      body.smtpSecure = transportSettings.smtpSecure;
+      body.smtpAllowInvalidCerts = transportSettings.smtpAllowInvalidCerts;
+      body.fileSinkDir = transportSettings.fileSinkDir.trim() || null;
       
-      // For new configurations, require both email and password
-      if (!isUpdate && (!emailUser || !emailPassword)) {
+      // For new configurations, require both email and password (the file sink needs no password)
+      if (!isUpdate && (!emailUser || (!emailPassword && transportSettings.transport !== "file"))) {
         throw new Error("Email user and password are required for initial setup");
       }
       
@@ -256,20 +503,54 @@ export default function Chat() {
         title: "Success",
         description: `Test report sent successfully to ${recipients}`
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/deliveries"] });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         title: "Test Report Error",
-        description: error.message || "Failed to send test report",
+        description: errorMessage(error, "Failed to send test report"),
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Send one plain email with the saved settings and show exactly what failed
+  const testEmailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/email/test");
+      return response.json() as Promise<{ to: string; transport: string; messageId: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Test Email Sent",
+        description: `Sent to ${result.to} via ${result.transport}${result.messageId ? ` (${result.messageId})` : ""}`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Test Email Failed",
+        description: errorMessage(error, "Failed to send test email"),
         variant: "destructive"
       });
     }
   });
 
+  const updateTransportSettings = (changes: Partial<EmailTransportSettings>) => {
+    setTransportSettings(prev => ({ ...prev, ...changes }));
+  };
+
   const handleSaveAllSettings = () => {
     if (accountId && accessToken) {
       configureHarvestMutation.mutate();
     }
+    const dateSettingsChanged = currentConfig?.harvestConfigured && (
+      dateSettings.timezone.trim() !== currentConfig.timezone ||
+      dateSettings.weekStartDay !== currentConfig.weekStartDay ||
+      dateSettings.fiscalYearStartMonth !== currentConfig.fiscalYearStartMonth
+    );
+    if (dateSettingsChanged) {
+      saveDateSettingsMutation.mutate();
+    }
     // Trigger email mutation if any email field has a value or if email is already configured and we're updating recipients
     if (emailUser || emailPassword || (currentConfig?.emailConfigured && reportRecipients !== undefined)) {
       configureEmailMutation.mutate();
@@ -308,7 +589,7 @@ export default function Chat() {
       return;
     }
 
-    sendMessageMutation.mutate(message);
+    sendMessage(message);
   };
 
   const handleQuickAction = (actionMessage: string) => {
@@ -388,6 +669,52 @@ export default function Chat() {
                         data-testid="input-access-token"
                       />
                     </div>
+                    {currentConfig?.harvestConfigured && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <Label htmlFor="accountTimezone">Timezone</Label>
+                          <Input
+                            id="accountTimezone"
+                            value={dateSettings.timezone}
+                            onChange={(e) => setDateSettings(prev => ({ ...prev, timezone: e.target.value }))}
+                            placeholder="America/Chicago"
+                            data-testid="input-account-timezone"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="weekStartDay">Week Starts On</Label>
+                          <Select
+                            value={dateSettings.weekStartDay}
+                            onValueChange={(weekStartDay) => setDateSettings(prev => ({ ...prev, weekStartDay: weekStartDay as WeekStartDay }))}
+                          >
+                            <SelectTrigger id="weekStartDay" data-testid="select-week-start-day">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="monday">Monday</SelectItem>
+                              <SelectItem value="sunday">Sunday</SelectItem>
+                              <SelectItem value="saturday">Saturday</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label htmlFor="fiscalYearStart">Fiscal Year Starts</Label>
+                          <Select
+                            value={dateSettings.fiscalYearStartMonth.toString()}
+                            onValueChange={(month) => setDateSettings(prev => ({ ...prev, fiscalYearStartMonth: parseInt(month, 10) }))}
+                          >
+                            <SelectTrigger id="fiscalYearStart" data-testid="select-fiscal-year-start">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {MONTH_NAMES.map((name, index) => (
+                                <SelectItem key={name} value={(index + 1).toString()}>{name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {/* Email Settings Section */}
@@ -397,10 +724,84 @@ export default function Chat() {
                       <h3 className="text-lg font-semibold">Email Reports</h3>
                     </div>
                     <p className="text-sm text-gray-600">
-                      Configure email settings to send weekly project budget reports every Monday at 8:00 AM CST.
+                      Configure email settings to send project budget reports. Set when and to whom under Schedules on the report tab.
                     </p>
                     <div>
-                      <Label htmlFor="emailUser">Gmail Address</Label>
+                      <Label htmlFor="emailTransport">Send Email With</Label>
+                      <Select
+                        value={transportSettings.transport}
+                        onValueChange={(transport) => updateTransportSettings({ transport: transport as EmailTransportName })}
+                      >
+                        <SelectTrigger id="emailTransport" data-testid="select-email-transport">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="smtp">SMTP server (Gmail by default)</SelectItem>
+                          <SelectItem value="sendgrid">SendGrid</SelectItem>
+                          <SelectItem value="file">Local files (development)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {transportSettings.transport === "smtp" && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="col-span-2">
+                          <Label htmlFor="smtpHost">SMTP Host</Label>
+                          <Input
+                            id="smtpHost"
+                            value={transportSettings.smtpHost}
+                            onChange={(e) => updateTransportSettings({ smtpHost: e.target.value })}
+                            placeholder="smtp.gmail.com"
+                            data-testid="input-smtp-host"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="smtpPort">Port</Label>
+                          <Input
+                            id="smtpPort"
+                            type="number"
+                            value={transportSettings.smtpPort}
+                            onChange={(e) => updateTransportSettings({ smtpPort: e.target.value })}
+                            placeholder="587"
+                            data-testid="input-smtp-port"
+                          />
+                        </div>
+                        <div className="col-span-3 flex items-center justify-between">
+                          <Label htmlFor="smtpSecure">Use TLS from the start (port 465) instead of STARTTLS</Label>
+                          <Switch
+                            id="smtpSecure"
+                            checked={transportSettings.smtpSecure}
+                            onCheckedChange={(smtpSecure) => updateTransportSettings({ smtpSecure })}
+                            data-testid="switch-smtp-secure"
+                          />
+                        </div>
+                        <div className="col-span-3 flex items-center justify-between">
+                          <Label htmlFor="smtpAllowInvalidCerts">Accept self-signed certificates</Label>
+                          <Switch
+                            id="smtpAllowInvalidCerts"
+                            checked={transportSettings.smtpAllowInvalidCerts}
+                            onCheckedChange={(smtpAllowInvalidCerts) => updateTransportSettings({ smtpAllowInvalidCerts })}
+                            data-testid="switch-smtp-allow-invalid-certs"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {transportSettings.transport === "file" && (
+                      <div>
+                        <Label htmlFor="fileSinkDir">Mail Directory</Label>
+                        <Input
+                          id="fileSinkDir"
+                          value={transportSettings.fileSinkDir}
+                          onChange={(e) => updateTransportSettings({ fileSinkDir: e.target.value })}
+                          placeholder="mail"
+                          data-testid="input-file-sink-dir"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Emails are written as .eml files to the new/ folder of this maildir on the server instead of being sent.
+                        </p>
+                      </div>
+                    )}
+                    <div>
+                      <Label htmlFor="emailUser">{transportSettings.transport === "smtp" ? "Email Address" : "From Address"}</Label>
                       <Input
                         id="emailUser"
                         type="email"
@@ -409,21 +810,30 @@ export default function Chat() {
                         placeholder="your-email@gmail.com"
                         data-testid="input-email-user"
                       />
+                      {transportSettings.transport === "sendgrid" && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Must be a verified sender in your SendGrid account.
+                        </p>
+                      )}
                     </div>
-                    <div>
-                      <Label htmlFor="emailPassword">Gmail App Password</Label>
-                      <Input
-                        id="emailPassword"
-                        type="password"
-                        value={emailPassword}
-                        onChange={(e) => setEmailPassword(e.target.value)}
-                        placeholder={currentConfig?.emailConfigured ? "********" : "Gmail App Password (not your regular password)"}
-                        data-testid="input-email-password"
-                      />
-                      <p className="text-xs text-gray-500 mt-1">
-                        Generate an App Password in your Google Account settings under Security → 2-Step Verification → App passwords.
-                      </p>
-                    </div>
+                    {transportSettings.transport !== "file" && (
+                      <div>
+                        <Label htmlFor="emailPassword">{transportSettings.transport === "sendgrid" ? "SendGrid API Key" : "Password"}</Label>
+                        <Input
+                          id="emailPassword"
+                          type="password"
+                          value={emailPassword}
+                          onChange={(e) => setEmailPassword(e.target.value)}
+                          placeholder={currentConfig?.emailConfigured ? "********" : transportSettings.transport === "sendgrid" ? "SG.xxxxxxxx" : "Gmail App Password (not your regular password)"}
+                          data-testid="input-email-password"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {transportSettings.transport === "sendgrid"
+                            ? "Create an API key with Mail Send access under Settings → API Keys in SendGrid."
+                            : "For Gmail, generate an App Password in your Google Account settings under Security → 2-Step Verification → App passwords."}
+                        </p>
+                      </div>
+                    )}
                     <div>
                       <Label htmlFor="reportRecipients">Report Recipients</Label>
                       <Input
@@ -439,16 +849,25 @@ export default function Chat() {
                       </p>
                     </div>
                     
-                    {/* Test Report Button */}
-                    <Button 
-                      variant="outline"
-                      onClick={() => testReportMutation.mutate()}
-                      disabled={testReportMutation.isPending}
-                      className="w-full"
-                      data-testid="button-test-report"
-                    >
-                      {testReportMutation.isPending ? "Sending..." : "Send Test Report"}
-                    </Button>
+                    {/* Test Buttons - both use the saved settings */}
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button 
+                        variant="outline"
+                        onClick={() => testEmailMutation.mutate()}
+                        disabled={testEmailMutation.isPending}
+                        data-testid="button-test-email"
+                      >
+                        {testEmailMutation.isPending ? "Sending..." : "Send Test Email"}
+                      </Button>
+                      <Button 
+                        variant="outline"
+                        onClick={() => testReportMutation.mutate()}
+                        disabled={testReportMutation.isPending}
+                        data-testid="button-test-report"
+                      >
+                        {testReportMutation.isPending ? "Sending..." : "Send Test Report"}
+                      </Button>
+                    </div>
                   </div>
 
                   {/* Save All Button */}
@@ -463,13 +882,24 @@ export default function Chat() {
                 </div>
               </DialogContent>
             </Dialog>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-white hover:bg-harvest-dark"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              title={user ? `Signed in as ${user.username} - sign out` : "Sign out"}
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </header>
 
       {/* Tab Navigation */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="report" className="flex items-center space-x-2">
             <Mail className="h-4 w-4" />
             <span>Monthly Report</span>
@@ -478,9 +908,75 @@ export default function Chat() {
             <MessageCircle className="h-4 w-4" />
             <span>Chat</span>
           </TabsTrigger>
+          <TabsTrigger value="team" className="flex items-center space-x-2">
+            <Users className="h-4 w-4" />
+            <span>Team</span>
+          </TabsTrigger>
+          <TabsTrigger value="alerts" className="flex items-center space-x-2">
+            <Bell className="h-4 w-4" />
+            <span>Alerts</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="chat" className="flex-1 flex flex-col mt-0">
+          {/* Conversation Bar */}
+          <div className="flex items-center space-x-2 border-b border-gray-200 p-3" data-testid="conversation-bar">
+            {isRenaming && activeConversationId ? (
+              <form
+                className="flex flex-1 items-center space-x-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (conversationTitle.trim()) renameConversationMutation.mutate();
+                }}
+              >
+                <Input
+                  value={conversationTitle}
+                  onChange={(e) => setConversationTitle(e.target.value)}
+                  className="flex-1"
+                  autoFocus
+                  data-testid="input-conversation-title"
+                />
+                <Button type="submit" variant="ghost" size="sm" disabled={!conversationTitle.trim() || renameConversationMutation.isPending}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setIsRenaming(false)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </form>
+            ) : (
+              <>
+                <Select value={activeConversationId ?? ""} onValueChange={handleSelectConversation}>
+                  <SelectTrigger className="flex-1" data-testid="select-conversation">
+                    <SelectValue placeholder="New conversation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {conversations?.map((conversation) => (
+                      <SelectItem key={conversation.id} value={conversation.id}>
+                        {conversation.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!activeConversation}
+                  onClick={() => {
+                    setConversationTitle(activeConversation?.title || "");
+                    setIsRenaming(true);
+                  }}
+                  data-testid="button-rename-conversation"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button variant="outline" size="sm" onClick={handleNewConversation} data-testid="button-new-conversation">
+              <Plus className="h-4 w-4 mr-2" />
+              New Chat
+            </Button>
+          </div>
+
           {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 max-h-[70vh]" data-testid="chat-messages">
         {/* Welcome Message */}
@@ -504,7 +1000,7 @@ export default function Chat() {
         )}
 
         {/* Chat Messages */}
-        {messages.map((msg) => (
+        {messages.map((msg, index) => (
           <MessageBubble
             key={msg.id}
             role={msg.role}
@@ -513,31 +1009,81 @@ export default function Chat() {
             extraContent={
               msg.role === 'assistant' && msg.harvestData && (
                 <div className="mt-4 space-y-4">
+                  {/* Clarifying question: each option answers it; only the latest one can be answered */}
+                  {msg.harvestData.clarification && (
+                    <div className="flex flex-wrap gap-2" data-testid={`clarification-${msg.id}`}>
+                      {msg.harvestData.clarification.options.map(option => (
+                        <Button
+                          key={option}
+                          variant="outline"
+                          size="sm"
+                          disabled={index !== messages.length - 1 || !!streamingMessage || !harvestStatus?.connected}
+                          onClick={() => sendMessage(option)}
+                          data-testid="button-clarification-option"
+                        >
+                          {option}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Data Table */}
                   {msg.harvestData.data && Array.isArray(msg.harvestData.data) && msg.harvestData.data.length > 0 && (
-                    <DataTable 
-                      data={msg.harvestData.data} 
-                      queryType={msg.queryType || 'time_entries'} 
-                    />
+                    <div className="space-y-2">
+                      <div className="flex justify-end">
+                        <ExportMenu url={`/api/chat/messages/${msg.id}/export`} testId={`button-export-${msg.id}`} />
+                      </div>
+                      <DataTable 
+                        data={msg.harvestData.data} 
+                        queryType={msg.queryType || 'time_entries'} 
+                      />
+                    </div>
                   )}
                   
                   {/* Summary Card */}
                   {msg.harvestData.summary && (
                     <SummaryCard summary={msg.harvestData.summary} />
                   )}
+
+                  {/* Agent Trace */}
+                  {Array.isArray(msg.harvestData.trace) && msg.harvestData.trace.length > 0 && (
+                    <div className="text-xs text-gray-500" data-testid="text-agent-trace">
+                      Looked up: {msg.harvestData.trace.map(step => step.tool.replace(/_/g, ' ')).join(' → ')}
+                    </div>
+                  )}
                 </div>
               )
             }
           />
         ))}
 
-        {/* Loading Message */}
-        {sendMessageMutation.isPending && (
+        {/* Streaming Message */}
+        {streamingMessage && (
           <MessageBubble
             role="assistant"
-            content=""
-            timestamp={new Date().toISOString()}
-            isLoading={true}
+            content={streamingMessage.content}
+            timestamp={streamingMessage.timestamp}
+            isLoading={!streamingMessage.content && !streamingMessage.harvestData}
+            loadingText={streamingMessage.status}
+            extraContent={
+              <div className="mt-4 space-y-4">
+                {!streamingMessage.content && (
+                  <div className="flex items-center space-x-3" data-testid="text-stream-status">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-harvest-orange"></div>
+                    <span className="text-gray-600">{streamingMessage.status}</span>
+                  </div>
+                )}
+                {streamingMessage.harvestData?.data && Array.isArray(streamingMessage.harvestData.data) && streamingMessage.harvestData.data.length > 0 && (
+                  <DataTable
+                    data={streamingMessage.harvestData.data}
+                    queryType={streamingMessage.queryType || 'time_entries'}
+                  />
+                )}
+                {streamingMessage.harvestData?.summary && (
+                  <SummaryCard summary={streamingMessage.harvestData.summary} />
+                )}
+              </div>
+            }
           />
         )}
 
@@ -559,15 +1105,27 @@ export default function Chat() {
               <Mic className="h-4 w-4 text-gray-400 hover:text-harvest-orange cursor-pointer transition-colors" />
             </div>
           </div>
-          <Button 
-            type="submit"
-            disabled={!message.trim() || sendMessageMutation.isPending || !harvestStatus?.connected}
-            className="bg-harvest-orange hover:bg-harvest-dark"
-            data-testid="button-send"
-          >
-            <Send className="h-4 w-4 mr-2" />
-            Send
-          </Button>
+          {streamingMessage ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCancelStream}
+              data-testid="button-cancel"
+            >
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button 
+              type="submit"
+              disabled={!message.trim() || !harvestStatus?.connected}
+              className="bg-harvest-orange hover:bg-harvest-dark"
+              data-testid="button-send"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send
+            </Button>
+          )}
         </form>
         
         {/* Quick Actions */}
@@ -600,7 +1158,15 @@ export default function Chat() {
               </div>
 
               <div className="bg-gray-50 p-6 rounded-lg mb-8">
-                <h2 className="text-2xl font-semibold text-gray-800 mb-4">Month-to-Date Summary</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-2xl font-semibold text-gray-800">Month-to-Date Summary</h2>
+                  <div className="flex items-center space-x-2">
+                    <ExportMenu url={`/api/reports/export?month=${selectedMonth}`} testId="button-export-report" />
+                    <ReportSchedulesEditor />
+                    {/* The report definition is shared by every user */}
+                    {user?.isAdmin && <ReportDefinitionEditor />}
+                  </div>
+                </div>
                 <p className="text-gray-600">This report shows the total hours and budget utilization for each project so far this month.</p>
               </div>
 
@@ -613,6 +1179,17 @@ export default function Chat() {
                 <div className="space-y-8 mb-8">
                   {/* Month Selector */}
                   <div className="flex items-center justify-end mb-6" data-testid="month-selector">
+                    <div className="flex items-center space-x-2 mr-6">
+                      <Switch
+                        id="report-compare"
+                        checked={isComparing}
+                        onCheckedChange={setIsComparing}
+                        data-testid="switch-report-compare"
+                      />
+                      <Label htmlFor="report-compare" className="text-lg font-semibold text-gray-800">
+                        Compare
+                      </Label>
+                    </div>
                     <div className="flex items-center space-x-4">
                       <Label htmlFor="month-select" className="text-lg font-semibold text-gray-800">
                         Select Month:
@@ -632,90 +1209,139 @@ export default function Chat() {
                     </div>
                   </div>
 
-                  {/* Primary Projects Table */}
-                  <div>
-                    <h2 className="text-2xl font-semibold text-gray-800 mb-4">Primary Projects</h2>
-                    <div className="bg-white rounded-lg shadow-lg overflow-hidden">
-                      <table className="w-full">
-                        <thead className="bg-gray-800 text-white">
-                          <tr>
-                            <th className="px-6 py-4 text-left">Project Name</th>
-                            <th className="px-6 py-4 text-center">Hours Logged</th>
-                            <th className="px-6 py-4 text-center">Billable Hours</th>
-                            <th className="px-6 py-4 text-center">Budget Spent</th>
-                            <th className="px-6 py-4 text-center">Budget %</th>
-                            <th className="px-6 py-4 text-center">Total Budget</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {reportData.projects.map((project, index) => (
-                            <tr key={project.id} className="border-b">
-                              <td className="px-6 py-4 font-medium">{project.name}</td>
-                              <td className="px-6 py-4 text-center">{project.totalHours.toFixed(1)}h</td>
-                              <td className="px-6 py-4 text-center">{project.billableHours?.toFixed(1) || '0'}h</td>
-                              <td className="px-6 py-4 text-center">${project.billedAmount?.toFixed(2) || '0.00'}</td>
-                              <td className="px-6 py-4 text-center">
-                                <span className={
-                                  (project.budgetPercentComplete || 0) > 90 ? 'text-red-600 font-semibold' : 
-                                  (project.budgetPercentComplete || 0) > 75 ? 'text-yellow-600 font-semibold' : 
-                                  'text-green-600'
-                                }>
-                                  {(project.budgetPercentComplete || 0).toFixed(1)}%
-                                </span>
-                              </td>
-                              <td className="px-6 py-4 text-center">
-                                {project.budget > 0 ? `$${project.budget.toLocaleString()}` : 'No Budget Set'}
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                  </div>
-
-                  {/* BHS Projects Table */}
-                  {reportData.bhsProjects && reportData.bhsProjects.length > 0 && (
+                  {isComparing ? (
+                    <ReportComparisonPanel month={selectedMonth} />
+                  ) : (
+                    <>
+                    {/* Primary Projects Table */}
                     <div>
-                      <h2 className="text-2xl font-semibold text-gray-800 mb-4">Basic Hosting Support (BHS) Projects</h2>
+                      <h2 className="text-2xl font-semibold text-gray-800 mb-4">Primary Projects</h2>
                       <div className="bg-white rounded-lg shadow-lg overflow-hidden">
                         <table className="w-full">
                           <thead className="bg-gray-800 text-white">
                             <tr>
-                              <th className="px-6 py-4 text-left">Client Name</th>
+                              <th className="px-6 py-4 text-left">Project Name</th>
                               <th className="px-6 py-4 text-center">Hours Logged</th>
-                              <th className="px-6 py-4 text-center">Support Hours</th>
+                              <th className="px-6 py-4 text-center">Billable Hours</th>
+                              <th className="px-6 py-4 text-center">Budget Spent</th>
                               <th className="px-6 py-4 text-center">Budget %</th>
                               <th className="px-6 py-4 text-center">Total Budget</th>
+                              <th className="px-6 py-4 text-center">Projected Spend</th>
+                              <th className="px-6 py-4 text-center">Projected %</th>
+                              <th className="px-6 py-4 text-center">Budget Runs Out</th>
+                              <th className="px-6 py-4 text-center">Trend</th>
                             </tr>
                           </thead>
                           <tbody>
-                            {reportData.bhsProjects.map((project, index) => {
-                              // Calculate budget percentage for hours (hours logged / support hours budget)
-                              const budgetPercent = project.budget > 0 ? (project.totalHours / project.budget) * 100 : 0;
-                              // Calculate total budget: $150 × Support Hours
-                              const totalBudget = project.budget > 0 ? project.budget * 150 : 0;
-                              return (
-                                <tr key={project.id} className="border-b">
-                                  <td className="px-6 py-4 font-medium">{project.name}</td>
-                                  <td className="px-6 py-4 text-center">{project.totalHours.toFixed(1)}h</td>
-                                  <td className="px-6 py-4 text-center">{project.budget > 0 ? `${project.budget}h` : 'No Budget Set'}</td>
-                                  <td className="px-6 py-4 text-center">
-                                    <span className={
-                                      budgetPercent > 100 ? 'text-red-600 font-semibold' : 
-                                      budgetPercent > 85 ? 'text-yellow-600 font-semibold' : 
-                                      'text-green-600'
-                                    }>
-                                      {budgetPercent.toFixed(1)}%
+                            {reportData.projects.map((project, index) => (
+                              <tr key={project.id} className="border-b">
+                                <td className="px-6 py-4 font-medium">{project.name}</td>
+                                <td className="px-6 py-4 text-center">{project.totalHours.toFixed(1)}h</td>
+                                <td className="px-6 py-4 text-center">{project.billableHours?.toFixed(1) || '0'}h</td>
+                                <td className="px-6 py-4 text-center">${project.billedAmount?.toFixed(2) || '0.00'}</td>
+                                <td className="px-6 py-4 text-center">
+                                  <span className={
+                                    (project.budgetPercentComplete || 0) > 90 ? 'text-red-600 font-semibold' : 
+                                    (project.budgetPercentComplete || 0) > 75 ? 'text-yellow-600 font-semibold' : 
+                                    'text-green-600'
+                                  }>
+                                    {(project.budgetPercentComplete || 0).toFixed(1)}%
+                                  </span>
+                                </td>
+                                <td className="px-6 py-4 text-center">
+                                  {project.budget > 0 ? `$${project.budget.toLocaleString()}` : 'No Budget Set'}
+                                </td>
+                                <td className="px-6 py-4 text-center">
+                                  {project.forecast ? `$${project.forecast.projectedSpend.toFixed(2)}` : '—'}
+                                  {project.forecast && (
+                                    <div className="text-xs text-gray-500">{project.forecast.projectedHours.toFixed(1)}h</div>
+                                  )}
+                                </td>
+                                <td className="px-6 py-4 text-center">
+                                  {project.forecast && project.budget > 0 ? (
+                                    <span className={projectedPercentClass(project.forecast.projectedBudgetPercent)}>
+                                      {project.forecast.projectedBudgetPercent.toFixed(1)}%
                                     </span>
-                                  </td>
-                                  <td className="px-6 py-4 text-center">${totalBudget.toLocaleString()}</td>
-                                </tr>
-                              );
-                            })}
+                                  ) : '—'}
+                                </td>
+                                <td className="px-6 py-4 text-center" data-testid={`text-runout-${project.id}`}>
+                                  {formatRunoutDate(project.forecast?.budgetExhaustedOn)}
+                                </td>
+                                <td className="px-6 py-4 text-center">
+                                  {project.forecast && <BudgetSparkline forecast={project.forecast} budget={project.budget} />}
+                                </td>
+                              </tr>
+                            ))}
                           </tbody>
                         </table>
                       </div>
                     </div>
+
+                    {/* BHS Projects Table */}
+                    {reportData.bhsProjects && reportData.bhsProjects.length > 0 && (
+                      <div>
+                        <h2 className="text-2xl font-semibold text-gray-800 mb-4">Basic Hosting Support (BHS) Projects</h2>
+                        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+                          <table className="w-full">
+                            <thead className="bg-gray-800 text-white">
+                              <tr>
+                                <th className="px-6 py-4 text-left">Client Name</th>
+                                <th className="px-6 py-4 text-center">Hours Logged</th>
+                                <th className="px-6 py-4 text-center">Support Hours</th>
+                                <th className="px-6 py-4 text-center">Budget %</th>
+                                <th className="px-6 py-4 text-center">Total Budget</th>
+                                <th className="px-6 py-4 text-center">Projected Hours</th>
+                                <th className="px-6 py-4 text-center">Projected %</th>
+                                <th className="px-6 py-4 text-center">Hours Run Out</th>
+                                <th className="px-6 py-4 text-center">Trend</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {reportData.bhsProjects.map((project, index) => {
+                                // Calculate budget percentage for hours (hours logged / support hours budget)
+                                const budgetPercent = project.budget > 0 ? (project.totalHours / project.budget) * 100 : 0;
+                                // Calculate total budget: $150 × Support Hours
+                                const totalBudget = project.budget > 0 ? project.budget * 150 : 0;
+                                return (
+                                  <tr key={project.id} className="border-b">
+                                    <td className="px-6 py-4 font-medium">{project.name}</td>
+                                    <td className="px-6 py-4 text-center">{project.totalHours.toFixed(1)}h</td>
+                                    <td className="px-6 py-4 text-center">{project.budget > 0 ? `${project.budget}h` : 'No Budget Set'}</td>
+                                    <td className="px-6 py-4 text-center">
+                                      <span className={
+                                        budgetPercent > 100 ? 'text-red-600 font-semibold' : 
+                                        budgetPercent > 85 ? 'text-yellow-600 font-semibold' : 
+                                        'text-green-600'
+                                      }>
+                                        {budgetPercent.toFixed(1)}%
+                                      </span>
+                                    </td>
+                                    <td className="px-6 py-4 text-center">${totalBudget.toLocaleString()}</td>
+                                    <td className="px-6 py-4 text-center">
+                                      {project.forecast ? `${project.forecast.projectedHours.toFixed(1)}h` : '—'}
+                                    </td>
+                                    <td className="px-6 py-4 text-center">
+                                      {project.forecast && project.budget > 0 ? (
+                                        <span className={projectedPercentClass(project.forecast.projectedBudgetPercent)}>
+                                          {project.forecast.projectedBudgetPercent.toFixed(1)}%
+                                        </span>
+                                      ) : '—'}
+                                    </td>
+                                    <td className="px-6 py-4 text-center" data-testid={`text-runout-${project.id}`}>
+                                      {formatRunoutDate(project.forecast?.budgetExhaustedOn)}
+                                    </td>
+                                    <td className="px-6 py-4 text-center">
+                                      {project.forecast && <BudgetSparkline forecast={project.forecast} budget={project.budget} />}
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+                    </>
                   )}
                 </div>
               ) : (
@@ -744,6 +1370,26 @@ export default function Chat() {
                 </div>
               </div>
 
+              <div className="mt-8">
+                <ReportDeliveriesPanel />
+              </div>
+
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="team" className="flex-1" data-testid="team-content">
+          <div className="h-full w-full overflow-y-auto bg-white">
+            <div className="w-full p-8">
+              <TeamUtilizationPanel />
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="alerts" className="flex-1" data-testid="alerts-content">
+          <div className="h-full w-full overflow-y-auto bg-white">
+            <div className="w-full p-8">
+              <BudgetAlertsPanel />
             </div>
           </div>
         </TabsContent>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { Clock } from "lucide-react";
+
+export default function Login() {
+  const { loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const isRegistering = mode === "register";
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isRegistering) {
+      registerMutation.mutate({ username, password });
+    } else {
+      loginMutation.mutate({ username, password });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <Clock className="h-8 w-8 text-harvest-orange" />
+            <CardTitle className="text-xl">Harvest API Assistant</CardTitle>
+          </div>
+          <p className="text-sm text-gray-600">
+            {isRegistering ? "Create an account, then connect your own Harvest token in settings." : "Sign in to ask questions about your time tracking data."}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4" data-testid="form-login">
+            <div>
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                data-testid="input-username"
+              />
+            </div>
+            <div>
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={isRegistering ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-password"
+              />
+              {isRegistering && (
+                <p className="text-xs text-gray-500 mt-1">At least 8 characters.</p>
+              )}
+            </div>
+            <Button
+              type="submit"
+              disabled={!username.trim() || !password || isPending}
+              className="w-full bg-harvest-orange hover:bg-harvest-dark"
+              data-testid="button-login"
+            >
+              {isPending ? "Please wait..." : isRegistering ? "Create Account" : "Sign In"}
+            </Button>
+          </form>
+          <Button
+            variant="link"
+            className="w-full mt-2"
+            onClick={() => setMode(isRegistering ? "login" : "register")}
+            data-testid="button-toggle-register"
+          >
+            {isRegistering ? "Already have an account? Sign in" : "Need an account? Register"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Passwords are stored as "<scrypt hash hex>.<salt hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+function toPublicUser(user: SelectUser) {
+  return { id: user.id, username: user.username, isAdmin: isAdmin(user) };
+}
+
+// Rejects any request without a signed-in session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ error: "Not authenticated" });
+}
+
+// A comma separated list of usernames from the environment, lowercased
+function usernamesFromEnv(name: string): string[] {
+  return (process.env[name] || "")
+    .split(",")
+    .map(username => username.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Usernames listed in ADMIN_USERNAMES (comma separated)
+export function isAdmin(user: SelectUser): boolean {
+  return usernamesFromEnv("ADMIN_USERNAMES").includes(user.username.toLowerCase());
+}
+
+// Only invited usernames can sign up: those in ALLOWED_USERNAMES plus the
+// admins. With neither set, registration is closed.
+function canRegister(username: string): boolean {
+  const invited = [...usernamesFromEnv("ALLOWED_USERNAMES"), ...usernamesFromEnv("ADMIN_USERNAMES")];
+  return invited.includes(username.toLowerCase());
+}
+
+// Rejects any request from a user who isn't an admin. Goes after requireAuth.
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.user && isAdmin(req.user)) {
+    return next();
+  }
+  res.status(403).json({ error: "Admin access required" });
+}
+
+// Sets up sessions, the login/logout/register routes, and the guard that
+// every other /api route sits behind. Must run before registerRoutes.
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies.");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const validation = insertUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid registration data", details: validation.error });
+      }
+
+      const { username, password } = validation.data;
+      if (!canRegister(username)) {
+        return res.status(403).json({ error: "Registration is by invitation only. Ask an admin to add your username to ALLOWED_USERNAMES." });
+      }
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password)
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Registration error:", error);
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Everything else under /api needs a signed-in user
+  app.use("/api", requireAuth);
+}
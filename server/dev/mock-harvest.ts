@@ -0,0 +1,226 @@
+// Local stand-in for the Harvest v2 API so paging (and everything built on
+// top of HarvestService) can be exercised without a real account.
+//
+//   npm run mock:harvest
+//   HARVEST_BASE_URL=http://localhost:5050/v2 npm run dev
+//
+// Any account id / token is accepted. Pages are deliberately small
+// (MOCK_HARVEST_PAGE_SIZE, default 25) so every list call spans several pages.
+// Requests over MOCK_HARVEST_RATE_LIMIT per 15 seconds (default 100, like
+// Harvest) get a 429 with Retry-After; MOCK_HARVEST_ERROR_RATE (0-1) makes
+// that share of requests fail with a 503.
+//
+// Tests start it in-process with createMockHarvestApp (see harvest.test.ts).
+
+import express, { type Request, type Response } from "express";
+import { pathToFileURL } from "url";
+import type { HarvestTimeEntry, HarvestProject, HarvestClient } from "@shared/schema";
+
+const RATE_LIMIT_WINDOW_MS = 15_000;
+
+export interface MockHarvestOptions {
+  pageSize?: number;
+  rateLimit?: number;
+  errorRate?: number;
+  // false leaves links out of list responses, like older Harvest endpoints,
+  // so clients have to page by total_pages
+  links?: boolean;
+}
+
+const mockUsers = [
+  { id: 1001, first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.com', is_active: true, weekly_capacity: 144000 },
+  { id: 1002, first_name: 'Grace', last_name: 'Hopper', email: 'grace@example.com', is_active: true, weekly_capacity: 144000 },
+  { id: 1003, first_name: 'Alan', last_name: 'Turing', email: 'alan@example.com', is_active: true, weekly_capacity: 115200 }
+];
+
+const mockClients: HarvestClient[] = [
+  { id: 2001, name: 'Educational Data Services, Inc.', is_active: true, address: '' },
+  { id: 2002, name: 'CloudSee', is_active: true, address: '' },
+  { id: 2003, name: 'Vision AST', is_active: true, address: '' },
+  { id: 2004, name: 'Atlantic British Ltd.', is_active: true, address: '' },
+  { id: 2005, name: 'eRep, Inc.', is_active: true, address: '' },
+  { id: 2006, name: 'Icon Media, Inc.', is_active: true, address: '' }
+];
+
+const clientRef = (id: number) => {
+  const client = mockClients.find(c => c.id === id)!;
+  return { id: client.id, name: client.name };
+};
+
+const mockProjects: HarvestProject[] = [
+  { id: 3001, name: 'Retained Support Services', code: 'EDS', is_active: true, budget: 15500, client: clientRef(2001) },
+  { id: 3002, name: 'CloudSee Drive', code: 'CSD', is_active: true, budget: 0, client: clientRef(2002) },
+  { id: 3003, name: 'Vision AST Maintenance', code: 'VAST', is_active: true, budget: 14700, client: clientRef(2003) },
+  { id: 3004, name: 'Basic Hosting Support', code: 'BHS-AB', is_active: true, budget: 8, client: clientRef(2004) },
+  { id: 3005, name: 'Basic Hosting Support', code: 'BHS-ER', is_active: true, budget: 10, client: clientRef(2005) },
+  { id: 3006, name: 'Basic Hosting Support', code: 'BHS-IM', is_active: true, budget: 6, client: clientRef(2006) },
+  { id: 3007, name: 'BHS - Vision AST', code: 'BHS-VA', is_active: true, budget: 12, client: clientRef(2003) }
+];
+
+const mockTasks = [
+  { id: 4001, name: 'Development' },
+  { id: 4002, name: 'Support' },
+  { id: 4003, name: 'Project Management' }
+];
+
+// Deterministic entries: every weekday of the last 120 days, a few per user
+export function buildTimeEntries(): HarvestTimeEntry[] {
+  const entries: HarvestTimeEntry[] = [];
+  const today = new Date();
+  let id = 500000;
+
+  for (let offset = 0; offset < 120; offset++) {
+    const day = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - offset));
+    const weekday = day.getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const spentDate = day.toISOString().split('T')[0];
+
+    mockUsers.forEach((user, userIndex) => {
+      for (let slot = 0; slot < 2; slot++) {
+        const project = mockProjects[(offset + userIndex * 2 + slot) % mockProjects.length];
+        const task = mockTasks[(offset + slot) % mockTasks.length];
+        const billable = (offset + userIndex + slot) % 5 !== 0;
+        entries.push({
+          id: id++,
+          spent_date: spentDate,
+          hours: [1.5, 2, 2.5, 3, 4][(offset + userIndex + slot) % 5],
+          notes: `${task.name} for ${project.name}`,
+          billable,
+          billable_rate: billable ? 150 : null,
+          user: { id: user.id, name: `${user.first_name} ${user.last_name}` },
+          client: project.client,
+          project: { id: project.id, name: project.name },
+          task
+        } as HarvestTimeEntry);
+      }
+    });
+  }
+
+  return entries;
+}
+
+export function createMockHarvestApp(options: MockHarvestOptions = {}) {
+  const maxPageSize = options.pageSize ?? 25;
+  const rateLimit = options.rateLimit ?? 100;
+  const errorRate = options.errorRate ?? 0;
+  const includeLinks = options.links ?? true;
+  // Every mock record counts as last updated when the server started
+  const startedAt = new Date().toISOString();
+  const mockTimeEntries = buildTimeEntries();
+
+  // Wrap a filtered list in Harvest's pagination envelope
+  function paginate<T>(req: Request, res: Response, key: string, allRecords: T[]) {
+    const updatedSince = req.query.updated_since as string | undefined;
+    const records = updatedSince && Date.parse(updatedSince) > Date.parse(startedAt) ? [] : allRecords;
+    const perPage = Math.min(parseInt((req.query.per_page as string) || '100', 10) || 100, maxPageSize);
+    const page = Math.max(parseInt((req.query.page as string) || '1', 10) || 1, 1);
+    const totalPages = Math.max(Math.ceil(records.length / perPage), 1);
+
+    const pageUrl = (target: number) => {
+      const url = new URL(`${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}`);
+      Object.entries(req.query).forEach(([name, value]) => {
+        if (name !== 'page' && typeof value === 'string') url.searchParams.set(name, value);
+      });
+      url.searchParams.set('per_page', perPage.toString());
+      url.searchParams.set('page', target.toString());
+      return url.toString();
+    };
+
+    res.json({
+      [key]: records.slice((page - 1) * perPage, page * perPage).map(record => ({ ...record, updated_at: startedAt })),
+      per_page: perPage,
+      total_pages: totalPages,
+      total_entries: records.length,
+      next_page: page < totalPages ? page + 1 : null,
+      previous_page: page > 1 ? page - 1 : null,
+      page,
+      ...(includeLinks ? {
+        links: {
+          first: pageUrl(1),
+          next: page < totalPages ? pageUrl(page + 1) : null,
+          previous: page > 1 ? pageUrl(page - 1) : null,
+          last: pageUrl(totalPages)
+        }
+      } : {})
+    });
+  }
+
+  const app = express();
+  const api = express.Router();
+
+  api.use((req, res, next) => {
+    if (!req.get('Authorization') || !req.get('Harvest-Account-Id')) {
+      return res.status(401).json({ error: 'invalid_token', error_description: 'The access token provided is expired, revoked, malformed or invalid for other reasons.' });
+    }
+    next();
+  });
+
+  let requestTimes: number[] = [];
+
+  api.use((_req, res, next) => {
+    const now = Date.now();
+    requestTimes = requestTimes.filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+    if (requestTimes.length >= rateLimit) {
+      const retryAfter = Math.ceil((RATE_LIMIT_WINDOW_MS - (now - requestTimes[0])) / 1000);
+      res.set('Retry-After', retryAfter.toString());
+      return res.status(429).json({ error: 'rate_limited', message: 'Too many requests' });
+    }
+    requestTimes.push(now);
+
+    if (Math.random() < errorRate) {
+      return res.status(503).json({ error: 'unavailable', message: 'Service temporarily unavailable' });
+    }
+    next();
+  });
+
+  api.get('/users/me', (_req, res) => {
+    res.json(mockUsers[0]);
+  });
+
+  api.get('/users', (req, res) => {
+    const users = req.query.is_active === undefined
+      ? mockUsers
+      : mockUsers.filter(user => String(user.is_active) === req.query.is_active);
+    paginate(req, res, 'users', users);
+  });
+
+  api.get('/clients', (req, res) => {
+    paginate(req, res, 'clients', mockClients);
+  });
+
+  api.get('/projects', (req, res) => {
+    let projects = mockProjects;
+    if (req.query.client_id) {
+      projects = projects.filter(p => p.client.id === Number(req.query.client_id));
+    }
+    paginate(req, res, 'projects', projects);
+  });
+
+  api.get('/time_entries', (req, res) => {
+    const { from, to, user_id, project_id, client_id } = req.query as Record<string, string | undefined>;
+    const entries = mockTimeEntries.filter(entry =>
+      (!from || entry.spent_date >= from) &&
+      (!to || entry.spent_date <= to) &&
+      (!user_id || entry.user.id === Number(user_id)) &&
+      (!project_id || entry.project.id === Number(project_id)) &&
+      (!client_id || entry.client.id === Number(client_id))
+    );
+    paginate(req, res, 'time_entries', entries);
+  });
+
+  app.use('/v2', api);
+  return app;
+}
+
+// npm run mock:harvest
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_HARVEST_PORT || '5050', 10);
+  const pageSize = parseInt(process.env.MOCK_HARVEST_PAGE_SIZE || '25', 10);
+  createMockHarvestApp({
+    pageSize,
+    rateLimit: parseInt(process.env.MOCK_HARVEST_RATE_LIMIT || '100', 10),
+    errorRate: parseFloat(process.env.MOCK_HARVEST_ERROR_RATE || '0')
+  }).listen(port, () => {
+    console.log(`Mock Harvest API listening on http://localhost:${port}/v2 (page size ${pageSize})`);
+  });
+}
@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { QUERY_TYPES, SUMMARY_TYPES, WEEK_START_DAYS, parsedQuerySchema } from '@shared/schema';
+import type { QueryParseResult } from '../services/query-parser';
+import type { CompletionRequest, CompletionResult, LLMProvider } from '../services/llm';
+
+// Golden questions for parseNaturalLanguageQuery, how a parse is scored
+// against them, and the providers that replay or record model answers so
+// the suite runs without network access (see server/scripts/eval-parser.ts).
+
+const dateRangeSchema = z.object({ from: z.string(), to: z.string() });
+
+// The parts of a ParsedQuery a case checks. Fields left out aren't scored.
+const expectedQuerySchema = z.object({
+  queryType: z.enum(QUERY_TYPES),
+  dateRange: dateRangeSchema.optional(),
+  summaryType: z.enum(SUMMARY_TYPES).optional(),
+  filters: z.object({
+    billable: z.boolean().optional(),
+    projectName: z.string().optional(),
+    clientName: z.string().optional(),
+    userName: z.string().optional()
+  }).strict().optional()
+}).strict();
+
+export const parserEvalFixturesSchema = z.object({
+  // The moment "today" is taken from, so relative dates have fixed answers
+  now: z.string().datetime(),
+  dateSettings: z.object({
+    timezone: z.string(),
+    weekStartDay: z.enum(WEEK_START_DAYS),
+    fiscalYearStartMonth: z.number().int().min(1).max(12)
+  }),
+  cases: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/),
+    question: z.string().min(1),
+    notes: z.string().optional(),
+    context: z.object({
+      history: z.array(z.object({ role: z.enum(['user', 'assistant']), content: z.string() })),
+      previousQuery: parsedQuerySchema.nullable().optional()
+    }).optional(),
+    // { clarification: true } when the parser should ask instead of guessing
+    expected: z.union([z.object({ clarification: z.literal(true) }).strict(), expectedQuerySchema])
+  })).min(1)
+});
+
+export type ParserEvalFixtures = z.infer<typeof parserEvalFixturesSchema>;
+export type ParserEvalCase = ParserEvalFixtures['cases'][number];
+
+// Model answers captured by a live run, replayed by later runs
+export const parserRecordingSchema = z.object({
+  provider: z.enum(['anthropic', 'openai']),
+  model: z.string(),
+  recordedAt: z.string(),
+  // Where the answers came from when they weren't recorded from a live model
+  notes: z.string().optional(),
+  cases: z.record(z.object({
+    question: z.string(),
+    // Hash of the first prompt, to spot recordings made with an older prompt
+    promptHash: z.string(),
+    // One answer per attempt, repairs included
+    responses: z.array(z.string())
+  }))
+});
+
+export type ParserRecording = z.infer<typeof parserRecordingSchema>;
+export type RecordedCase = ParserRecording['cases'][string];
+
+export const hashPrompt = (prompt: string) =>
+  createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+
+const firstPrompt = (request: CompletionRequest) => {
+  const first = request.messages[0];
+  return first?.role === 'user' ? first.content : '';
+};
+
+// Answers with a recorded case's responses, in order
+export class ReplayProvider implements LLMProvider {
+  private calls = 0;
+  promptHash: string | null = null;
+  error: unknown = null;
+
+  constructor(readonly name: LLMProvider['name'], readonly model: string, private recorded: RecordedCase) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.promptHash = this.promptHash ?? hashPrompt(firstPrompt(request));
+    const text = this.recorded.responses[this.calls++];
+    if (text === undefined) {
+      this.error = new Error(`The recording has only ${this.recorded.responses.length} response(s)`);
+      throw this.error;
+    }
+    return { text, toolCalls: [], model: this.model, usage: { inputTokens: 0, outputTokens: 0 } };
+  }
+}
+
+// Passes calls through to a real provider and keeps what it answered
+export class RecordingProvider implements LLMProvider {
+  readonly responses: string[] = [];
+  promptHash = '';
+  error: unknown = null;
+
+  constructor(private provider: LLMProvider) {}
+
+  get name() { return this.provider.name; }
+  get model() { return this.provider.model; }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.promptHash = this.promptHash || hashPrompt(firstPrompt(request));
+    try {
+      const result = await this.provider.complete(request);
+      this.responses.push(result.text);
+      return result;
+    } catch (error) {
+      this.error = error;
+      throw error;
+    }
+  }
+}
+
+type ScoredFields = Record<string, string | boolean>;
+
+const normalize = (value: string | boolean) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+function expectedFields(expected: ParserEvalCase['expected']): ScoredFields {
+  if ('clarification' in expected) return { clarification: true };
+  const fields: ScoredFields = { queryType: expected.queryType };
+  if (expected.dateRange) {
+    fields['dateRange.from'] = expected.dateRange.from;
+    fields['dateRange.to'] = expected.dateRange.to;
+  }
+  if (expected.summaryType) fields.summaryType = expected.summaryType;
+  Object.entries(expected.filters || {}).forEach(([key, value]) => {
+    if (value !== undefined) fields[`filters.${key}`] = value;
+  });
+  return fields;
+}
+
+function actualFields(result: QueryParseResult): ScoredFields {
+  if ('clarification' in result) return { clarification: true };
+  const { queryType, parameters, summaryType } = result.parsedQuery;
+  const fields: ScoredFields = { queryType };
+  if (parameters.dateRange?.from) fields['dateRange.from'] = parameters.dateRange.from;
+  if (parameters.dateRange?.to) fields['dateRange.to'] = parameters.dateRange.to;
+  if (summaryType) fields.summaryType = summaryType;
+  for (const key of ['billable', 'projectName', 'clientName', 'userName']) {
+    const value = parameters.filters?.[key];
+    if (typeof value === 'string' || typeof value === 'boolean') fields[`filters.${key}`] = value;
+  }
+  return fields;
+}
+
+export interface FieldMismatch {
+  field: string;
+  expected?: string | boolean;
+  actual?: string | boolean;
+}
+
+export interface CaseScore {
+  // Share of checked fields that matched, 0 to 1
+  score: number;
+  exact: boolean;
+  mismatches: FieldMismatch[];
+}
+
+// Every expected field must match. Filters the case didn't ask for count
+// against the parse too, since an extra filter changes the answer; extra
+// dates or a summary type on a list query don't.
+export function scoreParse(expected: ParserEvalCase['expected'], result: QueryParseResult): CaseScore {
+  const want = expectedFields(expected);
+  const got = actualFields(result);
+  const fields = Array.from(new Set([
+    ...Object.keys(want),
+    ...Object.keys(got).filter(field => field.startsWith('filters.') || field === 'clarification' || field === 'queryType')
+  ]));
+
+  const mismatches = fields
+    .filter(field => want[field] === undefined || got[field] === undefined || normalize(want[field]) !== normalize(got[field]))
+    .map(field => ({ field, expected: want[field], actual: got[field] }));
+  const score = fields.length === 0 ? 1 : (fields.length - mismatches.length) / fields.length;
+  return { score, exact: mismatches.length === 0, mismatches };
+}
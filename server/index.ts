@@ -2,6 +2,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { reportScheduler } from "./services/scheduler";
+import { reportDeliveries } from "./services/deliveries";
+import { harvestSync } from "./services/sync";
+import { storage } from "./storage";
+import { SecretsKeyError } from "./secrets";
 
 const app = express();
 app.use(express.json());
@@ -44,6 +48,20 @@ app.use((req, res, next) => {
     res.sendFile("weekly-report.html", { root: process.cwd() });
   });
 
+  // Encrypt credentials saved before encryption existed (and re-wrap any
+  // under a previous SECRETS_KEY) before anything reads them
+  try {
+    const reencrypted = await storage.reencryptSecrets();
+    if (reencrypted.harvestConfigs + reencrypted.emailConfigs > 0) {
+      log(`encrypted ${reencrypted.harvestConfigs} harvest config(s) and ${reencrypted.emailConfigs} email config(s)`);
+    }
+  } catch (error) {
+    if (!(error instanceof SecretsKeyError)) throw error;
+    console.error(`Cannot start: ${error.message}`);
+    console.error("Set SECRETS_KEY to a base64-encoded 32-byte key (openssl rand -base64 32). While rotating keys, also set SECRETS_PREVIOUS_KEYS to the old key(s), comma-separated.");
+    process.exit(1);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -75,7 +93,13 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
     
-    // Start the weekly report scheduler
+    // Register the saved report schedules
     reportScheduler.startScheduler();
+    
+    // Retry report emails that failed to send
+    reportDeliveries.startRetryWorker();
+    
+    // Keep the local Harvest mirror up to date
+    harvestSync.startSyncWorker();
   });
 })();
@@ -1,94 +1,216 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { parseNaturalLanguageQuery, generateResponse } from "./services/openai";
-import { HarvestService } from "./services/harvest";
-import { reportScheduler } from "./services/scheduler";
-import { insertChatMessageSchema, insertHarvestConfigSchema, insertEmailConfigSchema } from "@shared/schema";
+import { setupAuth, requireAdmin } from "./auth";
+import { answerChatMessage, resolveConversation, ChatCancelledError, getChatErrorStatus } from "./services/chat";
+import { HarvestService, HarvestApiError, getHarvestErrorStatus, mirrorFor } from "./services/harvest";
+import { getSchemaWarnings } from "./services/harvest-validation";
+import { reportScheduler, validateSchedule } from "./services/scheduler";
+import { getActiveReportDefinition, buildMonthlyReport, type ReportPeriod } from "./services/report";
+import { harvestSync } from "./services/sync";
+import { budgetAlerts, defaultAlertSettings } from "./services/alerts";
+import { deliverEmail } from "./services/email";
+import { describeEmailError } from "./services/email-transports";
+import { buildExport, type ExportFile } from "./services/export";
+import { buildReportComparison, trailingMonths, MAX_COMPARISON_MONTHS } from "./services/report-comparison";
+import { getTeamUtilization, MAX_UTILIZATION_WEEKS } from "./services/utilization";
+import { getLlmUsageReport, startOfMonthUtc } from "./services/llm-usage";
+import { dateSettingsFromConfig, currentMonth, todayIn, resolveDateRange, addDays, type DateRangeSettings } from "./services/date-range";
+import { insertChatMessageSchema, insertConversationSchema, insertHarvestConfigSchema, harvestDateSettingsSchema, insertEmailConfigSchema, insertReportDefinitionSchema, insertAlertSettingsSchema, insertReportScheduleSchema } from "@shared/schema";
+import { EXPORT_FORMATS, getDataColumns, isDataRow, REPORT_PROJECT_COLUMNS, REPORT_BHS_COLUMNS, type DataRow, type ReportRow } from "@shared/exports";
 import { z } from "zod";
 
+const exportQuerySchema = z.object({ format: z.enum(EXPORT_FORMATS).default("csv") });
+
+const monthParamSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected a month as YYYY-MM");
+
+// Either two months (base and current), or a window of `trailing` months ending with `month`
+const comparisonQuerySchema = z.object({
+  base: monthParamSchema.optional(),
+  current: monthParamSchema.optional(),
+  month: monthParamSchema.optional(),
+  trailing: z.coerce.number().int().min(2).max(MAX_COMPARISON_MONTHS).optional()
+}).refine(query => (query.base && query.current) || query.trailing, {
+  message: "Pass base and current months, or a trailing number of months"
+});
+
+const dateParamSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+// Either a date range (from and to), or the last `weeks` weeks up to this one
+const utilizationQuerySchema = z.object({
+  from: dateParamSchema.optional(),
+  to: dateParamSchema.optional(),
+  weeks: z.coerce.number().int().min(1).max(MAX_UTILIZATION_WEEKS).default(4)
+}).refine(query => !query.from === !query.to, {
+  message: "Pass both from and to, or neither"
+}).refine(query => !query.from || !query.to || (query.from <= query.to && query.to <= addDays(query.from, MAX_UTILIZATION_WEEKS * 7 - 1)), {
+  message: `The range must run forwards and cover at most ${MAX_UTILIZATION_WEEKS} weeks`
+});
+
+const MAX_LLM_USAGE_DAYS = 366;
+
+// UTC days, both inclusive; month to date when left out
+const llmUsageQuerySchema = z.object({
+  from: dateParamSchema.optional(),
+  to: dateParamSchema.optional()
+}).refine(query => !query.from || !query.to || (query.from <= query.to && query.to <= addDays(query.from, MAX_LLM_USAGE_DAYS - 1)), {
+  message: `The range must run forwards and cover at most ${MAX_LLM_USAGE_DAYS} days`
+});
+
+const EXPORT_SHEET_NAMES: Record<string, string> = {
+  time_entries: "Time Entries",
+  summary: "Time Entries",
+  projects: "Projects",
+  clients: "Clients",
+  users: "People"
+};
+
+// The report month from ?month=YYYY-MM, defaulting to the current month in
+// the account's timezone
+function reportPeriodFromQuery(monthParam: string | undefined, settings: DateRangeSettings): ReportPeriod {
+  return {
+    month: monthParamSchema.safeParse(monthParam).success ? monthParam! : currentMonth(settings),
+    today: todayIn(settings.timezone)
+  };
+}
+
+function sendExportFile(res: Response, file: ExportFile) {
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+  res.send(file.body);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  // Sessions and login routes; every /api route below requires a signed-in user
+  setupAuth(app);
+
   // Chat endpoint for natural language queries
   app.post("/api/chat", async (req, res) => {
     try {
-      const { message } = req.body;
+      const { message, conversationId } = req.body;
       
       if (!message || typeof message !== 'string') {
         return res.status(400).json({ error: "Message is required" });
       }
+      if (conversationId !== undefined && typeof conversationId !== 'string') {
+        return res.status(400).json({ error: "Invalid conversation id" });
+      }
 
       // Get Harvest configuration
-      const harvestConfig = await storage.getHarvestConfig();
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
       if (!harvestConfig) {
         return res.status(400).json({ 
           error: "Harvest API not configured. Please set up your API credentials first." 
         });
       }
 
-      // Parse the natural language query with Anthropic
-      const parsedQuery = await parseNaturalLanguageQuery(message);
-      
+      const conversation = await resolveConversation(req.user!.id, message, conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
       // Initialize Harvest service
       const harvestService = new HarvestService({
         accountId: harvestConfig.accountId,
-        accessToken: harvestConfig.accessToken
+        accessToken: harvestConfig.accessToken,
+        dateSettings: dateSettingsFromConfig(harvestConfig),
+        mirror: mirrorFor(harvestConfig)
       });
 
-      // Execute the appropriate Harvest API call
-      let harvestData: any = null;
-      let summary: any = null;
-
-      switch (parsedQuery.queryType) {
-        case 'time_entries':
-          harvestData = await harvestService.getTimeEntries(parsedQuery.parameters);
-          summary = harvestService.generateSummary(harvestData, 'time_entries', parsedQuery.summaryType);
-          break;
-        case 'projects':
-          harvestData = await harvestService.getProjects();
-          break;
-        case 'clients':
-          harvestData = await harvestService.getClients();
-          break;
-        case 'summary':
-          harvestData = await harvestService.getTimeEntries(parsedQuery.parameters);
-          summary = harvestService.generateSummary(harvestData, 'time_entries', parsedQuery.summaryType);
-          break;
-        default:
-          harvestData = await harvestService.getTimeEntries(parsedQuery.parameters);
-      }
-
-      // Generate AI response
-      const aiResponse = await generateResponse(message, harvestData, parsedQuery.queryType);
-
-      // Store the conversation
-      await storage.createChatMessage({
-        content: message,
-        role: 'user',
-        harvestData: null,
-        queryType: parsedQuery.queryType
+      const result = await answerChatMessage(message, conversation, harvestService);
+      res.json(result);
+
+    } catch (error) {
+      console.error("Chat API error:", error);
+      res.status(getChatErrorStatus(error)).json({ 
+        error: error instanceof Error ? error.message : "An unexpected error occurred" 
       });
+    }
+  });
+
+  // Streaming variant of /api/chat over server-sent events. Events, in order:
+  // conversation, parsed, data, then any number of step / text / reset, and
+  // finally done (the stored result) or error. Closing the connection cancels.
+  app.post("/api/chat/stream", async (req, res) => {
+    const { message, conversationId } = req.body;
+
+    if (!message || typeof message !== 'string') {
+      return res.status(400).json({ error: "Message is required" });
+    }
+    if (conversationId !== undefined && typeof conversationId !== 'string') {
+      return res.status(400).json({ error: "Invalid conversation id" });
+    }
 
-      await storage.createChatMessage({
-        content: aiResponse,
-        role: 'assistant',
-        harvestData: { data: harvestData, summary, parsedQuery },
-        queryType: parsedQuery.queryType
+    try {
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
+      if (!harvestConfig) {
+        return res.status(400).json({ 
+          error: "Harvest API not configured. Please set up your API credentials first." 
+        });
+      }
+
+      const conversation = await resolveConversation(req.user!.id, message, conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
       });
 
-      res.json({
-        response: aiResponse,
-        data: harvestData,
-        summary,
-        queryType: parsedQuery.queryType,
-        parsedQuery
+      const abortController = new AbortController();
+      res.on('close', () => abortController.abort());
+
+      const send = (event: string, payload: unknown) => {
+        if (!res.writableEnded) {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+        }
+      };
+
+      send('conversation', { conversationId: conversation.id });
+
+      const harvestService = new HarvestService({
+        accountId: harvestConfig.accountId,
+        accessToken: harvestConfig.accessToken,
+        dateSettings: dateSettingsFromConfig(harvestConfig),
+        mirror: mirrorFor(harvestConfig)
       });
 
+      try {
+        const result = await answerChatMessage(message, conversation, harvestService, {
+          onParsed: parsedQuery => send('parsed', { parsedQuery }),
+          onData: payload => send('data', payload),
+          onToolStep: steps => send('step', { steps }),
+          onText: delta => send('text', { delta }),
+          onTextReset: () => send('reset', {}),
+          signal: abortController.signal
+        });
+        send('done', result);
+      } catch (error) {
+        if (error instanceof ChatCancelledError || abortController.signal.aborted) {
+          console.log("Chat stream cancelled by client");
+        } else {
+          console.error("Chat stream error:", error);
+          send('error', {
+            error: error instanceof Error ? error.message : "An unexpected error occurred",
+            status: getChatErrorStatus(error)
+          });
+        }
+      }
+      res.end();
+
     } catch (error) {
-      console.error("Chat API error:", error);
-      res.status(500).json({ 
-        error: error instanceof Error ? error.message : "An unexpected error occurred" 
-      });
+      console.error("Chat stream error:", error);
+      if (!res.headersSent) {
+        res.status(getHarvestErrorStatus(error)).json({ 
+          error: error instanceof Error ? error.message : "An unexpected error occurred" 
+        });
+      } else {
+        res.end();
+      }
     }
   });
 
@@ -110,7 +232,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid Harvest API credentials" });
       }
 
-      await storage.saveHarvestConfig({ accountId, accessToken });
+      const savedConfig = await storage.saveHarvestConfig(req.user!.id, { accountId, accessToken });
+      
+      // Fill this user's mirror with the new token in the background
+      harvestSync.syncUser(savedConfig).catch(error => console.error("Initial Harvest sync failed:", error));
+      
       res.json({ success: true, message: "Harvest API configured successfully" });
 
     } catch (error) {
@@ -124,7 +250,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get Harvest connection status
   app.get("/api/harvest/status", async (req, res) => {
     try {
-      const config = await storage.getHarvestConfig();
+      const config = await storage.getHarvestConfig(req.user!.id);
       if (!config) {
         return res.json({ connected: false, message: "No configuration found" });
       }
@@ -137,7 +263,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isConnected = await harvestService.testConnection();
       res.json({ 
         connected: isConnected, 
-        message: isConnected ? "Connected to Harvest API" : "Connection failed" 
+        message: isConnected ? "Connected to Harvest API" : "Connection failed",
+        // Fields Harvest sent that don't match @shared/harvest, newest first
+        schemaWarnings: getSchemaWarnings(config.accountId)
       });
 
     } catch (error) {
@@ -146,10 +274,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Timezone, week start day and fiscal year start used for relative dates
+  app.put("/api/harvest/settings", async (req, res) => {
+    try {
+      const validation = harvestDateSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid date settings", details: validation.error });
+      }
+
+      const config = await storage.updateHarvestDateSettings(req.user!.id, validation.data);
+      if (!config) {
+        return res.status(400).json({ error: "Harvest API not configured" });
+      }
+      res.json(dateSettingsFromConfig(config));
+    } catch (error) {
+      console.error("Harvest settings error:", error);
+      res.status(500).json({ error: "Failed to save date settings" });
+    }
+  });
+
+  // Get local Harvest mirror status: last sync time and row counts
+  app.get("/api/harvest/sync/status", async (req, res) => {
+    try {
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
+      if (!harvestConfig) {
+        return res.status(400).json({ error: "Harvest API not configured" });
+      }
+      res.json(await harvestSync.getStatus(harvestConfig));
+    } catch (error) {
+      console.error("Harvest sync status error:", error);
+      res.status(500).json({ error: "Failed to fetch sync status" });
+    }
+  });
+
+  // Sync the caller's mirror now (?full=true re-fetches everything and prunes deletions)
+  app.post("/api/harvest/sync", async (req, res) => {
+    try {
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
+      if (!harvestConfig) {
+        return res.status(400).json({ error: "Harvest API not configured" });
+      }
+
+      // Only the caller's own mirror, with their own token
+      const results = await harvestSync.syncUser(harvestConfig, { full: req.query.full === 'true' });
+      res.json({ success: results.every(result => !result.error), results });
+    } catch (error) {
+      console.error("Harvest sync error:", error);
+      res.status(500).json({ error: "Failed to sync Harvest data" });
+    }
+  });
+
+  // List conversations, most recently active first
+  app.get("/api/conversations", async (req, res) => {
+    try {
+      const conversations = await storage.getConversations(req.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Conversations error:", error);
+      res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+  });
+
+  // Start a new conversation
+  app.post("/api/conversations", async (req, res) => {
+    try {
+      const validation = insertConversationSchema.safeParse({ title: "New conversation", ...req.body });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid conversation", details: validation.error });
+      }
+
+      const conversation = await storage.createConversation(req.user!.id, validation.data);
+      res.status(201).json(conversation);
+    } catch (error) {
+      console.error("Conversation create error:", error);
+      res.status(500).json({ error: "Failed to create conversation" });
+    }
+  });
+
+  // Rename a conversation
+  app.patch("/api/conversations/:id", async (req, res) => {
+    try {
+      const validation = insertConversationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid conversation", details: validation.error });
+      }
+
+      const conversation = await storage.updateConversation(req.user!.id, req.params.id, validation.data);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error("Conversation update error:", error);
+      res.status(500).json({ error: "Failed to update conversation" });
+    }
+  });
+
+  // Download the data behind one chat answer as CSV, XLSX or JSON, with the
+  // same columns as its table in the chat
+  app.get("/api/chat/messages/:id/export", async (req, res) => {
+    const validation = exportQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid export format", details: validation.error });
+    }
+
+    try {
+      const message = await storage.getChatMessage(req.user!.id, req.params.id);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const data = (message.harvestData as { data?: unknown } | null)?.data;
+      if (!Array.isArray(data)) {
+        return res.status(404).json({ error: "This message has no data to export" });
+      }
+      const rows: unknown[] = data;
+      if (!rows.every(isDataRow)) {
+        return res.status(422).json({ error: "This message's data isn't in a form that can be exported" });
+      }
+
+      const queryType = message.queryType || "time_entries";
+      const file = await buildExport<DataRow>([{
+        name: EXPORT_SHEET_NAMES[queryType] || "Data",
+        columns: getDataColumns(queryType),
+        rows
+      }], validation.data.format, `harvest-${queryType.replace(/_/g, '-')}-${message.timestamp.toISOString().split('T')[0]}`);
+
+      sendExportFile(res, file);
+    } catch (error) {
+      console.error("Chat export error:", error);
+      res.status(500).json({ error: "Failed to export message data" });
+    }
+  });
+
+  // Get the messages of one conversation
+  app.get("/api/conversations/:id/messages", async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const messages = await storage.getChatMessages(conversation.id);
+      res.json(messages);
+    } catch (error) {
+      console.error("Conversation messages error:", error);
+      res.status(500).json({ error: "Failed to fetch conversation messages" });
+    }
+  });
+
   // Get chat history
   app.get("/api/chat/history", async (req, res) => {
     try {
-      const messages = await storage.getChatMessages();
+      const conversations = await storage.getConversations(req.user!.id);
+      const messages = (await Promise.all(conversations.map(conversation => storage.getChatMessages(conversation.id))))
+        .flat()
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
       res.json(messages);
     } catch (error) {
       console.error("Chat history error:", error);
@@ -160,7 +440,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Manual trigger for weekly report (for testing)
   app.post("/api/reports/trigger", async (req, res) => {
     try {
-      await reportScheduler.triggerManualReport();
+      const result = await reportScheduler.triggerManualReport(req.user!.id);
+      if (result === 'no_recipients') {
+        return res.status(400).json({ error: "No report recipients configured - add them in the email settings" });
+      }
+      if (result === 'failed') {
+        return res.status(502).json({ error: "Report could not be sent - failed deliveries will be retried, see the delivery log" });
+      }
       res.json({ success: true, message: "Weekly report triggered successfully" });
     } catch (error) {
       console.error("Manual report trigger error:", error);
@@ -168,19 +454,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Report delivery log: recent runs, newest first, each with its recipients
+  app.get("/api/reports/deliveries", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const runs = await storage.getReportRuns(req.user!.id, limit);
+      const deliveries = await storage.getReportDeliveriesForRuns(runs.map(run => run.id));
+
+      res.json(runs.map(({ reportData, ...run }) => ({
+        ...run,
+        deliveries: deliveries.filter(delivery => delivery.runId === run.id)
+      })));
+    } catch (error) {
+      console.error("Get report deliveries error:", error);
+      res.status(500).json({ error: "Failed to fetch report deliveries" });
+    }
+  });
+
+  // Report schedules, each with its next run time
+  app.get("/api/report-schedules", async (req, res) => {
+    try {
+      const schedules = await storage.getReportSchedules(req.user!.id);
+      res.json(schedules.map(schedule => ({
+        ...schedule,
+        nextRunAt: reportScheduler.getNextRun(schedule.id)
+      })));
+    } catch (error) {
+      console.error("Get report schedules error:", error);
+      res.status(500).json({ error: "Failed to fetch report schedules" });
+    }
+  });
+
+  app.post("/api/report-schedules", async (req, res) => {
+    try {
+      const validation = insertReportScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid report schedule", details: validation.error });
+      }
+
+      const scheduleError = validateSchedule({ cronExpression: null, ...validation.data });
+      if (scheduleError) {
+        return res.status(400).json({ error: scheduleError });
+      }
+
+      const schedule = await storage.createReportSchedule(req.user!.id, validation.data);
+      await reportScheduler.reloadSchedule(req.user!.id, schedule.id);
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error("Report schedule creation error:", error);
+      res.status(500).json({ error: "Failed to create report schedule" });
+    }
+  });
+
+  app.put("/api/report-schedules/:id", async (req, res) => {
+    try {
+      const validation = insertReportScheduleSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid report schedule", details: validation.error });
+      }
+
+      const existing = await storage.getReportSchedule(req.user!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Report schedule not found" });
+      }
+
+      const scheduleError = validateSchedule({ ...existing, ...validation.data });
+      if (scheduleError) {
+        return res.status(400).json({ error: scheduleError });
+      }
+
+      const schedule = await storage.updateReportSchedule(req.user!.id, req.params.id, validation.data);
+      await reportScheduler.reloadSchedule(req.user!.id, req.params.id);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Report schedule update error:", error);
+      res.status(500).json({ error: "Failed to update report schedule" });
+    }
+  });
+
+  app.delete("/api/report-schedules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteReportSchedule(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Report schedule not found" });
+      }
+      await reportScheduler.reloadSchedule(req.user!.id, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Report schedule deletion error:", error);
+      res.status(500).json({ error: "Failed to delete report schedule" });
+    }
+  });
+
+  // Send a schedule's report now
+  app.post("/api/report-schedules/:id/run", async (req, res) => {
+    try {
+      const schedule = await storage.getReportSchedule(req.user!.id, req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ error: "Report schedule not found" });
+      }
+
+      const sent = await reportScheduler.runSchedule(schedule);
+      if (!sent) {
+        return res.status(502).json({ error: "Report could not be sent - failed deliveries will be retried, see the delivery log" });
+      }
+      res.json({ success: true, message: `Sent "${schedule.name}"` });
+    } catch (error) {
+      console.error("Report schedule run error:", error);
+      res.status(500).json({ error: "Failed to run report schedule" });
+    }
+  });
+
   // Get current configurations
   app.get("/api/config", async (req, res) => {
     try {
-      const harvestConfig = await storage.getHarvestConfig();
-      const emailConfig = await storage.getEmailConfig();
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
+      const emailConfig = await storage.getEmailConfig(req.user!.id);
       
       // For security, only return if configs exist, not the actual values
       const response = {
         harvestConfigured: !!harvestConfig,
         emailConfigured: !!emailConfig,
         harvestAccountId: harvestConfig?.accountId || "",
+        ...dateSettingsFromConfig(harvestConfig),
         emailUser: emailConfig?.emailUser || "",
-        reportRecipients: emailConfig?.reportRecipients || ""
+        reportRecipients: emailConfig?.reportRecipients || "",
+        emailTransport: emailConfig?.transport || "smtp",
+        smtpHost: emailConfig?.smtpHost || "smtp.gmail.com",
+        smtpPort: emailConfig?.smtpPort || 587,
+        smtpSecure: emailConfig?.smtpSecure ?? false,
+        smtpAllowInvalidCerts: emailConfig?.smtpAllowInvalidCerts ?? false,
+        fileSinkDir: emailConfig?.fileSinkDir || ""
       };
       
       res.json(response);
@@ -200,9 +604,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid email configuration data", details: validation.error });
       }
 
-      const { emailUser, emailPassword, reportRecipients } = validation.data;
-      
-      await storage.saveEmailConfig({ emailUser, emailPassword, reportRecipients });
+      await storage.saveEmailConfig(req.user!.id, validation.data);
       res.json({ success: true, message: "Email settings configured successfully" });
     } catch (error) {
       console.error("Email config error:", error);
@@ -210,10 +612,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Send a short test email with the saved settings. On failure the response
+  // carries the transport's own error so it can be fixed from settings.
+  app.post("/api/email/test", async (req, res) => {
+    const validation = z.object({ to: z.string().trim().email().optional() }).safeParse(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid test email data", details: validation.error });
+    }
+
+    let transport: string | undefined;
+    try {
+      const emailConfig = await storage.getEmailConfig(req.user!.id);
+      if (!emailConfig) {
+        return res.status(400).json({ error: "Email is not configured yet - save your email settings first" });
+      }
+      transport = emailConfig.transport;
+
+      const to = validation.data.to || emailConfig.reportRecipients.split(",")[0].trim() || emailConfig.emailUser;
+      const messageId = await deliverEmail({
+        userId: req.user!.id,
+        to,
+        subject: "Harvest report test email",
+        html: `<p>This is a test email from your Harvest report settings, sent via <strong>${transport}</strong>.</p>`
+      });
+      res.json({ success: true, to, transport, messageId });
+    } catch (error) {
+      console.error("Test email error:", error);
+      res.status(502).json({ error: describeEmailError(error), transport });
+    }
+  });
+
+  // Budget alert history, newest first
+  app.get("/api/alerts", async (req, res) => {
+    try {
+      const alerts = await storage.getBudgetAlerts(req.user!.id);
+      res.json(alerts);
+    } catch (error) {
+      console.error("Get budget alerts error:", error);
+      res.status(500).json({ error: "Failed to fetch budget alerts" });
+    }
+  });
+
+  app.get("/api/alerts/settings", async (req, res) => {
+    try {
+      const settings = await storage.getAlertSettings(req.user!.id);
+      res.json(settings ?? defaultAlertSettings(req.user!.id));
+    } catch (error) {
+      console.error("Get alert settings error:", error);
+      res.status(500).json({ error: "Failed to fetch alert settings" });
+    }
+  });
+
+  app.put("/api/alerts/settings", async (req, res) => {
+    try {
+      const validation = insertAlertSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid alert settings", details: validation.error });
+      }
+
+      const settings = await storage.saveAlertSettings(req.user!.id, validation.data);
+      res.json(settings);
+    } catch (error) {
+      console.error("Save alert settings error:", error);
+      res.status(500).json({ error: "Failed to save alert settings" });
+    }
+  });
+
+  // Check budgets now instead of waiting for the next sync
+  app.post("/api/alerts/check", async (req, res) => {
+    try {
+      const alerts = await budgetAlerts.checkUser(req.user!.id);
+      res.json({ success: true, alerts });
+    } catch (error) {
+      console.error("Budget alert check error:", error);
+      res.status(getHarvestErrorStatus(error)).json({
+        error: error instanceof HarvestApiError ? error.message : "Failed to check budgets"
+      });
+    }
+  });
+
+  // List report definitions
+  app.get("/api/report-definitions", async (req, res) => {
+    try {
+      // Make sure the default definition exists before listing
+      await getActiveReportDefinition();
+      const definitions = await storage.getReportDefinitions();
+      res.json(definitions);
+    } catch (error) {
+      console.error("Report definitions error:", error);
+      res.status(500).json({ error: "Failed to fetch report definitions" });
+    }
+  });
+
+  // Create a report definition. The active definition drives every user's
+  // reports, alerts and schedules, so only admins change definitions.
+  app.post("/api/report-definitions", requireAdmin, async (req, res) => {
+    try {
+      const validation = insertReportDefinitionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid report definition", details: validation.error });
+      }
+
+      const definition = await storage.createReportDefinition(validation.data);
+      res.status(201).json(definition);
+    } catch (error) {
+      console.error("Report definition create error:", error);
+      res.status(500).json({ error: "Failed to create report definition" });
+    }
+  });
+
+  // Update a report definition
+  app.put("/api/report-definitions/:id", requireAdmin, async (req, res) => {
+    try {
+      const validation = insertReportDefinitionSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid report definition", details: validation.error });
+      }
+
+      // The report always needs an active definition; activating another one
+      // is what switches this one off
+      if (validation.data.isActive === false) {
+        const current = await storage.getReportDefinition(req.params.id);
+        if (current?.isActive) {
+          return res.status(400).json({ error: "Activate another report definition instead of deactivating this one" });
+        }
+      }
+
+      const definition = await storage.updateReportDefinition(req.params.id, validation.data);
+      if (!definition) {
+        return res.status(404).json({ error: "Report definition not found" });
+      }
+      res.json(definition);
+    } catch (error) {
+      console.error("Report definition update error:", error);
+      res.status(500).json({ error: "Failed to update report definition" });
+    }
+  });
+
+  // Delete a report definition (the active one can't be removed)
+  app.delete("/api/report-definitions/:id", requireAdmin, async (req, res) => {
+    try {
+      const definition = await storage.getReportDefinition(req.params.id);
+      if (!definition) {
+        return res.status(404).json({ error: "Report definition not found" });
+      }
+      if (definition.isActive) {
+        return res.status(400).json({ error: "Activate another report definition before deleting this one" });
+      }
+
+      await storage.deleteReportDefinition(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Report definition delete error:", error);
+      res.status(500).json({ error: "Failed to delete report definition" });
+    }
+  });
+
   // Get weekly report data
   app.get("/api/reports/data", async (req, res) => {
     try {
-      const harvestConfig = await storage.getHarvestConfig();
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
       
       if (!harvestConfig) {
         return res.status(400).json({ error: "Harvest API not configured" });
@@ -221,254 +779,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const harvestService = new HarvestService({
         accountId: harvestConfig.accountId,
-        accessToken: harvestConfig.accessToken
+        accessToken: harvestConfig.accessToken,
+        dateSettings: dateSettingsFromConfig(harvestConfig),
+        mirror: mirrorFor(harvestConfig)
       });
 
       // Get month parameter or default to current month
-      const monthParam = req.query.month as string;
-      const selectedDate = monthParam ? new Date(monthParam + '-01') : new Date();
-      const year = selectedDate.getFullYear();
-      const month = selectedDate.getMonth() + 1; // getMonth() returns 0-11, so add 1
-
-      // Calculate date range for the selected month
-      const startOfMonth = new Date(year, selectedDate.getMonth(), 1);
-      const endOfMonth = new Date(year, selectedDate.getMonth() + 1, 0);
-      
-      const dateRange = {
-        from: startOfMonth.toISOString().split('T')[0],
-        to: endOfMonth.toISOString().split('T')[0]
-      };
+      const report = await buildMonthlyReport(harvestService, reportPeriodFromQuery(req.query.month as string, harvestService.dateSettings));
 
-      console.log(`Loading report data for ${selectedDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })} (${dateRange.from} to ${dateRange.to})`);
+      res.json(report);
 
-      // Get time entries for this month
-      const timeEntries = await harvestService.getTimeEntries({
-        dateRange,
-        filters: {}
+    } catch (error) {
+      console.error("Report data error:", error);
+      res.status(getHarvestErrorStatus(error)).json({ 
+        error: error instanceof HarvestApiError ? error.message : "Failed to fetch report data" 
       });
+    }
+  });
 
-      // Get all projects to get budget information
-      const projects = await harvestService.getProjects();
-
-      // Filter for only the requested projects (broader matching)
-      const targetProjects = [
-        { keywords: ["educational data services", "educational", "eds", "inc", "retained support services"], name: "EDS Retained Support Services" },
-        { keywords: ["cloudsee", "cloud see"], name: "CloudSee Drive" },
-        { keywords: ["vision", "ast"], name: "Vision AST" },
-        { keywords: ["basic hosting support", "bhs", "hosting support"], name: "Basic Hosting Support (BHS)" }
-      ];
-
-      // First, find all target projects (even if they have no time entries this month)
-      const projectMap = new Map();
-      let totalHours = 0;
-
-      // Add all target projects that exist, even with 0 hours
-      projects.forEach(project => {
-        const isTargetProject = targetProjects.some(target => 
-          target.keywords.some(keyword => 
-            project.name.toLowerCase().includes(keyword.toLowerCase())
-          )
-        );
-        
-        if (isTargetProject) {
-          // Use actual budget from Harvest API, with known budgets as fallback
-          let projectBudget = project.budget || 0;
-          
-          // Set known budgets if Harvest API doesn't have them
-          if (projectBudget === 0) {
-            if (project.name.toLowerCase().includes('retained support services') || 
-                project.name.toLowerCase().includes('educational data services')) {
-              projectBudget = 15500; // $15,500 for EDS
-            } else if (project.name.toLowerCase().includes('vision ast')) {
-              projectBudget = 14700; // $14,700 for Vision AST
-            }
-          }
-          
-          projectMap.set(project.id, {
-            id: project.id,
-            name: project.name,
-            totalHours: 0,
-            budget: projectBudget,
-            budgetSpent: project.budget_spent || 0,
-            budgetRemaining: project.budget_remaining || 0,
-            billedAmount: 0,
-            billableHours: 0
-          });
-        }
-      });
+  // Compare report months: per project and BHS client metrics for each month,
+  // with the change from the previous month shown
+  app.get("/api/reports/compare", async (req, res) => {
+    const validation = comparisonQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid comparison", details: validation.error });
+    }
 
-      // Now add time entry hours to projects that have them
-      timeEntries.forEach(entry => {
-        const projectId = entry.project.id;
-        const projectName = entry.project.name;
-        
-        
-        if (projectMap.has(projectId)) {
-          const projectData = projectMap.get(projectId);
-          projectData.totalHours += entry.hours;
-          totalHours += entry.hours;
-          
-          // Track billable hours and billing amounts
-          if (entry.billable) {
-            projectData.billableHours += entry.hours;
-            projectData.billedAmount += (entry.billable_rate || 0) * entry.hours;
-          }
-        } else {
-          // If project not in map but is a target project, add it
-          const isTargetProject = targetProjects.some(target => 
-            target.keywords.some(keyword => 
-              projectName.toLowerCase().includes(keyword.toLowerCase())
-            )
-          );
-          
-          if (isTargetProject) {
-            // Set known budgets for new projects found in time entries
-            let projectBudget = 0;
-            if (projectName.toLowerCase().includes('retained support services') || 
-                projectName.toLowerCase().includes('educational data services')) {
-              projectBudget = 15500; // $15,500 for EDS
-            } else if (projectName.toLowerCase().includes('vision ast')) {
-              projectBudget = 14700; // $14,700 for Vision AST
-            }
-            
-            projectMap.set(projectId, {
-              id: projectId,
-              name: projectName,
-              totalHours: entry.hours,
-              budget: projectBudget,
-              budgetSpent: 0,
-              budgetRemaining: 0,
-              billedAmount: entry.billable ? (entry.billable_rate || 0) * entry.hours : 0,
-              billableHours: entry.billable ? entry.hours : 0
-            });
-            totalHours += entry.hours;
-          }
-        }
+    try {
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
+      if (!harvestConfig) {
+        return res.status(400).json({ error: "Harvest API not configured" });
+      }
+
+      const harvestService = new HarvestService({
+        accountId: harvestConfig.accountId,
+        accessToken: harvestConfig.accessToken,
+        dateSettings: dateSettingsFromConfig(harvestConfig),
+        mirror: mirrorFor(harvestConfig)
       });
 
-      const allProjects = Array.from(projectMap.values())
-        .map(project => ({
-          ...project,
-          // Update project name for display
-          name: project.name.includes('Retained Support Services') ? 'EDS Retained Support Services' : project.name,
-          budgetUsed: project.budget > 0 
-            ? Math.round((project.budgetSpent / project.budget * 100) * 100) / 100
-            : 0,
-          budgetPercentComplete: project.budget > 0 
-            ? Math.round((project.billedAmount / project.budget * 100) * 100) / 100
-            : 0,
-          billedAmount: Math.round(project.billedAmount * 100) / 100,
-          billableHours: Math.round(project.billableHours * 100) / 100
-        }));
-      
-      // Get clients data to organize BHS projects properly
-      const clients = await harvestService.getClients();
-      const clientMap = new Map();
-      clients.forEach(client => {
-        clientMap.set(client.id, client);
+      const { base, current, month, trailing } = validation.data;
+      const months = base && current
+        ? [base, current]
+        : trailingMonths(month || currentMonth(harvestService.dateSettings), trailing!);
+
+      res.json(await buildReportComparison(harvestService, months));
+    } catch (error) {
+      console.error("Report comparison error:", error);
+      res.status(getHarvestErrorStatus(error)).json({ 
+        error: error instanceof HarvestApiError ? error.message : "Failed to compare reports" 
       });
+    }
+  });
 
-      // Separate BHS projects from regular projects and group by client
-      const bhsProjectsRaw = allProjects.filter(project => 
-        project.name.toLowerCase().includes('basic hosting support') || 
-        project.name.toLowerCase().includes('bhs')
-      );
-
-      // Group BHS projects by client to create the 4 specific rows
-      const bhsClientMap = new Map();
-      const targetBhsClients = [
-        { keywords: ['atlantic', 'british'], displayName: 'Atlantic British Ltd.' },
-        { keywords: ['erep'], displayName: 'eRep, Inc.' },
-        { keywords: ['icon', 'media'], displayName: 'Icon Media, Inc.' },
-        { keywords: ['vision'], displayName: 'Vision AST' }
-      ];
-
-      // Initialize BHS client entries
-      targetBhsClients.forEach(client => {
-        bhsClientMap.set(client.displayName, {
-          id: `bhs-${client.displayName.toLowerCase().replace(/[^a-z]/g, '')}`,
-          name: `${client.displayName} - Basic Hosting Support`,
-          totalHours: 0,
-          budget: 0,
-          budgetSpent: 0,
-          budgetRemaining: 0,
-          billedAmount: 0,
-          billableHours: 0,
-          budgetUsed: 0,
-          budgetPercentComplete: 0
-        });
+  // Team utilization: hours against weekly capacity and billable % per person per week
+  app.get("/api/reports/utilization", async (req, res) => {
+    const validation = utilizationQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid utilization range", details: validation.error });
+    }
+
+    try {
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
+      if (!harvestConfig) {
+        return res.status(400).json({ error: "Harvest API not configured" });
+      }
+
+      const harvestService = new HarvestService({
+        accountId: harvestConfig.accountId,
+        accessToken: harvestConfig.accessToken,
+        dateSettings: dateSettingsFromConfig(harvestConfig),
+        mirror: mirrorFor(harvestConfig)
       });
 
-      // Process raw BHS projects and find matching clients
-      bhsProjectsRaw.forEach(project => {
-        // Find the client for this project
-        const projectClient = projects.find(p => p.id === project.id)?.client;
-        if (projectClient) {
-          const clientName = projectClient.name.toLowerCase();
-          
-          // Match to target clients
-          const matchedClient = targetBhsClients.find(target =>
-            target.keywords.some(keyword => clientName.includes(keyword))
-          );
-          
-          if (matchedClient) {
-            const clientEntry = bhsClientMap.get(matchedClient.displayName);
-            clientEntry.totalHours += project.totalHours;
-            clientEntry.budget += project.budget;
-            clientEntry.budgetSpent += project.budgetSpent;
-            clientEntry.budgetRemaining += project.budgetRemaining;
-            clientEntry.billedAmount += project.billedAmount;
-            clientEntry.billableHours += project.billableHours;
-            
-            // Update budget percentage
-            if (clientEntry.budget > 0) {
-              clientEntry.budgetPercentComplete = Math.round((clientEntry.billedAmount / clientEntry.budget * 100) * 100) / 100;
-            }
-          }
-        }
+      let { from, to, weeks } = validation.data;
+      if (!from || !to) {
+        // Whole weeks, ending with the current one
+        const thisWeek = resolveDateRange('this_week', harvestService.dateSettings)!;
+        from = addDays(thisWeek.from, -(weeks - 1) * 7);
+        to = thisWeek.to;
+      }
+
+      res.json(await getTeamUtilization(harvestService, from, to));
+    } catch (error) {
+      console.error("Team utilization error:", error);
+      res.status(getHarvestErrorStatus(error)).json({ 
+        error: error instanceof HarvestApiError ? error.message : "Failed to build team utilization" 
       });
+    }
+  });
 
-      // Ensure Atlantic British Ltd appears even if no matching project found
-      if (!bhsClientMap.has('Atlantic British Ltd.')) {
-        bhsClientMap.set('Atlantic British Ltd.', {
-          id: 'bhs-atlanticbritishltd',
-          name: 'Atlantic British Ltd. - Basic Hosting Support',
-          totalHours: 0,
-          budget: 8, // Default budget hours
-          budgetSpent: 0,
-          budgetRemaining: 0,
-          billedAmount: 0,
-          billableHours: 0,
-          budgetUsed: 0,
-          budgetPercentComplete: 0
-        });
+  // Chats and settings saved before sign-in existed belong to no one until an
+  // admin takes them over; registering never claims them
+  app.post("/api/admin/claim-unowned-data", requireAdmin, async (req, res) => {
+    try {
+      await storage.claimUnownedData(req.user!.id);
+      const earlierChats = await storage.claimOrphanChatMessages(req.user!.id, "Earlier chats");
+      res.json({ success: true, earlierChatsConversationId: earlierChats?.id ?? null });
+    } catch (error) {
+      console.error("Claim unowned data error:", error);
+      res.status(500).json({ error: "Failed to claim unowned data" });
+    }
+  });
+
+  // Model calls, tokens, latency and estimated cost across all users, by day,
+  // user and query type, plus where this month stands against the spend cap
+  app.get("/api/admin/llm-usage", requireAdmin, async (req, res) => {
+    const validation = llmUsageQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid usage range", details: validation.error });
+    }
+
+    try {
+      const now = new Date();
+      const today = now.toISOString().slice(0, 10);
+      const from = validation.data.from ?? startOfMonthUtc(now).toISOString().slice(0, 10);
+      const to = validation.data.to ?? (from > today ? from : today);
+
+      const report = await getLlmUsageReport(new Date(`${from}T00:00:00Z`), new Date(`${addDays(to, 1)}T00:00:00Z`), now);
+      res.json(report);
+    } catch (error) {
+      console.error("LLM usage report error:", error);
+      res.status(500).json({ error: "Failed to build the LLM usage report" });
+    }
+  });
+
+  // Download a report month as CSV, XLSX or JSON, with the report page's columns
+  app.get("/api/reports/export", async (req, res) => {
+    const validation = exportQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid export format", details: validation.error });
+    }
+
+    try {
+      const harvestConfig = await storage.getHarvestConfig(req.user!.id);
+      if (!harvestConfig) {
+        return res.status(400).json({ error: "Harvest API not configured" });
       }
 
-      const bhsProjects = Array.from(bhsClientMap.values()); // Show all target BHS clients, even with 0 hours
-      
-      const regularProjects = allProjects.filter(project => 
-        !project.name.toLowerCase().includes('basic hosting support') && 
-        !project.name.toLowerCase().includes('bhs')
-      );
-      
-      const projectData = regularProjects.sort((a, b) => b.totalHours - a.totalHours);
-
-      res.json({
-        projects: projectData,
-        bhsProjects: bhsProjects.sort((a, b) => b.totalHours - a.totalHours),
-        summary: {
-          totalHours: totalHours,
-          projectCount: projectData.length,
-          reportDate: selectedDate.toLocaleDateString('en-US', { 
-            year: 'numeric', 
-            month: 'long' 
-          })
-        }
+      const harvestService = new HarvestService({
+        accountId: harvestConfig.accountId,
+        accessToken: harvestConfig.accessToken,
+        dateSettings: dateSettingsFromConfig(harvestConfig),
+        mirror: mirrorFor(harvestConfig)
       });
 
+      const period = reportPeriodFromQuery(req.query.month as string, harvestService.dateSettings);
+      const report = await buildMonthlyReport(harvestService, period);
+      const file = await buildExport<ReportRow>([
+        { name: "Primary Projects", columns: REPORT_PROJECT_COLUMNS, rows: report.projects },
+        { name: "BHS Projects", columns: REPORT_BHS_COLUMNS, rows: report.bhsProjects }
+      ], validation.data.format, `project-budget-report-${period.month}`);
+
+      sendExportFile(res, file);
     } catch (error) {
-      console.error("Report data error:", error);
-      res.status(500).json({ error: "Failed to fetch report data" });
+      console.error("Report export error:", error);
+      res.status(getHarvestErrorStatus(error)).json({ 
+        error: error instanceof HarvestApiError ? error.message : "Failed to export report" 
+      });
     }
   });
 
@@ -0,0 +1,214 @@
+// Score parseNaturalLanguageQuery against the golden questions in
+// server/evals/parser-cases.json, with "today" fixed by the fixtures.
+//
+//   npm run eval:parser                   replay recorded model answers (no network)
+//   npm run eval:parser -- --offline      use the rule-based parser only
+//   npm run eval:parser -- --live         ask the configured provider and record its
+//                                         answers to server/evals/recordings/parser.json
+//
+// Options: --case <id> runs one case; --fail-under <0-1> exits non-zero when
+// the mean score is lower. Replay also exits non-zero when there is no
+// recording or none of the cases run are in it. After a live run, review the
+// recording's diff and commit it so later runs replay the new answers. Only
+// cases recorded from the same provider and model are kept across runs.
+
+import fs from "fs";
+import path from "path";
+import { parseNaturalLanguageQuery, type QueryParseResult } from "../services/query-parser";
+import { getLLMProviders, type LLMProvider } from "../services/llm";
+import {
+  parserEvalFixturesSchema,
+  parserRecordingSchema,
+  scoreParse,
+  ReplayProvider,
+  RecordingProvider,
+  type CaseScore,
+  type ParserEvalCase,
+  type ParserEvalFixtures,
+  type ParserRecording
+} from "../evals/parser-eval";
+
+const FIXTURES_PATH = path.resolve(import.meta.dirname, "../evals/parser-cases.json");
+const RECORDING_PATH = path.resolve(import.meta.dirname, "../evals/recordings/parser.json");
+
+type Mode = "replay" | "offline" | "live";
+
+interface CaseOutcome {
+  id: string;
+  status: "exact" | "partial" | "miss" | "error" | "unrecorded";
+  score?: CaseScore;
+  detail?: string;
+}
+
+function readArgs(argv: string[]) {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+  const mode: Mode = argv.includes("--live") ? "live" : argv.includes("--offline") ? "offline" : "replay";
+  const failUnder = valueOf("--fail-under");
+  return {
+    mode,
+    caseId: valueOf("--case"),
+    failUnder: failUnder === undefined ? undefined : Number(failUnder)
+  };
+}
+
+function readRecording(): ParserRecording | null {
+  if (!fs.existsSync(RECORDING_PATH)) return null;
+  return parserRecordingSchema.parse(JSON.parse(fs.readFileSync(RECORDING_PATH, "utf8")));
+}
+
+const describeResult = (result: QueryParseResult) =>
+  "clarification" in result ? `asked: ${result.clarification.question}` : JSON.stringify(result.parsedQuery);
+
+async function main() {
+  const args = readArgs(process.argv.slice(2));
+  const fixtures = parserEvalFixturesSchema.parse(JSON.parse(fs.readFileSync(FIXTURES_PATH, "utf8")));
+  const now = new Date(fixtures.now);
+  const cases = fixtures.cases.filter(evalCase => !args.caseId || evalCase.id === args.caseId);
+  if (cases.length === 0) {
+    throw new Error(`No case with id "${args.caseId}"`);
+  }
+
+  const recording = args.mode === "replay" ? readRecording() : null;
+  if (args.mode === "replay" && !recording) {
+    console.log(`No recording at ${path.relative(process.cwd(), RECORDING_PATH)} yet. Run with --live to record one, or --offline to score the rule-based parser.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let liveProvider: LLMProvider | undefined;
+  if (args.mode === "live") {
+    liveProvider = getLLMProviders()[0];
+    if (!liveProvider) {
+      throw new Error("Live mode needs a provider: set ANTHROPIC_API_KEY or OPENAI_API_KEY (and LLM_PROVIDER to pick one)");
+    }
+  }
+
+  const label = args.mode === "offline" ? "rule-based parser"
+    : liveProvider ? `${liveProvider.name} ${liveProvider.model} (live)`
+    : `${recording!.provider} ${recording!.model} (recorded ${recording!.recordedAt})`;
+  console.log(`Evaluating ${cases.length} case(s) against ${label}, today = ${fixtures.now}`);
+  if (recording?.notes) console.log(recording.notes);
+  console.log("");
+
+  const recorded: ParserRecording["cases"] = {};
+  const outcomes: CaseOutcome[] = [];
+  for (const evalCase of cases) {
+    const outcome = await runCase(evalCase, args.mode, fixtures, now, recording, liveProvider, recorded);
+    outcomes.push(outcome);
+    printOutcome(outcome);
+  }
+
+  if (args.mode === "live" && liveProvider) {
+    // Keep recordings of cases not run this time
+    const previous = readRecording();
+    const merged: ParserRecording = {
+      provider: liveProvider.name,
+      model: liveProvider.model,
+      recordedAt: new Date().toISOString(),
+      cases: { ...(previous?.provider === liveProvider.name && previous.model === liveProvider.model ? previous.cases : {}), ...recorded }
+    };
+    fs.mkdirSync(path.dirname(RECORDING_PATH), { recursive: true });
+    fs.writeFileSync(RECORDING_PATH, `${JSON.stringify(merged, null, 2)}\n`);
+    console.log(`\nRecorded ${Object.keys(recorded).length} case(s) to ${path.relative(process.cwd(), RECORDING_PATH)}; review the diff before committing.`);
+  }
+
+  const scored = outcomes.filter(outcome => outcome.status !== "unrecorded");
+  const exact = scored.filter(outcome => outcome.status === "exact").length;
+  const meanScore = scored.length > 0
+    ? scored.reduce((sum, outcome) => sum + (outcome.score?.score ?? 0), 0) / scored.length
+    : 0;
+  const unrecorded = outcomes.length - scored.length;
+
+  console.log(`\nExact: ${exact}/${scored.length}  Mean score: ${(meanScore * 100).toFixed(1)}%${unrecorded ? `  Unrecorded: ${unrecorded}` : ""}`);
+  if (scored.length === 0) {
+    console.log("Nothing was scored: no case has a recorded answer. Run with --live to record them.");
+    process.exitCode = 1;
+  } else if (args.failUnder !== undefined && meanScore < args.failUnder) {
+    console.log(`Mean score is under ${args.failUnder}`);
+    process.exitCode = 1;
+  }
+}
+
+async function runCase(
+  evalCase: ParserEvalCase,
+  mode: Mode,
+  fixtures: ParserEvalFixtures,
+  now: Date,
+  recording: ParserRecording | null,
+  liveProvider: LLMProvider | undefined,
+  recorded: ParserRecording["cases"]
+): Promise<CaseOutcome> {
+  let replay: ReplayProvider | undefined;
+  let recorder: RecordingProvider | undefined;
+  let providers: LLMProvider[] = [];
+
+  if (mode === "replay" && recording) {
+    const recordedCase = recording.cases[evalCase.id];
+    if (!recordedCase) {
+      return { id: evalCase.id, status: "unrecorded", detail: "no recorded answer; run with --live" };
+    }
+    replay = new ReplayProvider(recording.provider, recording.model, recordedCase);
+    providers = [replay];
+  } else if (mode === "live" && liveProvider) {
+    recorder = new RecordingProvider(liveProvider);
+    providers = [recorder];
+  }
+
+  let result: QueryParseResult;
+  try {
+    result = await parseNaturalLanguageQuery(evalCase.question, evalCase.context, fixtures.dateSettings, providers, now);
+  } catch (error) {
+    return { id: evalCase.id, status: "error", detail: error instanceof Error ? error.message : String(error) };
+  } finally {
+    if (recorder && recorder.responses.length > 0) {
+      recorded[evalCase.id] = { question: evalCase.question, promptHash: recorder.promptHash, responses: recorder.responses };
+    }
+  }
+
+  // A provider failure falls back to the offline parser, which isn't what
+  // this run is measuring
+  const providerError = recorder?.error ?? replay?.error;
+  if (providerError) {
+    const message = providerError instanceof Error ? providerError.message : String(providerError);
+    return { id: evalCase.id, status: "error", detail: `provider failed: ${message}` };
+  }
+  const notes: string[] = [];
+  if (replay) {
+    const recordedCase = recording!.cases[evalCase.id];
+    if (replay.promptHash && replay.promptHash !== recordedCase.promptHash) {
+      notes.push("prompt changed since recording");
+    }
+  }
+
+  const score = scoreParse(evalCase.expected, result);
+  const status = score.exact ? "exact" : score.score > 0 ? "partial" : "miss";
+  const detail = score.exact ? undefined : describeResult(result);
+  return { id: evalCase.id, status, score, detail: [detail, ...notes].filter(Boolean).join("; ") || undefined };
+}
+
+const STATUS_MARKS: Record<CaseOutcome["status"], string> = {
+  exact: "PASS",
+  partial: "PART",
+  miss: "FAIL",
+  error: "ERR ",
+  unrecorded: "SKIP"
+};
+
+function printOutcome(outcome: CaseOutcome) {
+  const score = outcome.score ? ` ${(outcome.score.score * 100).toFixed(0)}%` : "";
+  console.log(`${STATUS_MARKS[outcome.status]} ${outcome.id}${score}`);
+  outcome.score?.mismatches.forEach(mismatch => {
+    console.log(`     ${mismatch.field}: expected ${JSON.stringify(mismatch.expected ?? null)}, got ${JSON.stringify(mismatch.actual ?? null)}`);
+  });
+  if (outcome.detail) {
+    console.log(`     ${outcome.detail}`);
+  }
+}
+
+main().catch(error => {
+  console.error("Parser evaluation failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,28 @@
+// Re-encrypt stored Harvest tokens and SMTP passwords under the current
+// SECRETS_KEY. To rotate the master key:
+//
+//   1. Generate a new key:      openssl rand -base64 32
+//   2. Set SECRETS_KEY to the new key and SECRETS_PREVIOUS_KEYS to the old one
+//   3. Run:                     npm run secrets:rotate
+//   4. Remove SECRETS_PREVIOUS_KEYS once it reports 0 rows left to rewrite
+//
+// Only the per-value data keys are re-wrapped; plaintext rows left over from
+// before encryption existed are encrypted as well.
+
+import { storage } from "../storage";
+import { pool } from "../db";
+
+async function main() {
+  const result = await storage.reencryptSecrets();
+  console.log(`Re-encrypted ${result.harvestConfigs} Harvest config(s) and ${result.emailConfigs} email config(s) under the current key`);
+
+  const remaining = await storage.countStaleSecrets();
+  console.log(`Rows left to rewrite: ${remaining.harvestConfigs + remaining.emailConfigs}`);
+}
+
+main()
+  .catch(error => {
+    console.error("Secret rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
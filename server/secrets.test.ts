@@ -0,0 +1,126 @@
+import { randomBytes } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decryptSecret, encryptSecret, isEncryptedSecret, needsReencryption, reencryptSecret, SecretsKeyError } from './secrets';
+import { MemStorage } from './storage';
+
+const newKey = () => randomBytes(32).toString('base64');
+
+// Switch to a new master key, keeping the old one readable as it would be mid-rotation
+function rotateTo(key: string, previous: string) {
+  vi.stubEnv('SECRETS_KEY', key);
+  vi.stubEnv('SECRETS_PREVIOUS_KEYS', previous);
+}
+
+let oldKey: string;
+
+beforeEach(() => {
+  oldKey = newKey();
+  vi.stubEnv('SECRETS_KEY', oldKey);
+  vi.stubEnv('SECRETS_PREVIOUS_KEYS', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('secrets', () => {
+  it('round-trips a value', () => {
+    const stored = encryptSecret('harvest-token');
+
+    expect(isEncryptedSecret(stored)).toBe(true);
+    expect(stored).not.toContain('harvest-token');
+    expect(decryptSecret(stored)).toBe('harvest-token');
+  });
+
+  it('uses a fresh data key for every value', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+  });
+
+  it('passes values from before encryption through', () => {
+    expect(decryptSecret('plain-token')).toBe('plain-token');
+  });
+
+  it('rejects a tampered value', () => {
+    const stored = encryptSecret('harvest-token');
+    const ciphertext = stored.slice(stored.lastIndexOf(':') + 1);
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[14] ^= 1;
+
+    expect(() => decryptSecret(stored.replace(ciphertext, flipped.toString('base64')))).toThrow();
+  });
+
+  it.each([
+    ['missing', undefined, /SECRETS_KEY must be set/],
+    ['the wrong length', randomBytes(16).toString('base64'), /must be 32 bytes/]
+  ])('refuses a master key that is %s', (_name, key, message) => {
+    vi.stubEnv('SECRETS_KEY', key as string);
+
+    expect(() => encryptSecret('harvest-token')).toThrow(message);
+    expect(() => encryptSecret('harvest-token')).toThrow(SecretsKeyError);
+  });
+
+  it.each([
+    ['plaintext', () => 'plain-token', true],
+    ['a value under the current key', () => encryptSecret('harvest-token'), false]
+  ])('knows whether %s needs rewriting', (_name, value, expected) => {
+    expect(needsReencryption(value())).toBe(expected);
+  });
+
+  it('knows a value under an old key needs rewriting without the old key', () => {
+    const stored = encryptSecret('harvest-token');
+    vi.stubEnv('SECRETS_KEY', newKey());
+
+    expect(needsReencryption(stored)).toBe(true);
+  });
+
+  describe('reencryptSecret', () => {
+    it('encrypts plaintext', () => {
+      const stored = reencryptSecret('plain-token');
+
+      expect(stored && decryptSecret(stored)).toBe('plain-token');
+    });
+
+    it('leaves values under the current key alone', () => {
+      expect(reencryptSecret(encryptSecret('harvest-token'))).toBeNull();
+    });
+
+    it('re-wraps the data key of a value under an old key', () => {
+      const stored = encryptSecret('harvest-token');
+      rotateTo(newKey(), oldKey);
+
+      const rotated = reencryptSecret(stored)!;
+
+      // Same ciphertext, new key id and wrapped data key
+      expect(rotated.split(':')[4]).toBe(stored.split(':')[4]);
+      expect(rotated.split(':')[2]).not.toBe(stored.split(':')[2]);
+      vi.stubEnv('SECRETS_PREVIOUS_KEYS', '');
+      expect(decryptSecret(rotated)).toBe('harvest-token');
+    });
+
+    it('needs the old key to read values it wrapped', () => {
+      const stored = encryptSecret('harvest-token');
+      vi.stubEnv('SECRETS_KEY', newKey());
+
+      expect(() => reencryptSecret(stored)).toThrow(/SECRETS_PREVIOUS_KEYS/);
+    });
+  });
+
+  it('rotates stored credentials once', async () => {
+    const storage = new MemStorage();
+    await storage.saveHarvestConfig('user-1', { accountId: '123', accessToken: 'harvest-token' });
+    await storage.saveEmailConfig('user-1', { emailUser: 'reports@example.com', emailPassword: 'smtp-password' });
+    await storage.saveEmailConfig('user-2', { emailUser: 'other@example.com', emailPassword: 'other-password' });
+    rotateTo(newKey(), oldKey);
+
+    expect(await storage.countStaleSecrets()).toEqual({ harvestConfigs: 1, emailConfigs: 2 });
+    // Counting changes nothing
+    expect(await storage.countStaleSecrets()).toEqual({ harvestConfigs: 1, emailConfigs: 2 });
+    expect(await storage.reencryptSecrets()).toEqual({ harvestConfigs: 1, emailConfigs: 2 });
+    expect(await storage.countStaleSecrets()).toEqual({ harvestConfigs: 0, emailConfigs: 0 });
+    expect(await storage.reencryptSecrets()).toEqual({ harvestConfigs: 0, emailConfigs: 0 });
+
+    vi.stubEnv('SECRETS_PREVIOUS_KEYS', '');
+    expect((await storage.getHarvestConfig('user-1'))?.accessToken).toBe('harvest-token');
+    expect((await storage.getEmailConfig('user-1'))?.emailPassword).toBe('smtp-password');
+  });
+});
@@ -0,0 +1,131 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Envelope encryption for credentials stored in the database (Harvest access
+// tokens, SMTP passwords). Every value gets its own random data key, which
+// encrypts the value and is itself encrypted ("wrapped") with the master key
+// from SECRETS_KEY. Rotating the master key only re-wraps the data keys.
+//
+//   SECRETS_KEY=$(openssl rand -base64 32)
+//   SECRETS_PREVIOUS_KEYS=<old key>[,<older key>]   # only while rotating
+//
+// Stored format: enc:v1:<master key id>:<wrapped data key>:<ciphertext>, where
+// both encrypted parts are base64 of iv (12 bytes) + AES-256-GCM output + tag.
+
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+// SECRETS_KEY or SECRETS_PREVIOUS_KEYS is missing, malformed or lacks a key
+// that a stored value needs
+export class SecretsKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretsKeyError";
+  }
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseKey(encoded: string, name: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new SecretsKeyError(`${name} must be ${KEY_BYTES} bytes encoded as base64 (openssl rand -base64 32)`);
+  }
+  // Short fingerprint so a stored value records which key wrapped it
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+function getCurrentKey(): MasterKey {
+  if (!process.env.SECRETS_KEY) {
+    throw new SecretsKeyError("SECRETS_KEY must be set to encrypt stored credentials.");
+  }
+  return parseKey(process.env.SECRETS_KEY, "SECRETS_KEY");
+}
+
+function getKeyById(id: string): MasterKey {
+  const current = getCurrentKey();
+  if (current.id === id) return current;
+
+  const previous = (process.env.SECRETS_PREVIOUS_KEYS || "")
+    .split(",")
+    .filter(value => value.trim())
+    .map(value => parseKey(value, "SECRETS_PREVIOUS_KEYS"))
+    .find(key => key.id === id);
+  if (!previous) {
+    throw new SecretsKeyError(`No master key with id ${id} - add the old key to SECRETS_PREVIOUS_KEYS`);
+  }
+  return previous;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, encrypted, cipher.getAuthTag()]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const iv = data.subarray(0, IV_BYTES);
+  const tag = data.subarray(data.length - TAG_BYTES);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES, data.length - TAG_BYTES)), decipher.final()]);
+}
+
+function parseStored(value: string) {
+  const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new Error("Malformed encrypted value");
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const master = getCurrentKey();
+  const dataKey = randomBytes(KEY_BYTES);
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, "utf8"));
+  return `${PREFIX}${master.id}:${seal(master.key, dataKey)}:${ciphertext}`;
+}
+
+// Values written before encryption was added are returned unchanged until
+// the startup migration (or the rotate command) encrypts them
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+  const { keyId, wrappedKey, ciphertext } = parseStored(value);
+  const dataKey = open(getKeyById(keyId).key, wrappedKey);
+  return open(dataKey, ciphertext).toString("utf8");
+}
+
+// Whether reencryptSecret would rewrite the value: plaintext, or encrypted
+// under an old master key. Needs only the current key.
+export function needsReencryption(value: string): boolean {
+  return !isEncryptedSecret(value) || parseStored(value).keyId !== getCurrentKey().id;
+}
+
+// The value re-encrypted under the current master key, or null if it already is.
+// Plaintext gets encrypted; values under an old key only get their data key re-wrapped.
+export function reencryptSecret(value: string): string | null {
+  if (!isEncryptedSecret(value)) {
+    return encryptSecret(value);
+  }
+
+  const master = getCurrentKey();
+  const { keyId, wrappedKey, ciphertext } = parseStored(value);
+  if (keyId === master.id) {
+    return null;
+  }
+  const dataKey = open(getKeyById(keyId).key, wrappedKey);
+  return `${PREFIX}${master.id}:${seal(master.key, dataKey)}:${ciphertext}`;
+}
@@ -0,0 +1,189 @@
+import { AlertSettings, BudgetAlert } from '@shared/schema';
+import { HarvestService, mirrorFor } from './harvest';
+import { buildMonthlyReport, ProjectReportRow } from './report';
+import { dateSettingsFromConfig, todayIn } from './date-range';
+import { escapeHtml, sendEmail } from './email';
+import { storage } from '../storage';
+
+// Used until a user saves their own alert settings
+export const DEFAULT_ALERT_THRESHOLDS = [85, 100];
+
+// A failed alert email is retried on later checks, up to this many attempts
+const MAX_SEND_ATTEMPTS = 5;
+
+type AlertKind = 'actual' | 'forecast';
+
+interface Crossing {
+  row: ProjectReportRow;
+  kind: AlertKind;
+  threshold: number;
+  percent: number;
+}
+
+export function defaultAlertSettings(userId: string): AlertSettings {
+  return {
+    userId,
+    enabled: true,
+    thresholds: DEFAULT_ALERT_THRESHOLDS,
+    includeForecast: true,
+    recipients: null,
+    updatedAt: new Date()
+  };
+}
+
+// Primary projects are budgeted in dollars; BHS clients in support hours,
+// which is also how the report page colours them
+function budgetPercent(row: ProjectReportRow, isBhs: boolean): number {
+  if (row.budget <= 0) return 0;
+  return isBhs ? row.totalHours / row.budget * 100 : row.budgetPercentComplete;
+}
+
+function findCrossings(rows: ProjectReportRow[], isBhs: boolean, settings: AlertSettings): Crossing[] {
+  const crossings: Crossing[] = [];
+  rows.filter(row => row.budget > 0).forEach(row => {
+    const actual = budgetPercent(row, isBhs);
+    const projected = row.forecast?.projectedBudgetPercent ?? 0;
+
+    settings.thresholds.forEach(threshold => {
+      if (actual >= threshold) {
+        crossings.push({ row, kind: 'actual', threshold, percent: actual });
+      } else if (settings.includeForecast && projected >= threshold) {
+        // Only warn about the projection while the actual % is still below it
+        crossings.push({ row, kind: 'forecast', threshold, percent: projected });
+      }
+    });
+  });
+  return crossings;
+}
+
+function alertEmail(crossing: Crossing, month: string): { subject: string; html: string } {
+  const { row, kind, threshold, percent } = crossing;
+  const runsOut = row.forecast?.budgetExhaustedOn;
+  const subject = kind === 'actual'
+    ? `Budget alert: ${row.name} has used ${percent.toFixed(0)}% of its budget`
+    : `Budget alert: ${row.name} is projected to reach ${percent.toFixed(0)}% of its budget`;
+
+  const html = `
+    <html>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; line-height: 1.6;">
+      <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: ${threshold >= 100 ? '#dc2626' : '#ea580c'}; color: white; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+          <h1 style="margin: 0; font-size: 22px;">${escapeHtml(row.name)}</h1>
+          <p style="margin: 5px 0 0 0;">${kind === 'actual' ? 'Passed' : 'Projected to pass'} the ${escapeHtml(threshold)}% budget threshold for ${escapeHtml(month)}</p>
+        </div>
+        <table style="width: 100%; border-collapse: collapse;">
+          <tr><td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">Hours logged</td><td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${row.totalHours.toFixed(1)}h</td></tr>
+          <tr><td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">Budget used</td><td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${kind === 'actual' ? percent.toFixed(1) : '-'}%</td></tr>
+          <tr><td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">Projected at month end</td><td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${row.forecast ? `${row.forecast.projectedBudgetPercent.toFixed(1)}%` : '-'}</td></tr>
+          <tr><td style="padding: 8px;">Budget runs out</td><td style="padding: 8px; text-align: right;">${escapeHtml(runsOut || '-')}</td></tr>
+        </table>
+        <p style="color: #9ca3af; font-size: 12px; margin-top: 20px;">You get one alert per project and threshold each month. Change thresholds under Alerts in the Harvest assistant.</p>
+      </div>
+    </body>
+    </html>
+  `;
+  return { subject, html };
+}
+
+export class BudgetAlertChecker {
+  private running: Promise<BudgetAlert[]> | null = null;
+
+  // Check the current month for one user and email any new crossings.
+  // Returns the alerts sent (or attempted) by this check.
+  public async checkUser(userId: string): Promise<BudgetAlert[]> {
+    const settings = (await storage.getAlertSettings(userId)) ?? defaultAlertSettings(userId);
+    if (!settings.enabled) {
+      return [];
+    }
+
+    const harvestConfig = await storage.getHarvestConfig(userId);
+    const emailConfig = await storage.getEmailConfig(userId);
+    const recipients = settings.recipients || emailConfig?.reportRecipients;
+    if (!harvestConfig || !emailConfig || !recipients) {
+      return [];
+    }
+
+    const dateSettings = dateSettingsFromConfig(harvestConfig);
+    const today = todayIn(dateSettings.timezone);
+    const month = today.slice(0, 7);
+    const report = await buildMonthlyReport(
+      new HarvestService({ accountId: harvestConfig.accountId, accessToken: harvestConfig.accessToken, dateSettings, mirror: mirrorFor(harvestConfig) }),
+      { month, today }
+    );
+
+    const crossings = [
+      ...findCrossings(report.projects, false, settings),
+      ...findCrossings(report.bhsProjects, true, settings)
+    ];
+
+    const alerts: BudgetAlert[] = [];
+    for (const crossing of crossings) {
+      const projectKey = crossing.row.id.toString();
+      const measured = {
+        projectName: crossing.row.name,
+        kind: crossing.kind,
+        budgetPercent: crossing.kind === 'actual' ? crossing.percent : budgetPercent(crossing.row, report.bhsProjects.includes(crossing.row)),
+        projectedPercent: crossing.row.forecast?.projectedBudgetPercent ?? null,
+        budgetExhaustedOn: crossing.row.forecast?.budgetExhaustedOn ?? null
+      };
+
+      // One alert per project and threshold: a forecast that has come true
+      // updates the alert already sent rather than sending another
+      const existing = await storage.findBudgetAlert(userId, month, projectKey, crossing.threshold);
+      if (existing?.status === 'sent') {
+        if (existing.kind === 'forecast' && crossing.kind === 'actual') {
+          await storage.updateBudgetAlert(existing.id, measured);
+        }
+        continue;
+      }
+      if (existing && existing.attempts >= MAX_SEND_ATTEMPTS) {
+        continue;
+      }
+
+      const { subject, html } = alertEmail(crossing, month);
+      const sent = await sendEmail({ userId, to: recipients, subject, html });
+      const result = {
+        ...measured,
+        recipients,
+        status: sent ? 'sent' : 'failed',
+        sentAt: sent ? new Date() : null
+      };
+
+      const alert = existing
+        ? await storage.updateBudgetAlert(existing.id, { ...result, attempts: existing.attempts + 1 })
+        : await storage.createBudgetAlert({ ...result, userId, month, projectKey, threshold: crossing.threshold });
+      if (alert) alerts.push(alert);
+
+      console.log(`Budget alert for ${crossing.row.name} (${crossing.kind} ${crossing.threshold}%) ${sent ? 'sent' : 'failed'}`);
+    }
+    return alerts;
+  }
+
+  // Check every user with email settings. Concurrent callers share the run in progress.
+  public async checkAll(): Promise<BudgetAlert[]> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = (async () => {
+      const alerts: BudgetAlert[] = [];
+      for (const emailConfig of await storage.getEmailConfigs()) {
+        if (!emailConfig.userId) continue;
+        try {
+          alerts.push(...await this.checkUser(emailConfig.userId));
+        } catch (error) {
+          console.error(`Budget alert check failed for user ${emailConfig.userId}:`, error);
+        }
+      }
+      return alerts;
+    })();
+
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+}
+
+export const budgetAlerts = new BudgetAlertChecker();
@@ -0,0 +1,183 @@
+import { HarvestTimeEntry, ChatData, AgentTraceStep, ParsedQuery } from "@shared/schema";
+import { HarvestService } from "./harvest";
+import { harvestTools, executeHarvestTool } from "./harvest-tools";
+import { getLLMProviders, type LLMMessage, type LLMProvider, type LLMToolResult } from "./llm";
+import { summarizeDataOffline } from "./offline";
+import { buildResponseContext } from "./response-context";
+import { describeCalendar, formatHistory, type ConversationContext } from "./query-parser";
+
+// The chat's use of the model after parsing (see ./query-parser): running
+// the Harvest tool agent and summarizing data. Each call tries the providers
+// from getLLMProviders in order; summaries fall back to the rule-based
+// ./offline version when none is configured or all of them fail.
+
+export async function generateResponse(
+  query: string,
+  data: ChatData | null,
+  queryType: string,
+  context?: ConversationContext,
+  providers: LLMProvider[] = getLLMProviders()
+): Promise<string> {
+  const history = formatHistory(context);
+  const dataContext = buildResponseContext(data, queryType);
+  const prompt = `${history ? `Conversation so far:\n${history}\n\n` : ''}User asked: "${query}"
+Query type: ${queryType}
+
+Data: ${dataContext.text}
+
+The totals and groupings are exact: quote them rather than adding up rows yourself.${dataContext.rowsOmitted > 0 ? ` "rows" lists ${dataContext.rowsIncluded} of the entries; the other ${dataContext.rowsOmitted} are counted in the totals but not listed.` : ''}
+Provide a helpful, detailed summary. If data exists, highlight key details like user names, hours, projects, and dates. Be specific about what you found.`;
+
+  for (const provider of providers) {
+    try {
+      const completion = await provider.complete({
+        system: "Summarize Harvest data conversationally.",
+        messages: [{ role: "user", content: prompt }],
+        maxTokens: 600,
+        temperature: 0.7,
+        purpose: 'summary'
+      });
+      return completion.text || "I'm sorry, I couldn't generate a response for that query.";
+    } catch (error) {
+      console.error(`Response generation with ${provider.name} failed:`, error);
+    }
+  }
+
+  return summarizeDataOffline(data, queryType);
+}
+
+
+// Upper bound on model turns in one agent run, so a confused model can't
+// keep calling tools forever
+const MAX_AGENT_STEPS = 6;
+
+// Optional callbacks for streaming an agent run to the client as it happens
+export interface AgentStreamHandlers {
+  // Called with each chunk of assistant text as the model writes it
+  onText?: (delta: string) => void;
+  // Called when a model turn ends in tool calls, so any text it wrote before
+  // calling them ("Let me look that up") is not part of the final answer
+  onToolStep?: (steps: AgentTraceStep[]) => void;
+  // Called before retrying with the next provider: text streamed so far is void
+  onTextReset?: () => void;
+  signal?: AbortSignal;
+}
+
+export interface AgentResult {
+  response: string;
+  trace: AgentTraceStep[];
+  // Entries from the last tool call that looked at time entries
+  entries: HarvestTimeEntry[] | null;
+  stoppedEarly: boolean;
+}
+
+// Answer a question by letting the model call Harvest tools (list, aggregate,
+// compare periods, look up budgets) as many times as it needs, up to
+// MAX_AGENT_STEPS turns, before it writes the final answer. Tries each
+// provider in turn; throws when there is none or all of them fail.
+export async function runHarvestAgent(
+  query: string,
+  harvestService: HarvestService,
+  parsedQuery?: ParsedQuery,
+  context?: ConversationContext,
+  handlers: AgentStreamHandlers = {},
+  providers: LLMProvider[] = getLLMProviders()
+): Promise<AgentResult> {
+  if (providers.length === 0) {
+    throw new Error('No model provider is configured');
+  }
+
+  let lastError: unknown;
+  for (const provider of providers) {
+    if (provider !== providers[0]) {
+      handlers.onTextReset?.();
+    }
+    try {
+      return await runAgentWithProvider(provider, query, harvestService, parsedQuery, context, handlers);
+    } catch (error) {
+      if (handlers.signal?.aborted) throw error;
+      console.error(`Harvest agent with ${provider.name} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+async function runAgentWithProvider(
+  provider: LLMProvider,
+  query: string,
+  harvestService: HarvestService,
+  parsedQuery: ParsedQuery | undefined,
+  context: ConversationContext | undefined,
+  handlers: AgentStreamHandlers
+): Promise<AgentResult> {
+  const trace: AgentTraceStep[] = [];
+  let entries: HarvestTimeEntry[] | null = null;
+
+  // The parsed query already carries dates and filters resolved from the
+  // conversation, which saves the agent re-deriving them from follow-ups
+  const hint = parsedQuery
+    ? `\nInterpreted query: ${JSON.stringify(parsedQuery.parameters)}`
+    : '';
+
+  const history = formatHistory(context);
+  const messages: LLMMessage[] = [
+    {
+      role: "user",
+      content: `${describeCalendar(harvestService.dateSettings)}${hint}${history ? `\n\nConversation so far:\n${history}` : ''}\n\nQuestion: ${query}`
+    }
+  ];
+
+  for (let step = 1; step <= MAX_AGENT_STEPS; step++) {
+    const isLastStep = step === MAX_AGENT_STEPS;
+    const completion = await provider.complete({
+      system: `You answer questions about Harvest time tracking data. Use the tools to fetch the numbers you need - call as many as the question requires - then answer conversationally with specific names, hours and dates. Never invent figures the tools didn't return.${isLastStep ? ' This is your last turn: answer now with what you have.' : ''}`,
+      tools: harvestTools,
+      messages,
+      maxTokens: 1024,
+      temperature: 0.2,
+      onText: handlers.onText,
+      signal: handlers.signal,
+      purpose: 'agent'
+    });
+
+    messages.push({ role: "assistant", content: completion.text, toolCalls: completion.toolCalls });
+
+    if (completion.toolCalls.length === 0) {
+      return {
+        response: completion.text || "I'm sorry, I couldn't generate a response for that query.",
+        trace,
+        entries,
+        stoppedEarly: false
+      };
+    }
+
+    const toolResults: LLMToolResult[] = [];
+    for (const toolCall of completion.toolCalls) {
+      const started = Date.now();
+      try {
+        const result = await executeHarvestTool(harvestService, toolCall.name, toolCall.input);
+        if (result.entries) {
+          entries = result.entries;
+        }
+        trace.push({ step, tool: toolCall.name, input: toolCall.input, durationMs: Date.now() - started });
+        toolResults.push({ toolCallId: toolCall.id, content: JSON.stringify(result.output) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        trace.push({ step, tool: toolCall.name, input: toolCall.input, durationMs: Date.now() - started, error: message });
+        toolResults.push({ toolCallId: toolCall.id, content: `Error: ${message}`, isError: true });
+      }
+    }
+
+    handlers.onToolStep?.(trace.filter(traceStep => traceStep.step === step));
+    messages.push({ role: "tool", results: toolResults });
+  }
+
+  console.warn(`Harvest agent hit the ${MAX_AGENT_STEPS}-step cap for: ${query}`);
+  return {
+    response: "I gathered some data but couldn't finish answering within the step limit. Please check the table below or try a more specific question.",
+    trace,
+    entries,
+    stoppedEarly: true
+  };
+}
@@ -0,0 +1,245 @@
+import { ParsedQuery, Conversation, ChatData, ChatHarvestData, ChatClarification, TimeEntrySummary, AgentTraceStep } from '@shared/schema';
+import { HarvestService, getHarvestErrorStatus } from './harvest';
+import { storage } from '../storage';
+import { parseNaturalLanguageQuery, buildConversationContext, QueryParseError } from './query-parser';
+import { generateResponse, runHarvestAgent } from './assistant';
+import { LLMUsageTracker, getChatProviders } from './llm-usage';
+import { findAmbiguousName, hasNameToResolve } from './clarify';
+import { getActiveReportDefinition } from './report';
+
+// Answers one chat question. Shared by /api/chat, which returns the result
+// in one response, and /api/chat/stream, which forwards each stage to the
+// client as it happens through the optional handlers.
+
+export interface ChatResult {
+  response: string;
+  data: ChatData | null;
+  summary: TimeEntrySummary | null;
+  // Null when the answer is a clarifying question instead
+  queryType: ParsedQuery['queryType'] | null;
+  parsedQuery: ParsedQuery | null;
+  clarification: ChatClarification | null;
+  trace: AgentTraceStep[];
+  conversationId: string;
+  // The stored answer, e.g. for exporting its data
+  messageId: string;
+}
+
+export interface ChatStreamHandlers {
+  onParsed?: (parsedQuery: ParsedQuery) => void;
+  onData?: (payload: { data: ChatData | null; summary: TimeEntrySummary | null; queryType: ParsedQuery['queryType'] }) => void;
+  onToolStep?: (steps: AgentTraceStep[]) => void;
+  onText?: (delta: string) => void;
+  // Text streamed so far should be thrown away (the agent failed part way)
+  onTextReset?: () => void;
+  // Aborted when the client goes away; nothing is stored for a cancelled answer
+  signal?: AbortSignal;
+}
+
+export class ChatCancelledError extends Error {
+  constructor() {
+    super('Chat response cancelled');
+    this.name = 'ChatCancelledError';
+  }
+}
+
+// HTTP status for a failed chat answer: 422 when the question could not be
+// parsed, otherwise whatever Harvest returned
+export function getChatErrorStatus(error: unknown): number {
+  return error instanceof QueryParseError ? 422 : getHarvestErrorStatus(error);
+}
+
+// Continue the given conversation, or start a new one titled after the question.
+// Returns undefined when the user has no conversation with that id.
+export async function resolveConversation(userId: string, message: string, conversationId?: string): Promise<Conversation | undefined> {
+  if (conversationId) {
+    return await storage.getConversation(userId, conversationId);
+  }
+  return await storage.createConversation(userId, {
+    title: message.length > 60 ? `${message.slice(0, 57)}...` : message
+  });
+}
+
+export async function answerChatMessage(
+  message: string,
+  conversation: Conversation,
+  harvestService: HarvestService,
+  handlers: ChatStreamHandlers = {}
+): Promise<ChatResult> {
+  // Every model call made for this answer is logged, even when the answer
+  // fails or is cancelled part way
+  const usage = new LLMUsageTracker(conversation.userId, conversation.id);
+  try {
+    const result = await composeAnswer(message, conversation, harvestService, handlers, usage);
+    usage.messageId = result.messageId;
+    return result;
+  } finally {
+    await usage.save();
+  }
+}
+
+async function composeAnswer(
+  message: string,
+  conversation: Conversation,
+  harvestService: HarvestService,
+  handlers: ChatStreamHandlers,
+  usage: LLMUsageTracker
+): Promise<ChatResult> {
+  const throwIfCancelled = () => {
+    if (handlers.signal?.aborted) throw new ChatCancelledError();
+  };
+
+  const context = buildConversationContext(await storage.getChatMessages(conversation.id));
+  // The same providers, in the same order, for every step of this answer.
+  // None once the monthly spend cap is reached.
+  const providers = await getChatProviders(usage);
+
+  // Parse the natural language query with the model, or offline without one
+  const parse = await parseNaturalLanguageQuery(message, context, harvestService.dateSettings, providers);
+  throwIfCancelled();
+  if ('clarification' in parse) {
+    return await askClarification(message, conversation, parse.clarification, handlers);
+  }
+  const parsedQuery = parse.parsedQuery;
+  usage.queryType = parsedQuery.queryType;
+
+  // A name that is both a project and a client is asked about, unless this
+  // message is already the answer to a question. Projects are only loaded
+  // when the question names one.
+  if (!context.answersClarification && hasNameToResolve(parsedQuery)) {
+    const [projects, definition] = await Promise.all([harvestService.getProjects(), getActiveReportDefinition()]);
+    const clarification = findAmbiguousName(parsedQuery, projects, definition);
+    throwIfCancelled();
+    if (clarification) {
+      return await askClarification(message, conversation, clarification, handlers, parsedQuery);
+    }
+  }
+  handlers.onParsed?.(parsedQuery);
+
+  // Execute the appropriate Harvest API call
+  let harvestData: ChatData | null = null;
+  let summary: TimeEntrySummary | null = null;
+
+  switch (parsedQuery.queryType) {
+    case 'time_entries':
+      harvestData = await harvestService.getTimeEntries(parsedQuery.parameters);
+      summary = harvestService.generateSummary(harvestData, 'time_entries', parsedQuery.summaryType);
+      break;
+    case 'projects':
+      harvestData = await harvestService.getProjects();
+      break;
+    case 'clients':
+      harvestData = await harvestService.getClients();
+      break;
+    case 'users':
+      harvestData = await harvestService.getUsers();
+      break;
+    case 'summary':
+      harvestData = await harvestService.getTimeEntries(parsedQuery.parameters);
+      summary = harvestService.generateSummary(harvestData, 'time_entries', parsedQuery.summaryType);
+      break;
+    default:
+      harvestData = await harvestService.getTimeEntries(parsedQuery.parameters);
+  }
+  throwIfCancelled();
+  handlers.onData?.({ data: harvestData, summary, queryType: parsedQuery.queryType });
+
+  // Let the agent answer, calling Harvest tools as many times as it needs.
+  // If it fails, or there is no model, we fall back to summarizing the data
+  // fetched above.
+  let aiResponse: string;
+  let trace: AgentTraceStep[] = [];
+  try {
+    const agentResult = await runHarvestAgent(message, harvestService, parsedQuery, context, {
+      onText: handlers.onText,
+      onToolStep: handlers.onToolStep,
+      onTextReset: handlers.onTextReset,
+      signal: handlers.signal
+    }, providers);
+    aiResponse = agentResult.response;
+    trace = agentResult.trace;
+
+    // Show the entries the agent actually based its answer on
+    if (agentResult.entries && (parsedQuery.queryType === 'time_entries' || parsedQuery.queryType === 'summary')) {
+      harvestData = agentResult.entries;
+      summary = harvestService.generateSummary(harvestData, 'time_entries', parsedQuery.summaryType);
+    }
+  } catch (error) {
+    throwIfCancelled();
+    console.error("Harvest agent error:", error);
+    aiResponse = await generateResponse(message, harvestData, parsedQuery.queryType, context, providers);
+    handlers.onTextReset?.();
+    handlers.onText?.(aiResponse);
+  }
+  throwIfCancelled();
+
+  // Store the conversation
+  await storage.createChatMessage({
+    conversationId: conversation.id,
+    content: message,
+    role: 'user',
+    harvestData: null,
+    queryType: parsedQuery.queryType
+  });
+
+  const answer = await storage.createChatMessage({
+    conversationId: conversation.id,
+    content: aiResponse,
+    role: 'assistant',
+    harvestData: { data: harvestData, summary, parsedQuery, trace } satisfies ChatHarvestData,
+    queryType: parsedQuery.queryType
+  });
+
+  return {
+    response: aiResponse,
+    data: harvestData,
+    summary,
+    queryType: parsedQuery.queryType,
+    parsedQuery,
+    clarification: null,
+    trace,
+    conversationId: conversation.id,
+    messageId: answer.id
+  };
+}
+
+// Answer with a question back to the user instead of fetching data. The
+// question is stored like any answer, so the next message is read as the reply.
+async function askClarification(
+  message: string,
+  conversation: Conversation,
+  clarification: ChatClarification,
+  handlers: ChatStreamHandlers,
+  parsedQuery: ParsedQuery | null = null
+): Promise<ChatResult> {
+  console.log(`Asking for clarification: ${clarification.question}`);
+  handlers.onText?.(clarification.question);
+
+  await storage.createChatMessage({
+    conversationId: conversation.id,
+    content: message,
+    role: 'user',
+    harvestData: null,
+    queryType: parsedQuery?.queryType ?? null
+  });
+
+  const answer = await storage.createChatMessage({
+    conversationId: conversation.id,
+    content: clarification.question,
+    role: 'assistant',
+    harvestData: { data: null, summary: null, parsedQuery: parsedQuery ?? undefined, clarification } satisfies ChatHarvestData,
+    queryType: null
+  });
+
+  return {
+    response: clarification.question,
+    data: null,
+    summary: null,
+    queryType: null,
+    parsedQuery,
+    clarification,
+    trace: [],
+    conversationId: conversation.id,
+    messageId: answer.id
+  };
+}
@@ -0,0 +1,81 @@
+import { ParsedQuery, HarvestProject, ReportDefinition, ChatClarification } from '@shared/schema';
+
+// Finding names in a parsed query that could mean different things, so the
+// chat asks which one the user meant instead of picking one.
+
+const contains = (value: string | undefined, search: string) =>
+  (value || '').toLowerCase().includes(search.toLowerCase());
+
+const quoteList = (names: string[]) => names.length <= 3
+  ? names.join(', ')
+  : `${names.slice(0, 3).join(', ')} and ${names.length - 3} more`;
+
+// The project or client name a time query filters on, if it names just one.
+// Both filters set means the user already said which they meant.
+function nameToResolve(parsedQuery: ParsedQuery): string | null {
+  if (parsedQuery.queryType !== 'time_entries' && parsedQuery.queryType !== 'summary') {
+    return null;
+  }
+
+  const filters = parsedQuery.parameters.filters || {};
+  const name = String(filters.projectName || filters.project || filters.clientName || filters.client || '').trim();
+  const hasBoth = (filters.projectName || filters.project) && (filters.clientName || filters.client);
+  return name && !hasBoth ? name : null;
+}
+
+// Whether findAmbiguousName has anything to look up, so callers can skip
+// loading projects for questions that name none
+export function hasNameToResolve(parsedQuery: ParsedQuery): boolean {
+  return nameToResolve(parsedQuery) !== null;
+}
+
+// A name filter is ambiguous when it could mean just the regular projects
+// it names or everything billed to the client, Basic Hosting Support (BHS)
+// included. The usual case is "Vision": the Vision AST Maintenance project,
+// or all Vision AST work including its BHS hours.
+export function findAmbiguousName(
+  parsedQuery: ParsedQuery,
+  projects: HarvestProject[],
+  definition: Pick<ReportDefinition, 'bhsProjectKeywords'>
+): ChatClarification | null {
+  const name = nameToResolve(parsedQuery);
+  const isBhsName = (value: string) => definition.bhsProjectKeywords.some(keyword => contains(value, keyword));
+  // Asking about BHS by name is not ambiguous either
+  if (!name || isBhsName(name)) {
+    return null;
+  }
+
+  const byName = projects.filter(project => contains(project.name, name));
+  const byClient = projects.filter(project => contains(project.client?.name, name));
+  const projectReading = byName.filter(project => !isBhsName(project.name));
+  const projectIds = new Set(projectReading.map(project => project.id));
+  const clientReading = [...byName, ...byClient]
+    .filter((project, index, all) => all.findIndex(other => other.id === project.id) === index);
+  const clientOnly = clientReading.filter(project => !projectIds.has(project.id));
+  if (projectReading.length === 0 || clientOnly.length === 0) {
+    // Only one reading picks out anything, so the answer is the same
+    return null;
+  }
+
+  const projectNames = projectReading.map(project => project.name);
+  const clientNames = Array.from(new Set((byClient.length > 0 ? byClient : clientReading)
+    .map(project => project.client?.name)
+    .filter((clientName): clientName is string => !!clientName)));
+  if (clientNames.length === 0) {
+    return null;
+  }
+  const clientExtra = clientOnly.every(project => isBhsName(project.name))
+    ? ', including Basic Hosting Support (BHS)'
+    : '';
+
+  const projectLabel = projectNames.length === 1 ? `the ${projectNames[0]} project` : `the projects ${quoteList(projectNames)}`;
+  const clientLabel = `all work for ${quoteList(clientNames)}${clientExtra}`;
+
+  return {
+    question: `"${name}" could mean ${projectLabel} or ${clientLabel}. Which did you mean?`,
+    options: [
+      `Only ${projectLabel}`,
+      `${clientLabel.charAt(0).toUpperCase()}${clientLabel.slice(1)}`
+    ]
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { monthLabel, monthRange, resolveDateRange, type DateRangeSettings } from './date-range';
+
+const settings = (overrides: Partial<DateRangeSettings> = {}): DateRangeSettings => ({
+  timezone: 'UTC',
+  weekStartDay: 'monday',
+  fiscalYearStartMonth: 1,
+  ...overrides
+});
+
+// Noon UTC, so "today" is the same date in every timezone within 12 hours
+const noonOn = (date: string) => new Date(`${date}T12:00:00Z`);
+
+interface Case {
+  period: string;
+  now: Date;
+  settings: DateRangeSettings;
+  expected: { from: string; to: string } | null;
+}
+
+const run = (cases: Array<[string, Case]>) =>
+  it.each(cases)('%s', (_name, { period, now, settings, expected }) => {
+    expect(resolveDateRange(period, settings, now)).toEqual(expected);
+  });
+
+describe('resolveDateRange', () => {
+  describe('takes today in the account timezone', () => {
+    // 03:30 UTC on March 11 is still March 10 in the Americas
+    const lateEvening = new Date('2026-03-11T03:30:00Z');
+    // 04:00 UTC on New Year's Day is still New Year's Eve in Chicago
+    const newYear = new Date('2026-01-01T04:00:00Z');
+
+    run([
+      ['today in UTC', { period: 'today', now: lateEvening, settings: settings(), expected: { from: '2026-03-11', to: '2026-03-11' } }],
+      ['today in Chicago', { period: 'today', now: lateEvening, settings: settings({ timezone: 'America/Chicago' }), expected: { from: '2026-03-10', to: '2026-03-10' } }],
+      ['today in Honolulu', { period: 'today', now: lateEvening, settings: settings({ timezone: 'Pacific/Honolulu' }), expected: { from: '2026-03-10', to: '2026-03-10' } }],
+      ['today in Tokyo', { period: 'today', now: lateEvening, settings: settings({ timezone: 'Asia/Tokyo' }), expected: { from: '2026-03-11', to: '2026-03-11' } }],
+      ['yesterday in Chicago', { period: 'yesterday', now: lateEvening, settings: settings({ timezone: 'America/Chicago' }), expected: { from: '2026-03-09', to: '2026-03-09' } }],
+      ['year to date in UTC on New Year\'s Day', { period: 'year_to_date', now: newYear, settings: settings(), expected: { from: '2026-01-01', to: '2026-01-01' } }],
+      ['year to date in Chicago on New Year\'s Eve', { period: 'year_to_date', now: newYear, settings: settings({ timezone: 'America/Chicago' }), expected: { from: '2025-01-01', to: '2025-12-31' } }],
+      ['last month in Chicago on New Year\'s Eve', { period: 'last_month', now: newYear, settings: settings({ timezone: 'America/Chicago' }), expected: { from: '2025-11-01', to: '2025-11-30' } }]
+    ]);
+  });
+
+  describe('starts weeks on the configured day', () => {
+    // A Wednesday
+    const wednesday = noonOn('2026-03-11');
+
+    run([
+      ['this week from Monday', { period: 'this_week', now: wednesday, settings: settings(), expected: { from: '2026-03-09', to: '2026-03-15' } }],
+      ['last week from Monday', { period: 'last_week', now: wednesday, settings: settings(), expected: { from: '2026-03-02', to: '2026-03-08' } }],
+      ['week to date from Monday', { period: 'week_to_date', now: wednesday, settings: settings(), expected: { from: '2026-03-09', to: '2026-03-11' } }],
+      ['this week from Sunday', { period: 'this_week', now: wednesday, settings: settings({ weekStartDay: 'sunday' }), expected: { from: '2026-03-08', to: '2026-03-14' } }],
+      ['last week from Sunday', { period: 'last_week', now: wednesday, settings: settings({ weekStartDay: 'sunday' }), expected: { from: '2026-03-01', to: '2026-03-07' } }],
+      ['this week from Saturday', { period: 'this_week', now: wednesday, settings: settings({ weekStartDay: 'saturday' }), expected: { from: '2026-03-07', to: '2026-03-13' } }],
+      ['last week from Saturday, across a month end', { period: 'last_week', now: wednesday, settings: settings({ weekStartDay: 'saturday' }), expected: { from: '2026-02-28', to: '2026-03-06' } }],
+      ['week to date on the week start day', { period: 'week_to_date', now: noonOn('2026-03-08'), settings: settings({ weekStartDay: 'sunday' }), expected: { from: '2026-03-08', to: '2026-03-08' } }]
+    ]);
+  });
+
+  describe('months and quarters', () => {
+    run([
+      ['this month', { period: 'this_month', now: noonOn('2026-03-11'), settings: settings(), expected: { from: '2026-03-01', to: '2026-03-31' } }],
+      ['month to date', { period: 'month_to_date', now: noonOn('2026-03-11'), settings: settings(), expected: { from: '2026-03-01', to: '2026-03-11' } }],
+      ['last month into a leap February', { period: 'last_month', now: noonOn('2024-03-15'), settings: settings(), expected: { from: '2024-02-01', to: '2024-02-29' } }],
+      ['this quarter', { period: 'this_quarter', now: noonOn('2026-03-11'), settings: settings(), expected: { from: '2026-01-01', to: '2026-03-31' } }],
+      ['last quarter, across a year end', { period: 'last_quarter', now: noonOn('2026-03-11'), settings: settings(), expected: { from: '2025-10-01', to: '2025-12-31' } }],
+      ['quarter to date in the first quarter', { period: 'quarter_to_date', now: noonOn('2026-03-11'), settings: settings(), expected: { from: '2026-01-01', to: '2026-03-11' } }],
+      ['quarter to date in the second quarter', { period: 'quarter_to_date', now: noonOn('2026-05-20'), settings: settings(), expected: { from: '2026-04-01', to: '2026-05-20' } }],
+      ['quarter to date on the first day of a quarter', { period: 'quarter_to_date', now: noonOn('2026-07-01'), settings: settings(), expected: { from: '2026-07-01', to: '2026-07-01' } }],
+      ['quarter to date on the last day of the year', { period: 'quarter_to_date', now: noonOn('2026-12-31'), settings: settings(), expected: { from: '2026-10-01', to: '2026-12-31' } }],
+      ['quarter to date in Chicago before midnight UTC turns the quarter', { period: 'quarter_to_date', now: new Date('2026-04-01T02:00:00Z'), settings: settings({ timezone: 'America/Chicago' }), expected: { from: '2026-01-01', to: '2026-03-31' } }]
+    ]);
+  });
+
+  describe('last N days', () => {
+    const today = noonOn('2026-03-11');
+
+    run([
+      ['last 1 day is today', { period: 'last_1_days', now: today, settings: settings(), expected: { from: '2026-03-11', to: '2026-03-11' } }],
+      ['last 7 days', { period: 'last_7_days', now: today, settings: settings(), expected: { from: '2026-03-05', to: '2026-03-11' } }],
+      ['last 30 days, across February', { period: 'last_30_days', now: today, settings: settings(), expected: { from: '2026-02-10', to: '2026-03-11' } }],
+      ['last 90 days, across a year end', { period: 'last_90_days', now: noonOn('2026-01-15'), settings: settings(), expected: { from: '2025-10-18', to: '2026-01-15' } }],
+      ['last 366 days', { period: 'last_366_days', now: today, settings: settings(), expected: { from: '2025-03-11', to: '2026-03-11' } }],
+      ['last 0 days is refused', { period: 'last_0_days', now: today, settings: settings(), expected: null }],
+      ['more than 366 days is refused', { period: 'last_367_days', now: today, settings: settings(), expected: null }]
+    ]);
+  });
+
+  describe('fiscal years', () => {
+    run([
+      ['a January fiscal year is the calendar year', { period: 'this_fiscal_year', now: noonOn('2026-03-11'), settings: settings(), expected: { from: '2026-01-01', to: '2026-12-31' } }],
+      ['April fiscal year, before April', { period: 'this_fiscal_year', now: noonOn('2026-03-11'), settings: settings({ fiscalYearStartMonth: 4 }), expected: { from: '2025-04-01', to: '2026-03-31' } }],
+      ['April fiscal year, on its first day', { period: 'this_fiscal_year', now: noonOn('2026-04-01'), settings: settings({ fiscalYearStartMonth: 4 }), expected: { from: '2026-04-01', to: '2027-03-31' } }],
+      ['last April fiscal year', { period: 'last_fiscal_year', now: noonOn('2026-03-11'), settings: settings({ fiscalYearStartMonth: 4 }), expected: { from: '2024-04-01', to: '2025-03-31' } }],
+      ['April fiscal year to date', { period: 'fiscal_year_to_date', now: noonOn('2026-03-11'), settings: settings({ fiscalYearStartMonth: 4 }), expected: { from: '2025-04-01', to: '2026-03-11' } }],
+      ['October fiscal year', { period: 'this_fiscal_year', now: noonOn('2026-10-19'), settings: settings({ fiscalYearStartMonth: 10 }), expected: { from: '2026-10-01', to: '2027-09-30' } }],
+      ['last October fiscal year', { period: 'last_fiscal_year', now: noonOn('2026-10-19'), settings: settings({ fiscalYearStartMonth: 10 }), expected: { from: '2025-10-01', to: '2026-09-30' } }]
+    ]);
+  });
+
+  it('returns null for periods it does not know', () => {
+    expect(resolveDateRange('next_week', settings(), noonOn('2026-03-11'))).toBeNull();
+  });
+});
+
+describe('monthRange and monthLabel', () => {
+  it.each([
+    ['2026-03', { from: '2026-03-01', to: '2026-03-31' }, 'March 2026'],
+    ['2024-02', { from: '2024-02-01', to: '2024-02-29' }, 'February 2024'],
+    ['2026-04', { from: '2026-04-01', to: '2026-04-30' }, 'April 2026'],
+    ['2026-12', { from: '2026-12-01', to: '2026-12-31' }, 'December 2026']
+  ])('%s', (month, range, label) => {
+    expect(monthRange(month)).toEqual(range);
+    expect(monthLabel(month)).toBe(label);
+  });
+});
@@ -0,0 +1,187 @@
+import { WEEK_START_DAYS, type HarvestConfig, type WeekStartDay } from '@shared/schema';
+
+// Date ranges for relative periods ("last week", "quarter to date"), worked
+// out on calendar dates in the account's timezone. Dates are YYYY-MM-DD
+// strings throughout; Date objects are only used for UTC day arithmetic, so
+// the server's own timezone never shifts a day.
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DateRangeSettings {
+  // IANA timezone "today" is taken in, e.g. America/Chicago
+  timezone: string;
+  weekStartDay: WeekStartDay;
+  // 1 = January; a fiscal year starting in April is 4
+  fiscalYearStartMonth: number;
+}
+
+export const DEFAULT_DATE_RANGE_SETTINGS: DateRangeSettings = {
+  timezone: 'America/Chicago',
+  weekStartDay: 'monday',
+  fiscalYearStartMonth: 1
+};
+
+// Named periods resolveDateRange understands, besides last_<N>_days
+export const RELATIVE_PERIODS = [
+  'today',
+  'yesterday',
+  'this_week',
+  'last_week',
+  'week_to_date',
+  'this_month',
+  'last_month',
+  'month_to_date',
+  'this_quarter',
+  'last_quarter',
+  'quarter_to_date',
+  'this_year',
+  'last_year',
+  'year_to_date',
+  'this_fiscal_year',
+  'last_fiscal_year',
+  'fiscal_year_to_date'
+] as const;
+
+export type RelativePeriod = typeof RELATIVE_PERIODS[number];
+
+const LAST_N_DAYS = /^last_(\d{1,3})_days$/;
+const MAX_LAST_DAYS = 366;
+
+const WEEK_START_INDEX: Record<WeekStartDay, number> = { sunday: 0, monday: 1, saturday: 6 };
+
+// The date settings stored with a Harvest connection, or the defaults
+export function dateSettingsFromConfig(config?: Pick<HarvestConfig, 'timezone' | 'weekStartDay' | 'fiscalYearStartMonth'>): DateRangeSettings {
+  return {
+    timezone: config?.timezone || DEFAULT_DATE_RANGE_SETTINGS.timezone,
+    weekStartDay: WEEK_START_DAYS.find(day => day === config?.weekStartDay) || DEFAULT_DATE_RANGE_SETTINGS.weekStartDay,
+    fiscalYearStartMonth: config?.fiscalYearStartMonth || DEFAULT_DATE_RANGE_SETTINGS.fiscalYearStartMonth
+  };
+}
+
+// Today's date in a timezone
+export function todayIn(timezone: string, now: Date = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+const toDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+export function addDays(date: string, days: number): string {
+  const shifted = toDate(date);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return toDateString(shifted);
+}
+
+// First day of the month `months` after (or before, if negative) the date's month
+function startOfMonth(date: string, months = 0): string {
+  const [year, month] = date.split('-').map(Number);
+  return toDateString(new Date(Date.UTC(year, month - 1 + months, 1)));
+}
+
+const endOfMonth = (date: string) => addDays(startOfMonth(date, 1), -1);
+
+// First day of the week containing the date
+export function startOfWeek(date: string, weekStartDay: WeekStartDay): string {
+  const offset = (toDate(date).getUTCDay() - WEEK_START_INDEX[weekStartDay] + 7) % 7;
+  return addDays(date, -offset);
+}
+
+// First day of the `length`-month period containing the date, with periods
+// counted from `firstMonth` (quarters: length 3 from January; fiscal years:
+// length 12 from the fiscal start month)
+function startOfPeriod(date: string, length: number, firstMonth: number): string {
+  const month = Number(date.slice(5, 7));
+  const monthsIn = (month - firstMonth + 12) % length;
+  return startOfMonth(date, -monthsIn);
+}
+
+// The range a relative period covers, as of today in the settings' timezone.
+// Null for periods it doesn't know.
+export function resolveDateRange(
+  period: string,
+  settings: DateRangeSettings = DEFAULT_DATE_RANGE_SETTINGS,
+  now: Date = new Date()
+): DateRange | null {
+  const today = todayIn(settings.timezone, now);
+
+  const lastDays = LAST_N_DAYS.exec(period);
+  if (lastDays) {
+    const days = Number(lastDays[1]);
+    if (days < 1 || days > MAX_LAST_DAYS) return null;
+    return { from: addDays(today, 1 - days), to: today };
+  }
+
+  const week = startOfWeek(today, settings.weekStartDay);
+  const quarter = startOfPeriod(today, 3, 1);
+  const year = `${today.slice(0, 4)}-01-01`;
+  const fiscalYear = startOfPeriod(today, 12, settings.fiscalYearStartMonth);
+
+  switch (period as RelativePeriod) {
+    case 'today':
+      return { from: today, to: today };
+    case 'yesterday':
+      return { from: addDays(today, -1), to: addDays(today, -1) };
+    case 'this_week':
+      return { from: week, to: addDays(week, 6) };
+    case 'last_week':
+      return { from: addDays(week, -7), to: addDays(week, -1) };
+    case 'week_to_date':
+      return { from: week, to: today };
+    case 'this_month':
+      return { from: startOfMonth(today), to: endOfMonth(today) };
+    case 'last_month':
+      return { from: startOfMonth(today, -1), to: addDays(startOfMonth(today), -1) };
+    case 'month_to_date':
+      return { from: startOfMonth(today), to: today };
+    case 'this_quarter':
+      return { from: quarter, to: addDays(startOfMonth(quarter, 3), -1) };
+    case 'last_quarter':
+      return { from: startOfMonth(quarter, -3), to: addDays(quarter, -1) };
+    case 'quarter_to_date':
+      return { from: quarter, to: today };
+    case 'this_year':
+      return { from: year, to: `${today.slice(0, 4)}-12-31` };
+    case 'last_year':
+      return { from: startOfMonth(year, -12), to: addDays(year, -1) };
+    case 'year_to_date':
+      return { from: year, to: today };
+    case 'this_fiscal_year':
+      return { from: fiscalYear, to: addDays(startOfMonth(fiscalYear, 12), -1) };
+    case 'last_fiscal_year':
+      return { from: startOfMonth(fiscalYear, -12), to: addDays(fiscalYear, -1) };
+    case 'fiscal_year_to_date':
+      return { from: fiscalYear, to: today };
+    default:
+      return null;
+  }
+}
+
+// YYYY-MM of today in the settings' timezone
+export function currentMonth(settings: DateRangeSettings = DEFAULT_DATE_RANGE_SETTINGS, now: Date = new Date()): string {
+  return todayIn(settings.timezone, now).slice(0, 7);
+}
+
+// First and last day of a YYYY-MM month
+export function monthRange(month: string): DateRange {
+  const from = `${month}-01`;
+  return { from, to: endOfMonth(from) };
+}
+
+// A YYYY-MM month as report titles show it, e.g. "October 2026"
+export function monthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', timeZone: 'UTC' });
+}
+
+// The weeks touching from..to, with the first and last cut to the range
+export function weeksBetween(from: string, to: string, weekStartDay: WeekStartDay): DateRange[] {
+  const weeks: DateRange[] = [];
+  for (let start = startOfWeek(from, weekStartDay); start <= to; start = addDays(start, 7)) {
+    const end = addDays(start, 6);
+    weeks.push({ from: start < from ? from : start, to: end > to ? to : end });
+  }
+  return weeks;
+}
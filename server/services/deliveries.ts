@@ -0,0 +1,166 @@
+import cron from 'node-cron';
+import type { ReportDelivery, ReportRun } from '@shared/schema';
+import { deliverEmail, generateProjectReportHTML, generateProjectReportPDF, EmailAttachment } from './email';
+import { saveReportAsFile, createEmailInstructions } from './email-fallback';
+import type { ProjectReport } from './report';
+import { storage } from '../storage';
+
+// Minutes to wait after the 1st, 2nd and 3rd failed attempt. The attempt
+// after the last delay is the final one; if it fails too the report is
+// saved to a file for sending by hand.
+const RETRY_DELAYS_MINUTES = [5, 30, 120];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+// A delivery still pending this long after it was queued never finished its
+// first attempt (the server stopped mid-send), so the retry worker takes it
+const STALE_PENDING_MINUTES = 15;
+
+interface RenderedReport {
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+// Where the app is served, for the "View Live Report" link in report emails,
+// e.g. https://harvest.example.com. Without it the email has no link.
+function getReportUrl(): string | undefined {
+  const baseUrl = process.env.APP_BASE_URL?.trim();
+  return baseUrl ? `${baseUrl.replace(/\/+$/, '')}/#/report` : undefined;
+}
+
+async function renderReport(report: ProjectReport): Promise<RenderedReport> {
+  const html = generateProjectReportHTML(report, getReportUrl());
+
+  // A missing or broken Chrome shouldn't stop the email itself going out
+  try {
+    return {
+      html,
+      attachments: [{
+        filename: `project-budget-report-${report.summary.reportDate.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.pdf`,
+        content: await generateProjectReportPDF(report),
+        contentType: 'application/pdf'
+      }]
+    };
+  } catch (error) {
+    console.error('Failed to render report PDF - sending without attachment:', error);
+    return { html };
+  }
+}
+
+export class ReportDeliveryQueue {
+  private processing = false;
+
+  // Log a report run, one delivery per recipient, and try each recipient once
+  // right away. Failed recipients stay queued for retry.
+  public async deliverReport(params: {
+    userId: string;
+    scheduleId?: string;
+    subject: string;
+    report: ProjectReport;
+    recipients: string[];
+  }): Promise<ReportDelivery[]> {
+    const run = await storage.createReportRun({
+      userId: params.userId,
+      scheduleId: params.scheduleId ?? null,
+      subject: params.subject,
+      reportDate: params.report.summary.reportDate,
+      reportData: params.report
+    });
+    const rendered = await renderReport(params.report);
+
+    const results: ReportDelivery[] = [];
+    for (const recipient of params.recipients) {
+      const delivery = await storage.createReportDelivery({
+        runId: run.id,
+        userId: params.userId,
+        recipient
+      });
+      results.push(await this.attempt(delivery, run, rendered));
+    }
+    return results;
+  }
+
+  private async attempt(delivery: ReportDelivery, run: ReportRun, rendered: RenderedReport): Promise<ReportDelivery> {
+    const attempts = delivery.attempts + 1;
+    console.log(`Sending report to ${delivery.recipient} (attempt ${attempts} of ${MAX_DELIVERY_ATTEMPTS})`);
+
+    try {
+      const messageId = await deliverEmail({
+        userId: run.userId,
+        to: delivery.recipient,
+        subject: run.subject,
+        html: rendered.html,
+        attachments: rendered.attachments
+      });
+      return (await storage.updateReportDelivery(delivery.id, {
+        status: 'sent',
+        attempts,
+        error: null,
+        messageId,
+        nextAttemptAt: null,
+        sentAt: new Date()
+      }))!;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to send report to ${delivery.recipient}:`, message);
+
+      if (attempts < MAX_DELIVERY_ATTEMPTS) {
+        const delayMinutes = RETRY_DELAYS_MINUTES[attempts - 1];
+        console.log(`Retrying report to ${delivery.recipient} in ${delayMinutes} minutes`);
+        return (await storage.updateReportDelivery(delivery.id, {
+          status: 'retrying',
+          attempts,
+          error: message,
+          nextAttemptAt: new Date(Date.now() + delayMinutes * 60 * 1000)
+        }))!;
+      }
+
+      // Out of retries - leave a copy someone can send by hand
+      const fallbackPath = await saveReportAsFile(rendered.html, delivery.recipient);
+      if (fallbackPath) {
+        console.log(createEmailInstructions(delivery.recipient));
+      }
+      return (await storage.updateReportDelivery(delivery.id, {
+        status: fallbackPath ? 'saved_to_file' : 'failed',
+        attempts,
+        error: message,
+        fallbackPath,
+        nextAttemptAt: null
+      }))!;
+    }
+  }
+
+  // Retry every delivery whose next attempt is due, and any left pending
+  public async processDueRetries() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = new Date();
+      const due = await storage.getDueReportDeliveries(now, new Date(now.getTime() - STALE_PENDING_MINUTES * 60 * 1000));
+      // Render each run once, however many of its recipients are retried
+      const renderedRuns = new Map<string, { run: ReportRun; rendered: RenderedReport }>();
+
+      for (const delivery of due) {
+        let entry = renderedRuns.get(delivery.runId);
+        if (!entry) {
+          const run = await storage.getReportRun(delivery.runId);
+          if (!run) continue;
+          entry = { run, rendered: await renderReport(run.reportData as ProjectReport) };
+          renderedRuns.set(run.id, entry);
+        }
+        await this.attempt(delivery, entry.run, entry.rendered);
+      }
+    } catch (error) {
+      console.error('Report retry queue failed:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  public startRetryWorker() {
+    cron.schedule('0 * * * * *', () => this.processDueRetries());
+    console.log('Report delivery retry worker started');
+  }
+}
+
+export const reportDeliveries = new ReportDeliveryQueue();
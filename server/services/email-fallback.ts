@@ -4,7 +4,8 @@
 import { writeFileSync } from 'fs';
 import { join } from 'path';
 
-export async function saveReportAsFile(htmlContent: string, recipient: string): Promise<boolean> {
+// Returns the saved file's path, or null if it couldn't be written
+export async function saveReportAsFile(htmlContent: string, recipient: string): Promise<string | null> {
   try {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const filename = `weekly-report-${timestamp}.html`;
@@ -35,10 +36,10 @@ to send via your preferred email client.
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     `);
     
-    return true;
+    return filepath;
   } catch (error) {
     console.error('Failed to save report file:', error);
-    return false;
+    return null;
   }
 }
 
@@ -0,0 +1,144 @@
+import nodemailer from 'nodemailer';
+import sgMail from '@sendgrid/mail';
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { EmailConfig, EmailTransportName } from '@shared/schema';
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: { filename: string; content: Buffer; contentType: string }[];
+}
+
+// One way of getting an email out. verify() checks the settings without
+// sending anything; send() returns the message ID.
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  verify(): Promise<void>;
+  send(email: OutgoingEmail): Promise<string>;
+}
+
+export const DEFAULT_FILE_SINK_DIR = 'mail';
+
+class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: nodemailer.Transporter;
+
+  constructor(config: EmailConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.smtpHost,
+      port: config.smtpPort,
+      // true for TLS from the start (usually port 465), false to upgrade with STARTTLS
+      secure: config.smtpSecure,
+      auth: {
+        user: config.emailUser,
+        pass: config.emailPassword
+      },
+      tls: {
+        rejectUnauthorized: !config.smtpAllowInvalidCerts
+      }
+    });
+  }
+
+  async verify() {
+    await this.transporter.verify();
+  }
+
+  async send(email: OutgoingEmail) {
+    const info = await this.transporter.sendMail(email);
+    return info.messageId;
+  }
+}
+
+// The password field holds the SendGrid API key; the from address must be a
+// verified sender in SendGrid.
+class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid' as const;
+
+  constructor(private apiKey: string) {}
+
+  async verify() {
+    if (!this.apiKey.startsWith('SG.')) {
+      throw new Error('SendGrid API keys start with "SG." - check the key in settings');
+    }
+  }
+
+  async send(email: OutgoingEmail) {
+    // @sendgrid/mail only exposes a shared client. The key is read while the
+    // request is built, before send() yields, so concurrent users don't mix.
+    sgMail.setApiKey(this.apiKey);
+    const [response] = await sgMail.send({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      attachments: email.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content.toString('base64'),
+        type: attachment.contentType,
+        disposition: 'attachment'
+      }))
+    });
+    return String(response.headers['x-message-id'] ?? '');
+  }
+}
+
+// Writes each email to a maildir (tmp/, new/, cur/) instead of sending it,
+// for development and testing. Files are plain .eml any mail client can open.
+class FileTransport implements EmailTransport {
+  readonly name = 'file' as const;
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  private directory: string;
+
+  constructor(directory: string | null) {
+    this.directory = path.resolve(process.cwd(), directory || DEFAULT_FILE_SINK_DIR);
+  }
+
+  async verify() {
+    for (const folder of ['tmp', 'new', 'cur']) {
+      await fs.mkdir(path.join(this.directory, folder), { recursive: true });
+    }
+  }
+
+  async send(email: OutgoingEmail) {
+    await this.verify();
+    const info = await this.transporter.sendMail(email);
+
+    // Write to tmp/ then move into new/ so readers never see a partial file
+    const filename = `${Date.now()}.${randomUUID()}.eml`;
+    const tmpPath = path.join(this.directory, 'tmp', filename);
+    const newPath = path.join(this.directory, 'new', filename);
+    await fs.writeFile(tmpPath, info.message as Buffer);
+    await fs.rename(tmpPath, newPath);
+    console.log(`Email to ${email.to} written to ${newPath}`);
+    return info.messageId;
+  }
+}
+
+export function createEmailTransport(config: EmailConfig): EmailTransport {
+  switch (config.transport as EmailTransportName) {
+    case 'sendgrid':
+      return new SendGridTransport(config.emailPassword);
+    case 'file':
+      return new FileTransport(config.fileSinkDir);
+    case 'smtp':
+    default:
+      return new SmtpTransport(config);
+  }
+}
+
+// The most specific message a transport error carries, e.g. the SMTP server's
+// reply or SendGrid's validation errors, for showing in settings
+export function describeEmailError(error: unknown): string {
+  const sendGridErrors = (error as { response?: { body?: { errors?: { message: string }[] } } }).response?.body?.errors;
+  if (sendGridErrors?.length) {
+    return `SendGrid: ${sendGridErrors.map(e => e.message).join('; ')}`;
+  }
+
+  const code = (error as { code?: string }).code;
+  const message = error instanceof Error ? error.message : String(error);
+  return code && !message.includes(code) ? `${code}: ${message}` : message;
+}
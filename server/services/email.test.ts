@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, generateProjectReportHTML } from './email';
+import type { ProjectReportRow } from './report';
+
+const row = (name: string): ProjectReportRow => ({
+  id: 1,
+  name,
+  totalHours: 10,
+  budget: 1000,
+  budgetSpent: 500,
+  budgetRemaining: 500,
+  billedAmount: 500,
+  billableHours: 8,
+  budgetUsed: 50,
+  budgetPercentComplete: 50
+});
+
+describe('escapeHtml', () => {
+  it.each([
+    ['<script>alert(1)</script>', '&lt;script&gt;alert(1)&lt;/script&gt;'],
+    ['Smith & Sons', 'Smith &amp; Sons'],
+    ['"quoted" \'name\'', '&quot;quoted&quot; &#39;name&#39;'],
+    [42, '42'],
+    [null, '']
+  ])('escapes %s', (value, expected) => {
+    expect(escapeHtml(value)).toBe(expected);
+  });
+});
+
+describe('generateProjectReportHTML', () => {
+  it('escapes project names and the report link', () => {
+    const html = generateProjectReportHTML({
+      projects: [row('<img src=x onerror=alert(1)>')],
+      bhsProjects: [row('BHS <b>Client</b>')],
+      summary: { totalHours: 20, projectCount: 2, reportDate: 'March <2026>' }
+    }, 'https://harvest.example.com/#/report?a="b"');
+
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('March &lt;2026&gt;');
+    expect(html).toContain('href="https://harvest.example.com/#/report?a=&quot;b&quot;"');
+  });
+});
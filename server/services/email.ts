@@ -1,76 +1,63 @@
-import nodemailer from 'nodemailer';
 import puppeteer from 'puppeteer';
 import { storage } from '../storage';
-
-// Create a transporter using Gmail SMTP (free)
-// You can use any email provider's SMTP settings
-const createTransporter = () => {
-  return nodemailer.createTransport({
-    host: 'smtp.gmail.com',
-    port: 587,
-    secure: false, // Use STARTTLS
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASSWORD
-    },
-    tls: {
-      rejectUnauthorized: false
-    }
-  });
-};
+import type { ProjectReport, ProjectReportRow } from './report';
+import { createEmailTransport } from './email-transports';
+import { BHS_HOURLY_RATE } from '@shared/exports';
 
 export interface EmailOptions {
+  // Whose email settings to send with
+  userId: string;
   to: string;
   subject: string;
   html: string;
   from?: string;
+  attachments?: EmailAttachment[];
 }
 
-export async function sendEmail(options: EmailOptions): Promise<boolean> {
-  try {
-    // Check if email credentials are configured
-    const emailConfig = await storage.getEmailConfig();
-    if (!emailConfig) {
-      console.error('Email credentials not configured. Please set email credentials in settings.');
-      return false;
-    }
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
 
-    console.log(`Attempting to send email from ${emailConfig.emailUser} to ${options.to}`);
-    
-    const transporter = nodemailer.createTransport({
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false,
-      auth: {
-        user: emailConfig.emailUser,
-        pass: emailConfig.emailPassword
-      },
-      tls: {
-        rejectUnauthorized: false
-      }
-    });
-    
-    // Verify the transporter configuration
-    await transporter.verify();
-    console.log('SMTP connection verified successfully');
-    
-    const mailOptions = {
-      from: options.from || emailConfig.emailUser,
-      to: options.to,
-      subject: options.subject,
-      html: options.html
-    };
+// Send one email with the user's settings. Throws with the underlying error
+// so callers that keep a delivery log can record it; returns the message ID.
+export async function deliverEmail(options: EmailOptions): Promise<string> {
+  // Check if email credentials are configured
+  const emailConfig = await storage.getEmailConfig(options.userId);
+  if (!emailConfig) {
+    throw new Error('Email credentials not configured. Please set email credentials in settings.');
+  }
+
+  const transport = createEmailTransport(emailConfig);
+  console.log(`Attempting to send email from ${emailConfig.emailUser} to ${options.to} via ${transport.name}`);
+  
+  // Verify the transport configuration
+  await transport.verify();
+  console.log(`${transport.name} transport verified successfully`);
+  
+  const messageId = await transport.send({
+    from: options.from || emailConfig.emailUser,
+    to: options.to,
+    subject: options.subject,
+    html: options.html,
+    attachments: options.attachments
+  });
+  console.log(`Email sent successfully to ${options.to}, Message ID: ${messageId}`);
+  return messageId;
+}
 
-    const info = await transporter.sendMail(mailOptions);
-    console.log(`Email sent successfully to ${options.to}, Message ID: ${info.messageId}`);
+export async function sendEmail(options: EmailOptions): Promise<boolean> {
+  try {
+    await deliverEmail(options);
     return true;
   } catch (error) {
     console.error('Failed to send email:', error);
     
     // Provide specific guidance based on error type
-    if (error.code === 'EAUTH') {
+    if ((error as { code?: string }).code === 'EAUTH') {
       console.error(`
-Gmail Authentication Failed. Please ensure:
+SMTP Authentication Failed. If you're sending through Gmail, please ensure:
 1. 2-Step Verification is enabled on your Gmail account
 2. You're using an App Password (not your regular Gmail password)
 3. Generate App Password at: https://myaccount.google.com/apppasswords
@@ -82,54 +69,77 @@ Gmail Authentication Failed. Please ensure:
   }
 }
 
-// Generate HTML that matches the report page exactly
-export function generateProjectReportHTML(reportData: any): string {
+// Harvest names and dates are user-entered, so everything interpolated into
+// email HTML goes through this first
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const percentColor = (percent: number) =>
+  percent > 100 ? '#ef4444' : percent >= 85 ? '#f59e0b' : '#22c55e';
+
+const formatRunoutDate = (date: string | null | undefined) =>
+  date ? escapeHtml(new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })) : '—';
+
+function projectedPercentCell(row: ProjectReportRow): string {
+  if (!row.forecast || row.budget <= 0) return '—';
+  const percent = row.forecast.projectedBudgetPercent;
+  return `<span style="color: ${percentColor(percent)}; font-weight: 600;">${percent.toFixed(1)}%</span>`;
+}
+
+// Generate HTML that matches the report page exactly. Pass the report's URL
+// to add a link back to the live page.
+export function generateProjectReportHTML(reportData: ProjectReport, reportUrl?: string): string {
   const { projects, bhsProjects = [], summary } = reportData;
-  
+  const cell = 'padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;';
+
   // Generate Primary Projects table rows
   let primaryTableRows = '';
   projects.forEach(project => {
-    const budgetColor = project.budgetPercentComplete > 100 ? '#ef4444' : 
-                       project.budgetPercentComplete >= 85 ? '#f59e0b' : '#22c55e';
-    
     primaryTableRows += `
       <tr>
-        <td style="padding: 16px 12px; text-align: left; border-bottom: 1px solid #e5e7eb;">${project.name}</td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;">${project.totalHours.toFixed(1)}h</td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;">$${project.budget.toLocaleString()}</td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb; color: ${budgetColor}; font-weight: 600;">
+        <td style="${cell} text-align: left;">${escapeHtml(project.name)}</td>
+        <td style="${cell}">${project.totalHours.toFixed(1)}h</td>
+        <td style="${cell}">${project.billableHours.toFixed(1)}h</td>
+        <td style="${cell}">$${project.billedAmount.toFixed(2)}</td>
+        <td style="${cell} color: ${percentColor(project.budgetPercentComplete)}; font-weight: 600;">
           ${project.budgetPercentComplete.toFixed(1)}%
         </td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;">${project.billableHours.toFixed(1)}h</td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;">$${project.billedAmount.toFixed(2)}</td>
+        <td style="${cell}">${project.budget > 0 ? `$${escapeHtml(project.budget.toLocaleString())}` : 'No Budget Set'}</td>
+        <td style="${cell}">${projectedPercentCell(project)}</td>
+        <td style="${cell}">${formatRunoutDate(project.forecast?.budgetExhaustedOn)}</td>
       </tr>
     `;
   });
 
-  // Generate BHS Projects table rows
+  // Generate BHS Projects table rows. BHS budgets are support hours.
   let bhsTableRows = '';
   let totalBhsHours = 0;
   let totalBhsBudget = 0;
   
   bhsProjects.forEach(project => {
-    const supportHours = Math.round(project.budget / 150);
-    const budgetPercentage = supportHours > 0 ? (project.totalHours / supportHours * 100) : 0;
-    const budgetColor = budgetPercentage > 100 ? '#ef4444' : 
-                       budgetPercentage >= 85 ? '#f59e0b' : '#22c55e';
-    
-    const clientName = project.name.replace(' - Basic Hosting Support', '');
+    const budgetPercentage = project.budget > 0 ? (project.totalHours / project.budget * 100) : 0;
+    const totalBudget = project.budget * BHS_HOURLY_RATE;
     totalBhsHours += project.totalHours;
-    totalBhsBudget += project.budget;
+    totalBhsBudget += totalBudget;
     
     bhsTableRows += `
       <tr>
-        <td style="padding: 16px 12px; text-align: left; border-bottom: 1px solid #e5e7eb;">${clientName}</td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;">${project.totalHours.toFixed(1)}h</td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;">${supportHours}h</td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb; color: ${budgetColor}; font-weight: 600;">
+        <td style="${cell} text-align: left;">${escapeHtml(project.name)}</td>
+        <td style="${cell}">${project.totalHours.toFixed(1)}h</td>
+        <td style="${cell}">${project.budget > 0 ? `${escapeHtml(project.budget)}h` : 'No Budget Set'}</td>
+        <td style="${cell} color: ${percentColor(budgetPercentage)}; font-weight: 600;">
           ${budgetPercentage.toFixed(1)}%
         </td>
-        <td style="padding: 16px 12px; text-align: center; border-bottom: 1px solid #e5e7eb;">$${project.budget.toLocaleString()}</td>
+        <td style="${cell}">$${totalBudget.toLocaleString()}</td>
+        <td style="${cell}">${project.forecast ? `${project.forecast.projectedHours.toFixed(1)}h` : '—'}</td>
+        <td style="${cell}">${projectedPercentCell(project)}</td>
+        <td style="${cell}">${formatRunoutDate(project.forecast?.budgetExhaustedOn)}</td>
       </tr>
     `;
   });
@@ -216,7 +226,7 @@ export function generateProjectReportHTML(reportData: any): string {
             Monthly Project Budget Report
           </h1>
           <p style="color: #fed7aa; font-size: 16px; margin: 0;">
-            ${summary?.reportDate || new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long' })}
+            ${escapeHtml(summary?.reportDate || new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long' }))}
           </p>
         </div>
 
@@ -249,10 +259,12 @@ export function generateProjectReportHTML(reportData: any): string {
                 <tr>
                   <th style="text-align: left;">Project Name</th>
                   <th>Hours Logged</th>
-                  <th>Budget</th>
-                  <th>Budget %</th>
                   <th>Billable Hours</th>
-                  <th>Billed Amount</th>
+                  <th>Budget Spent</th>
+                  <th>Budget %</th>
+                  <th>Total Budget</th>
+                  <th>Projected %</th>
+                  <th>Budget Runs Out</th>
                 </tr>
               </thead>
               <tbody>
@@ -275,6 +287,9 @@ export function generateProjectReportHTML(reportData: any): string {
                   <th>Support Hours</th>
                   <th>Budget %</th>
                   <th>Total Budget</th>
+                  <th>Projected Hours</th>
+                  <th>Projected %</th>
+                  <th>Hours Run Out</th>
                 </tr>
               </thead>
               <tbody>
@@ -285,12 +300,43 @@ export function generateProjectReportHTML(reportData: any): string {
         </div>
         ` : ''}
 
+        ${reportUrl ? `
+        <div style="text-align: center; margin-top: 32px;">
+          <a href="${escapeHtml(reportUrl)}" style="display: inline-block; background: #ea580c; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
+            View Live Report →
+          </a>
+        </div>
+        ` : ''}
+
         <!-- Footer -->
         <div style="text-align: center; color: #6b7280; font-size: 12px; margin-top: 40px;">
-          <p>This report is automatically generated by your Harvest Assistant every Monday at 8:00 AM CST.</p>
+          <p>This report is generated by your Harvest Assistant on the schedule set under Report Schedules.</p>
         </div>
       </div>
     </body>
     </html>
   `;
-}
\ No newline at end of file
+}
+
+// Render the report HTML to an A4 landscape PDF with headless Chrome
+export async function generateProjectReportPDF(reportData: ProjectReport): Promise<Buffer> {
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox']
+  });
+  try {
+    const page = await browser.newPage();
+    // The report is static HTML; nothing in it should run
+    await page.setJavaScriptEnabled(false);
+    await page.setContent(generateProjectReportHTML(reportData), { waitUntil: 'load' });
+    const pdf = await page.pdf({
+      format: 'A4',
+      landscape: true,
+      printBackground: true,
+      margin: { top: '16px', bottom: '16px', left: '16px', right: '16px' }
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,101 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { getDataColumns, isDataRow, TIME_ENTRY_COLUMNS, type DataRow, type ExportSheet, type TimeEntryRow } from '@shared/exports';
+import { buildExport } from './export';
+
+const entry = (notes: string, project = 'CloudSee'): TimeEntryRow => ({
+  spent_date: '2026-03-02',
+  hours: 1.5,
+  notes,
+  billable: true,
+  project: { name: project },
+  client: { name: 'CloudSee' },
+  task: { name: 'Development' },
+  user: { name: 'Grace Hopper' }
+});
+
+const sheet = (rows: TimeEntryRow[]): ExportSheet<TimeEntryRow> => ({ name: 'Time Entries', columns: TIME_ENTRY_COLUMNS, rows });
+
+const csvOf = async (rows: TimeEntryRow[]) =>
+  (await buildExport([sheet(rows)], 'csv', 'entries')).body.toString('utf8');
+
+describe('buildExport', () => {
+  it('writes a header row and one line per row', async () => {
+    expect(await csvOf([entry('Fixed login'), entry('Review, then "ship"')])).toBe([
+      'Date,Client,Project,Task,Person,Hours,Notes,Status',
+      '2026-03-02,CloudSee,CloudSee,Development,Grace Hopper,1.5,Fixed login,Billable',
+      '2026-03-02,CloudSee,CloudSee,Development,Grace Hopper,1.5,"Review, then ""ship""",Billable',
+      ''
+    ].join('\r\n'));
+  });
+
+  it.each([
+    ['=HYPERLINK("http://example.com","Click")', `"'=HYPERLINK(""http://example.com"",""Click"")"`],
+    ['+1+1', "'+1+1"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+    ['\tcmd', "'\tcmd"],
+    ['\rcmd', `"'\rcmd"`],
+    ['Meeting - planning', 'Meeting - planning']
+  ])('keeps %j from being read as a formula in CSV', async (notes, cell) => {
+    const csv = await csvOf([entry(notes)]);
+
+    expect(csv.split('\r\n')[1].endsWith(`,1.5,${cell},Billable`)).toBe(true);
+  });
+
+  it('escapes formula-like names in every column', async () => {
+    const csv = await csvOf([entry('Notes', '=cmd|"/c calc"!A1')]);
+
+    expect(csv).toContain(`"'=cmd|""/c calc""!A1"`);
+  });
+
+  it('writes numbers as numbers', async () => {
+    const csv = await buildExport([{
+      name: 'Numbers',
+      columns: [{ key: 'value', header: 'Value', value: (row: { value: number }) => row.value }],
+      rows: [{ value: -5 }]
+    }], 'csv', 'numbers');
+
+    expect(csv.body.toString('utf8')).toBe('Value\r\n-5\r\n');
+  });
+
+  it('keeps formula-like text as text in XLSX', async () => {
+    const file = await buildExport([sheet([entry('=1+1')])], 'xlsx', 'entries');
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.body);
+
+    const cell = workbook.getWorksheet('Time Entries')!.getRow(2).getCell(7);
+    expect(cell.type).toBe(ExcelJS.ValueType.String);
+    expect(cell.value).toBe("'=1+1");
+    expect(file.filename).toBe('entries.xlsx');
+  });
+
+  it('keeps JSON values as they are, keyed by column', async () => {
+    const file = await buildExport([sheet([entry('=1+1')])], 'json', 'entries');
+
+    expect(JSON.parse(file.body.toString('utf8')).sheets[0].rows[0]).toMatchObject({ notes: '=1+1', hours: 1.5 });
+  });
+
+  it('puts each sheet of a multi-sheet CSV under its name', async () => {
+    const file = await buildExport([sheet([entry('One')]), { ...sheet([entry('Two')]), name: 'More Entries' }], 'csv', 'entries');
+    const sections = file.body.toString('utf8').split('\r\n\r\n');
+
+    expect(sections).toHaveLength(2);
+    expect(sections[1].startsWith('More Entries\r\nDate,')).toBe(true);
+  });
+});
+
+describe('chat data columns', () => {
+  it('only accepts rows shaped like Harvest records', () => {
+    expect([entry('Notes'), { name: 'CloudSee' }, { first_name: 'Grace', last_name: 'Hopper' }].every(isDataRow)).toBe(true);
+    expect(isDataRow({ hours: '2' })).toBe(false);
+    expect(isDataRow(null)).toBe(false);
+  });
+
+  it('reads nothing from rows of another kind', () => {
+    const userColumns = getDataColumns('users');
+    const row: DataRow = entry('Notes');
+
+    expect(userColumns.find(column => column.key === 'name')!.value(row)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import ExcelJS from 'exceljs';
+import type { ExportFormat, ExportSheet, ExportValue } from '@shared/exports';
+
+export interface ExportFile {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+// Text Excel would read as a formula (=, +, -, @) or that starts with a tab or
+// carriage return. Harvest notes and names are user-entered.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Text cells that look like formulas get a leading ' so spreadsheets show
+// them as text; numbers are written as they are
+function safeText(value: ExportValue): ExportValue {
+  return typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return '';
+  const text = String(safeText(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows<T>(sheet: ExportSheet<T>): string[] {
+  return [
+    sheet.columns.map(column => csvCell(column.header)).join(','),
+    ...sheet.rows.map(row => sheet.columns.map(column => csvCell(column.value(row))).join(','))
+  ];
+}
+
+// One sheet is a plain CSV. Several (the report's primary and BHS tables)
+// follow each other, each under its name and separated by a blank line.
+function toCsv<T>(sheets: ExportSheet<T>[]): string {
+  if (sheets.length === 1) {
+    return csvRows(sheets[0]).join('\r\n') + '\r\n';
+  }
+  return sheets.map(sheet => [csvCell(sheet.name), ...csvRows(sheet)].join('\r\n')).join('\r\n\r\n') + '\r\n';
+}
+
+async function toXlsx<T>(sheets: ExportSheet<T>[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  for (const sheet of sheets) {
+    // Excel limits sheet names to 31 characters
+    const worksheet = workbook.addWorksheet(sheet.name.slice(0, 31));
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: Math.max(column.header.length + 2, 12)
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    for (const row of sheet.rows) {
+      worksheet.addRow(Object.fromEntries(sheet.columns.map(column => [column.key, safeText(column.value(row))])));
+    }
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// Rows keyed by column key, so the shape doesn't change with header wording
+function toJson<T>(sheets: ExportSheet<T>[]): string {
+  return JSON.stringify({
+    sheets: sheets.map(sheet => ({
+      name: sheet.name,
+      columns: sheet.columns.map(({ key, header }) => ({ key, header })),
+      rows: sheet.rows.map(row => Object.fromEntries(sheet.columns.map(column => [column.key, column.value(row)])))
+    }))
+  }, null, 2);
+}
+
+export async function buildExport<T>(sheets: ExportSheet<T>[], format: ExportFormat, basename: string): Promise<ExportFile> {
+  switch (format) {
+    case 'xlsx':
+      return {
+        body: await toXlsx(sheets),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        filename: `${basename}.xlsx`
+      };
+    case 'json':
+      return {
+        body: Buffer.from(toJson(sheets)),
+        contentType: 'application/json; charset=utf-8',
+        filename: `${basename}.json`
+      };
+    case 'csv':
+    default:
+      return {
+        body: Buffer.from(toCsv(sheets)),
+        contentType: 'text/csv; charset=utf-8',
+        filename: `${basename}.csv`
+      };
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { forecastBudget, type DailyBurn } from './forecast';
+
+// March 2026 starts on a Sunday and has 22 working days. Up to Wednesday the
+// 11th, 8 of them have passed and 14 are left.
+const MONTH = '2026-03';
+const TODAY = '2026-03-11';
+
+// The same burn on every working day of March from the 1st through `through`
+function burnEachWorkingDay(through: string, burn: DailyBurn): Map<string, DailyBurn> {
+  const daily = new Map<string, DailyBurn>();
+  for (let day = 1; day <= 31; day++) {
+    const date = `${MONTH}-${String(day).padStart(2, '0')}`;
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (date <= through && weekday !== 0 && weekday !== 6) {
+      daily.set(date, burn);
+    }
+  }
+  return daily;
+}
+
+const steady = burnEachWorkingDay(TODAY, { hours: 10, amount: 1000 });
+
+describe('forecastBudget', () => {
+  it('counts elapsed and remaining working days', () => {
+    const forecast = forecastBudget(steady, 20000, 'amount', MONTH, TODAY);
+
+    expect(forecast.workingDaysElapsed).toBe(8);
+    expect(forecast.workingDaysRemaining).toBe(14);
+  });
+
+  it.each([
+    ['on budget', 22000, 100, '2026-03-31'],
+    ['over budget', 20000, 110, '2026-03-27'],
+    ['under budget, running out next month', 30000, 73.33, '2026-04-10']
+  ])('projects the daily rate to month end, %s', (_name, budget, percent, exhaustedOn) => {
+    const forecast = forecastBudget(steady, budget, 'amount', MONTH, TODAY);
+
+    expect(forecast.projectedSpend).toBe(22000);
+    expect(forecast.projectedHours).toBe(220);
+    expect(forecast.projectedBudgetPercent).toBe(percent);
+    expect(forecast.budgetExhaustedOn).toBe(exhaustedOn);
+  });
+
+  it('projects in hours for hour budgets', () => {
+    const forecast = forecastBudget(steady, 200, 'hours', MONTH, TODAY);
+
+    expect(forecast.projectedSpend).toBe(220);
+    expect(forecast.projectedBudgetPercent).toBe(110);
+    expect(forecast.budgetExhaustedOn).toBe('2026-03-27');
+  });
+
+  it('reports the day an already spent budget ran out', () => {
+    const forecast = forecastBudget(steady, 5000, 'amount', MONTH, TODAY);
+
+    expect(forecast.budgetExhaustedOn).toBe('2026-03-06');
+  });
+
+  it('adds weekend time to the spend but not to the working days', () => {
+    const daily = new Map(steady).set('2026-03-07', { hours: 8, amount: 1000 });
+
+    const forecast = forecastBudget(daily, 30000, 'amount', MONTH, TODAY);
+
+    expect(forecast.workingDaysElapsed).toBe(8);
+    // 9000 over 8 working days, 1125 a day for the 14 left
+    expect(forecast.projectedSpend).toBe(24750);
+  });
+
+  it('uses a rate of one working day before any have passed', () => {
+    const daily = new Map([['2026-03-01', { hours: 5, amount: 500 }]]);
+
+    const forecast = forecastBudget(daily, 20000, 'amount', MONTH, '2026-03-01');
+
+    expect(forecast.workingDaysElapsed).toBe(0);
+    expect(forecast.workingDaysRemaining).toBe(22);
+    expect(forecast.projectedSpend).toBe(11500);
+  });
+
+  it('has no run-out date without a budget or any spend', () => {
+    expect(forecastBudget(steady, 0, 'amount', MONTH, TODAY).budgetExhaustedOn).toBeNull();
+    expect(forecastBudget(steady, 0, 'amount', MONTH, TODAY).projectedBudgetPercent).toBe(0);
+    expect(forecastBudget(new Map(), 20000, 'amount', MONTH, TODAY).budgetExhaustedOn).toBeNull();
+  });
+
+  it('projects nothing for a month that is over', () => {
+    const daily = burnEachWorkingDay('2026-03-31', { hours: 10, amount: 1000 });
+
+    const forecast = forecastBudget(daily, 30000, 'amount', MONTH, '2026-04-02');
+
+    expect(forecast.workingDaysRemaining).toBe(0);
+    expect(forecast.projectedSpend).toBe(22000);
+    expect(forecast.budgetExhaustedOn).toBeNull();
+    expect(forecast.series.every(point => point.projected === null)).toBe(true);
+  });
+
+  it('joins the actual and projected lines at today', () => {
+    const { series } = forecastBudget(steady, 20000, 'amount', MONTH, TODAY);
+
+    expect(series).toHaveLength(31);
+    expect(series[9]).toEqual({ date: '2026-03-10', actual: 7000, projected: null });
+    expect(series[10]).toEqual({ date: '2026-03-11', actual: 8000, projected: 8000 });
+    expect(series[11]).toEqual({ date: '2026-03-12', actual: null, projected: 9000 });
+    // Flat over the weekend
+    expect(series[13]).toEqual({ date: '2026-03-14', actual: null, projected: 10000 });
+    expect(series[30]).toEqual({ date: '2026-03-31', actual: null, projected: 22000 });
+  });
+});
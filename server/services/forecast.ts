@@ -0,0 +1,146 @@
+// Month-end budget projection from the burn so far. Spend to date is divided
+// by the working days (Mon-Fri) elapsed, and that daily rate is assumed for
+// every working day left in the month.
+
+// How far ahead to look for the date a budget runs out
+const MAX_RUNOUT_WORKING_DAYS = 260;
+
+// Primary projects are budgeted in dollars, BHS clients in support hours
+export type BudgetUnit = 'amount' | 'hours';
+
+export interface DailyBurn {
+  hours: number;
+  amount: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  // Cumulative spend in the budget's unit; actual up to today, projected after
+  actual: number | null;
+  projected: number | null;
+}
+
+export interface BudgetForecast {
+  unit: BudgetUnit;
+  workingDaysElapsed: number;
+  workingDaysRemaining: number;
+  projectedHours: number;
+  projectedSpend: number;
+  projectedBudgetPercent: number;
+  // YYYY-MM-DD the budget is (or was) used up at the current rate; null if
+  // there is no budget or nothing is being spent
+  budgetExhaustedOn: string | null;
+  series: ForecastPoint[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function isWorkingDay(date: Date): boolean {
+  const weekday = date.getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+// Every day of a YYYY-MM month, as UTC dates
+function daysOfMonth(month: string): Date[] {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return Array.from({ length: lastDay }, (_, i) => new Date(Date.UTC(year, monthIndex - 1, i + 1)));
+}
+
+// Walk forward working day by working day from `after` until `remaining` is spent
+function projectRunout(after: Date, remaining: number, dailyRate: number): string | null {
+  if (dailyRate <= 0) return null;
+  const date = new Date(after);
+  let left = remaining;
+  for (let i = 0; i < MAX_RUNOUT_WORKING_DAYS * 2; i++) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (!isWorkingDay(date)) continue;
+    left -= dailyRate;
+    if (left <= 0) return toDateString(date);
+  }
+  return null;
+}
+
+// `daily` maps YYYY-MM-DD to what was logged that day; `today` decides which
+// part of the month is actual and which is projected
+export function forecastBudget(
+  daily: Map<string, DailyBurn>,
+  budget: number,
+  unit: BudgetUnit,
+  month: string,
+  today: string
+): BudgetForecast {
+  const days = daysOfMonth(month);
+  const spendOf = (burn: DailyBurn) => unit === 'hours' ? burn.hours : burn.amount;
+
+  let hoursToDate = 0;
+  let spendToDate = 0;
+  let workingDaysElapsed = 0;
+  let workingDaysRemaining = 0;
+  let budgetExhaustedOn: string | null = null;
+
+  days.forEach(day => {
+    const date = toDateString(day);
+    if (date <= today) {
+      const burn = daily.get(date);
+      if (burn) {
+        hoursToDate += burn.hours;
+        spendToDate += spendOf(burn);
+      }
+      if (isWorkingDay(day)) workingDaysElapsed++;
+      if (!budgetExhaustedOn && budget > 0 && spendToDate >= budget) {
+        budgetExhaustedOn = date;
+      }
+    } else if (isWorkingDay(day)) {
+      workingDaysRemaining++;
+    }
+  });
+
+  const elapsedForRate = Math.max(workingDaysElapsed, 1);
+  const hoursPerDay = hoursToDate / elapsedForRate;
+  const spendPerDay = spendToDate / elapsedForRate;
+  const projectedHours = hoursToDate + hoursPerDay * workingDaysRemaining;
+  const projectedSpend = spendToDate + spendPerDay * workingDaysRemaining;
+
+  // Only a month still in progress gets a projected run-out date
+  if (!budgetExhaustedOn && budget > 0 && workingDaysRemaining > 0) {
+    const lastActualDay = days.filter(day => toDateString(day) <= today).pop();
+    budgetExhaustedOn = projectRunout(lastActualDay ?? new Date(`${month}-01T00:00:00Z`), budget - spendToDate, spendPerDay);
+  }
+
+  // Cumulative line for the sparkline: actual through today, then projected
+  const series: ForecastPoint[] = [];
+  let cumulative = 0;
+  let projected = spendToDate;
+  days.forEach(day => {
+    const date = toDateString(day);
+    if (date <= today) {
+      const burn = daily.get(date);
+      cumulative += burn ? spendOf(burn) : 0;
+      series.push({ date, actual: round2(cumulative), projected: null });
+    } else {
+      if (isWorkingDay(day)) projected += spendPerDay;
+      series.push({ date, actual: null, projected: round2(projected) });
+    }
+  });
+  // Join the two lines at today
+  const lastActual = series.filter(point => point.actual !== null).pop();
+  if (lastActual && workingDaysRemaining > 0) {
+    lastActual.projected = lastActual.actual;
+  }
+
+  return {
+    unit,
+    workingDaysElapsed,
+    workingDaysRemaining,
+    projectedHours: round2(projectedHours),
+    projectedSpend: round2(projectedSpend),
+    projectedBudgetPercent: budget > 0 ? round2(projectedSpend / budget * 100) : 0,
+    budgetExhaustedOn,
+    series
+  };
+}
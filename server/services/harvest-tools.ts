@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import { HarvestTimeEntry, WeekStartDay } from '@shared/schema';
+import { HarvestService } from './harvest';
+import { buildMonthlyReport, ProjectReportRow } from './report';
+import { startOfWeek, todayIn } from './date-range';
+import type { LLMTool } from './llm';
+
+// HarvestService operations exposed to the chat agent as model tools.
+// Every tool returns plain JSON that is small enough to hand back to the model.
+
+const MAX_LISTED_ENTRIES = 50;
+
+const GROUP_BY_DIMENSIONS = ['user', 'project', 'client', 'task', 'day', 'week', 'month'] as const;
+type GroupBy = typeof GROUP_BY_DIMENSIONS[number];
+
+// What the model sends is checked against these before anything reaches
+// Harvest; a bad input goes back to the model as the tool's error
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+const nameFilterSchema = z.string().trim().min(1).optional();
+
+const entryFilterFields = {
+  from: dateSchema,
+  to: dateSchema,
+  project_name: nameFilterSchema,
+  client_name: nameFilterSchema,
+  user_name: nameFilterSchema,
+  task_name: nameFilterSchema,
+  billable: z.boolean().optional()
+};
+
+const rangeRunsForwards = (from: string, to: string) => from <= to;
+
+const listTimeEntriesInput = z.object(entryFilterFields)
+  .refine(input => rangeRunsForwards(input.from, input.to), { message: 'from must not be after to', path: ['to'] });
+
+const aggregateTimeEntriesInput = z.object({ ...entryFilterFields, group_by: z.enum(GROUP_BY_DIMENSIONS) })
+  .refine(input => rangeRunsForwards(input.from, input.to), { message: 'from must not be after to', path: ['to'] });
+
+const comparePeriodsInput = z.object({
+  current_from: dateSchema,
+  current_to: dateSchema,
+  previous_from: dateSchema,
+  previous_to: dateSchema,
+  group_by: z.enum(GROUP_BY_DIMENSIONS),
+  project_name: nameFilterSchema,
+  client_name: nameFilterSchema,
+  user_name: nameFilterSchema,
+  billable: z.boolean().optional()
+})
+  .refine(input => rangeRunsForwards(input.current_from, input.current_to), { message: 'current_from must not be after current_to', path: ['current_to'] })
+  .refine(input => rangeRunsForwards(input.previous_from, input.previous_to), { message: 'previous_from must not be after previous_to', path: ['previous_to'] });
+
+const lookupBudgetsInput = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected a month as YYYY-MM').optional()
+});
+
+type EntryFilterInput = z.infer<typeof listTimeEntriesInput>;
+
+// Thrown for tool input that doesn't match the tool's schema
+export class ToolInputError extends Error {
+  constructor(tool: string, error: z.ZodError) {
+    super(`Invalid input for ${tool}: ${error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+    this.name = 'ToolInputError';
+  }
+}
+
+function parseToolInput<T extends z.ZodTypeAny>(tool: string, schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new ToolInputError(tool, result.error);
+  }
+  return result.data;
+}
+
+const dateRangeProperties = {
+  from: { type: 'string', description: 'Start date, YYYY-MM-DD (inclusive)' },
+  to: { type: 'string', description: 'End date, YYYY-MM-DD (inclusive)' }
+};
+
+const filterProperties = {
+  ...dateRangeProperties,
+  project_name: { type: 'string', description: 'Only entries whose project name contains this text (case-insensitive)' },
+  client_name: { type: 'string', description: 'Only entries whose client name contains this text (case-insensitive)' },
+  user_name: { type: 'string', description: 'Only entries whose person name contains this text (case-insensitive)' },
+  task_name: { type: 'string', description: 'Only entries whose task name contains this text (case-insensitive)' },
+  billable: { type: 'boolean', description: 'true for billable entries only, false for non-billable only' }
+};
+
+const groupByProperty = {
+  type: 'string',
+  enum: GROUP_BY_DIMENSIONS,
+  description: 'Dimension to group hours by'
+};
+
+export const harvestTools: LLMTool[] = [
+  {
+    name: 'list_time_entries',
+    description: `List individual Harvest time entries matching the filters, newest first. Returns at most ${MAX_LISTED_ENTRIES} entries plus the total count and hours of all matches.`,
+    inputSchema: {
+      type: 'object',
+      properties: filterProperties,
+      required: ['from', 'to']
+    }
+  },
+  {
+    name: 'aggregate_time_entries',
+    description: 'Total hours, billable hours and billed amount of matching time entries, grouped by a dimension and sorted by hours descending.',
+    inputSchema: {
+      type: 'object',
+      properties: { ...filterProperties, group_by: groupByProperty },
+      required: ['from', 'to', 'group_by']
+    }
+  },
+  {
+    name: 'compare_periods',
+    description: 'Compare grouped hours between two date ranges (e.g. this month vs last month). Returns hours in each period and the change per group.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        current_from: { type: 'string', description: 'Current period start, YYYY-MM-DD' },
+        current_to: { type: 'string', description: 'Current period end, YYYY-MM-DD' },
+        previous_from: { type: 'string', description: 'Previous period start, YYYY-MM-DD' },
+        previous_to: { type: 'string', description: 'Previous period end, YYYY-MM-DD' },
+        group_by: groupByProperty,
+        project_name: filterProperties.project_name,
+        client_name: filterProperties.client_name,
+        user_name: filterProperties.user_name,
+        billable: filterProperties.billable
+      },
+      required: ['current_from', 'current_to', 'previous_from', 'previous_to', 'group_by']
+    }
+  },
+  {
+    name: 'lookup_budgets',
+    description: 'Budget status of the tracked projects and Basic Hosting Support (BHS) clients for a month: hours, budget, billed amount, budget % used, and a month-end forecast (projected hours, spend and budget %, and the date the budget runs out at the current rate).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        month: { type: 'string', description: 'Month as YYYY-MM. Defaults to the current month.' }
+      }
+    }
+  }
+];
+
+const contains = (value: string | undefined, search?: string) =>
+  !search || (value || '').toLowerCase().includes(search.toLowerCase());
+
+function filterEntries(entries: HarvestTimeEntry[], input: EntryFilterInput): HarvestTimeEntry[] {
+  return entries.filter(entry =>
+    contains(entry.project?.name, input.project_name) &&
+    contains(entry.client?.name, input.client_name) &&
+    contains(entry.user?.name, input.user_name) &&
+    contains(entry.task?.name, input.task_name) &&
+    (input.billable === undefined || entry.billable === input.billable)
+  );
+}
+
+async function fetchEntries(harvestService: HarvestService, input: EntryFilterInput): Promise<HarvestTimeEntry[]> {
+  const entries = await harvestService.getTimeEntries({
+    dateRange: { from: input.from, to: input.to },
+    // Lets Harvest filter by the person's user_id when the name is unambiguous
+    filters: input.user_name ? { userName: input.user_name } : {}
+  });
+  return filterEntries(entries, input);
+}
+
+function groupKey(entry: HarvestTimeEntry, groupBy: GroupBy, weekStartDay: WeekStartDay): string {
+  switch (groupBy) {
+    case 'user': return entry.user?.name || 'Unknown';
+    case 'project': return entry.project?.name || 'Unknown';
+    case 'client': return entry.client?.name || 'Unknown';
+    case 'task': return entry.task?.name || 'Unknown';
+    case 'day': return entry.spent_date;
+    case 'week': return `week of ${startOfWeek(entry.spent_date, weekStartDay)}`;
+    case 'month': return entry.spent_date.slice(0, 7);
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+interface GroupTotals {
+  key: string;
+  hours: number;
+  billableHours: number;
+  billedAmount: number;
+  entryCount: number;
+}
+
+export function aggregateEntries(entries: HarvestTimeEntry[], groupBy: GroupBy, weekStartDay: WeekStartDay = 'monday'): GroupTotals[] {
+  const groups = new Map<string, GroupTotals>();
+  entries.forEach(entry => {
+    const key = groupKey(entry, groupBy, weekStartDay);
+    const group = groups.get(key) || { key, hours: 0, billableHours: 0, billedAmount: 0, entryCount: 0 };
+    group.hours += entry.hours;
+    group.entryCount++;
+    if (entry.billable) {
+      group.billableHours += entry.hours;
+      group.billedAmount += (entry.billable_rate || 0) * entry.hours;
+    }
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      hours: round2(group.hours),
+      billableHours: round2(group.billableHours),
+      billedAmount: round2(group.billedAmount)
+    }))
+    .sort((a, b) => b.hours - a.hours);
+}
+
+export interface ToolExecution {
+  output: unknown;
+  // Time entries the tool looked at, so the chat can show them as a table
+  entries?: HarvestTimeEntry[];
+}
+
+// Runs one tool call. Unknown tools and invalid input throw; the agent hands
+// the message back to the model as the tool's result.
+export async function executeHarvestTool(harvestService: HarvestService, name: string, rawInput: unknown): Promise<ToolExecution> {
+  switch (name) {
+    case 'list_time_entries': {
+      const input = parseToolInput(name, listTimeEntriesInput, rawInput);
+      const entries = (await fetchEntries(harvestService, input))
+        .sort((a, b) => b.spent_date.localeCompare(a.spent_date));
+      return {
+        entries,
+        output: {
+          totalCount: entries.length,
+          totalHours: round2(entries.reduce((sum, entry) => sum + entry.hours, 0)),
+          truncated: entries.length > MAX_LISTED_ENTRIES,
+          entries: entries.slice(0, MAX_LISTED_ENTRIES).map(entry => ({
+            date: entry.spent_date,
+            user: entry.user?.name,
+            client: entry.client?.name,
+            project: entry.project?.name,
+            task: entry.task?.name,
+            hours: entry.hours,
+            billable: entry.billable,
+            notes: entry.notes
+          }))
+        }
+      };
+    }
+
+    case 'aggregate_time_entries': {
+      const input = parseToolInput(name, aggregateTimeEntriesInput, rawInput);
+      const entries = await fetchEntries(harvestService, input);
+      return {
+        entries,
+        output: {
+          groupBy: input.group_by,
+          totalHours: round2(entries.reduce((sum, entry) => sum + entry.hours, 0)),
+          groups: aggregateEntries(entries, input.group_by, harvestService.dateSettings.weekStartDay)
+        }
+      };
+    }
+
+    case 'compare_periods': {
+      const input = parseToolInput(name, comparePeriodsInput, rawInput);
+      const filters = {
+        project_name: input.project_name,
+        client_name: input.client_name,
+        user_name: input.user_name,
+        billable: input.billable
+      };
+      const current = aggregateEntries(
+        await fetchEntries(harvestService, { ...filters, from: input.current_from, to: input.current_to }),
+        input.group_by,
+        harvestService.dateSettings.weekStartDay
+      );
+      const previous = aggregateEntries(
+        await fetchEntries(harvestService, { ...filters, from: input.previous_from, to: input.previous_to }),
+        input.group_by,
+        harvestService.dateSettings.weekStartDay
+      );
+
+      const keys = Array.from(new Set([...current.map(g => g.key), ...previous.map(g => g.key)]));
+      const rows = keys.map(key => {
+        const currentHours = current.find(g => g.key === key)?.hours || 0;
+        const previousHours = previous.find(g => g.key === key)?.hours || 0;
+        return {
+          key,
+          currentHours,
+          previousHours,
+          change: round2(currentHours - previousHours),
+          changePercent: previousHours > 0 ? round2((currentHours - previousHours) / previousHours * 100) : null
+        };
+      }).sort((a, b) => b.change - a.change);
+
+      return { output: { groupBy: input.group_by, rows } };
+    }
+
+    case 'lookup_budgets': {
+      const input = parseToolInput(name, lookupBudgetsInput, rawInput);
+      const today = todayIn(harvestService.dateSettings.timezone);
+      const month = input.month || today.slice(0, 7);
+      const report = await buildMonthlyReport(harvestService, { month, today });
+
+      // The day-by-day series is only for charts; keep the projection itself
+      const withoutSeries = (row: ProjectReportRow) => {
+        if (!row.forecast) return row;
+        const { series, ...forecast } = row.forecast;
+        return { ...row, forecast };
+      };
+      return {
+        output: {
+          ...report,
+          projects: report.projects.map(withoutSeries),
+          bhsProjects: report.bhsProjects.map(withoutSeries)
+        }
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
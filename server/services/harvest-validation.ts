@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// A difference between what Harvest sent and the schemas in @shared/harvest.
+// Records are still used as sent; the warning says what to update.
+export interface HarvestSchemaWarning {
+  resource: string;
+  // invalid_field: a known field is missing or has another type
+  // unexpected_field: Harvest sent a field the schema doesn't know
+  kind: 'invalid_field' | 'unexpected_field';
+  path: string;
+  message: string;
+  // Records affected in the response that raised it, and a few of their ids
+  count: number;
+  sampleIds: unknown[];
+  lastSeenAt: string;
+}
+
+const MAX_SAMPLE_IDS = 5;
+const MAX_WARNINGS_PER_ACCOUNT = 50;
+
+// Latest warning per resource, kind and path for each Harvest account. Module
+// level like the rate limiter, since routes create a fresh service per request.
+const warningsByAccount = new Map<string, Map<string, HarvestSchemaWarning>>();
+
+export function getSchemaWarnings(accountId: string): HarvestSchemaWarning[] {
+  return Array.from(warningsByAccount.get(accountId)?.values() || [])
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+function recordWarnings(accountId: string, warnings: HarvestSchemaWarning[]) {
+  const known = warningsByAccount.get(accountId) || new Map<string, HarvestSchemaWarning>();
+
+  for (const warning of warnings) {
+    const key = `${warning.resource}:${warning.kind}:${warning.path}`;
+    // Log each kind of drift once per process, not on every request
+    if (!known.has(key)) {
+      console.warn('Harvest schema drift', JSON.stringify(warning));
+    }
+    known.delete(key);
+    known.set(key, warning);
+  }
+
+  // Keep the most recent ones (Maps iterate in insertion order)
+  while (known.size > MAX_WARNINGS_PER_ACCOUNT) {
+    known.delete(known.keys().next().value!);
+  }
+  warningsByAccount.set(accountId, known);
+}
+
+// Check records against a schema. Every record is returned, valid or not:
+// dropping entries because Harvest added or retyped a field would quietly
+// change reports, so drift is reported instead.
+export function validateHarvestRecords<T extends z.AnyZodObject>(
+  accountId: string,
+  resource: string,
+  schema: T,
+  records: unknown[]
+): z.infer<T>[] {
+  const knownFields = new Set(Object.keys(schema.shape));
+  const found = new Map<string, HarvestSchemaWarning>();
+  const now = new Date().toISOString();
+
+  const note = (kind: HarvestSchemaWarning['kind'], path: string, message: string, id: unknown) => {
+    const key = `${kind}:${path}`;
+    const warning = found.get(key) || { resource, kind, path, message, count: 0, sampleIds: [], lastSeenAt: now };
+    warning.count++;
+    if (warning.sampleIds.length < MAX_SAMPLE_IDS) warning.sampleIds.push(id);
+    found.set(key, warning);
+  };
+
+  for (const record of records) {
+    const id = (record as { id?: unknown } | null)?.id;
+    const result = schema.safeParse(record);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        note('invalid_field', issue.path.join('.') || '(record)', issue.message, id);
+      }
+    }
+    if (record && typeof record === 'object') {
+      for (const field of Object.keys(record)) {
+        if (!knownFields.has(field)) {
+          note('unexpected_field', field, `Unknown field "${field}"`, id);
+        }
+      }
+    }
+  }
+
+  if (found.size > 0) {
+    recordWarnings(accountId, Array.from(found.values()));
+  }
+  return records as z.infer<T>[];
+}
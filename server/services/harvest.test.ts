@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { HarvestService } from './harvest';
+import { buildTimeEntries, createMockHarvestApp, type MockHarvestOptions } from '../dev/mock-harvest';
+
+// Paging through the mock Harvest API (server/dev/mock-harvest.ts), which
+// serves small pages so every list spans several of them
+
+interface RunningMock {
+  baseUrl: string;
+  // Page numbers requested per path, in order
+  pagesRequested: (path: string) => number[];
+}
+
+const servers: Server[] = [];
+
+async function startMock(options: MockHarvestOptions): Promise<RunningMock> {
+  const requests: Array<{ path: string; page: number }> = [];
+  const app = express();
+  app.use((req, _res, next) => {
+    requests.push({ path: req.path, page: Number(req.query.page || 1) });
+    next();
+  });
+  app.use(createMockHarvestApp(options));
+
+  const server = await new Promise<Server>(resolve => {
+    const started = app.listen(0, '127.0.0.1', () => resolve(started));
+  });
+  servers.push(server);
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v2`,
+    pagesRequested: path => requests.filter(request => request.path === path).map(request => request.page)
+  };
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+let accounts = 0;
+// A fresh account id per service, so the client-side rate limiter starts empty
+const serviceFor = (mock: RunningMock) =>
+  new HarvestService({ accountId: `test-${++accounts}`, accessToken: 'token', baseUrl: mock.baseUrl, source: 'api' });
+
+describe('HarvestService paging', () => {
+  it('follows links.next until the last page', async () => {
+    const mock = await startMock({ pageSize: 2 });
+
+    const clients = await serviceFor(mock).getClients();
+
+    expect(clients.map(client => client.name)).toEqual([
+      'Educational Data Services, Inc.',
+      'CloudSee',
+      'Vision AST',
+      'Atlantic British Ltd.',
+      'eRep, Inc.',
+      'Icon Media, Inc.'
+    ]);
+    expect(mock.pagesRequested('/v2/clients')).toEqual([1, 2, 3]);
+  });
+
+  it('keeps a short last page', async () => {
+    const mock = await startMock({ pageSize: 2 });
+
+    const projects = await serviceFor(mock).getProjects();
+
+    expect(projects).toHaveLength(7);
+    expect(new Set(projects.map(project => project.id)).size).toBe(7);
+    expect(mock.pagesRequested('/v2/projects')).toEqual([1, 2, 3, 4]);
+  });
+
+  it('combines many pages of time entries without gaps or repeats', async () => {
+    const mock = await startMock({ pageSize: 25 });
+    const expected = buildTimeEntries();
+
+    const entries = await serviceFor(mock).getUpdatedRecords<{ id: number }>('time_entries');
+
+    expect(entries).toHaveLength(expected.length);
+    expect(entries.map(entry => entry.id)).toEqual(expected.map(entry => entry.id));
+    expect(mock.pagesRequested('/v2/time_entries')).toHaveLength(Math.ceil(expected.length / 25));
+  });
+
+  it('carries query parameters onto later pages', async () => {
+    const mock = await startMock({ pageSize: 25 });
+    const expected = buildTimeEntries().filter(entry => entry.user.id === 1002);
+
+    const entries = await serviceFor(mock).getTimeEntries({ userId: 1002 });
+
+    expect(entries.map(entry => entry.id)).toEqual(expected.map(entry => entry.id));
+    expect(mock.pagesRequested('/v2/time_entries')).toHaveLength(Math.ceil(expected.length / 25));
+  });
+
+  it('pages by total_pages when responses have no links', async () => {
+    const mock = await startMock({ pageSize: 2, links: false });
+
+    const clients = await serviceFor(mock).getClients();
+
+    expect(clients).toHaveLength(6);
+    expect(mock.pagesRequested('/v2/clients')).toEqual([1, 2, 3]);
+  });
+
+  it('makes one request when everything fits on a page', async () => {
+    const mock = await startMock({ pageSize: 100 });
+
+    const clients = await serviceFor(mock).getClients();
+
+    expect(clients).toHaveLength(6);
+    expect(mock.pagesRequested('/v2/clients')).toEqual([1]);
+  });
+});
@@ -1,18 +1,199 @@
-import axios from 'axios';
-import { HarvestTimeEntry, HarvestProject, HarvestClient, ParsedQuery } from '@shared/schema';
+import axios, { AxiosError } from 'axios';
+import { z } from 'zod';
+import {
+  HarvestTimeEntry,
+  HarvestProject,
+  HarvestClient,
+  HarvestUser,
+  HarvestResource,
+  ParsedQuery,
+  TimeEntrySummary,
+  harvestTimeEntrySchema,
+  harvestProjectSchema,
+  harvestClientSchema,
+  harvestUserSchema,
+  type HarvestConfig as StoredHarvestConfig
+} from '@shared/schema';
+import { storage } from '../storage';
+import { validateHarvestRecords } from './harvest-validation';
+import { DEFAULT_DATE_RANGE_SETTINGS, type DateRangeSettings } from './date-range';
 
 const HARVEST_BASE_URL = 'https://api.harvestapp.com/v2';
 
 interface HarvestConfig {
   accountId: string;
   accessToken: string;
+  baseUrl?: string;
+  // 'cache' (default) reads from the local mirror once it has been synced;
+  // 'api' always goes to Harvest (used by the sync worker itself)
+  source?: 'cache' | 'api';
+  // The signed-in user and their active harvest_config. Reads use that
+  // user's mirror only while it was filled with this config's token; without
+  // it every read goes to Harvest.
+  mirror?: { ownerId: string; configId: string };
+  // The account's timezone, week start and fiscal year, for relative dates
+  dateSettings?: DateRangeSettings;
+}
+
+// Shape shared by every Harvest v2 list endpoint
+interface HarvestPage {
+  per_page: number;
+  total_pages: number;
+  total_entries: number;
+  page: number;
+  links?: {
+    next?: string | null;
+  };
+  [key: string]: unknown;
+}
+
+// What each synced resource's records should look like
+const RESOURCE_SCHEMAS: Record<HarvestResource, z.AnyZodObject> = {
+  time_entries: harvestTimeEntrySchema,
+  projects: harvestProjectSchema,
+  clients: harvestClientSchema,
+  users: harvestUserSchema
+};
+
+// Hard stop so a misbehaving API can't keep us paging forever
+const MAX_PAGES = 500;
+
+// Harvest allows 100 requests per 15 seconds per account
+const RATE_LIMIT_REQUESTS = 100;
+const RATE_LIMIT_WINDOW_MS = 15_000;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+
+// Errors thrown by HarvestService. `status` is the HTTP status our own API
+// should answer with, so routes can pass it straight through.
+export class HarvestApiError extends Error {
+  status: number;
+  harvestStatus?: number;
+
+  constructor(message: string, status: number, harvestStatus?: number) {
+    super(message);
+    this.name = 'HarvestApiError';
+    this.status = status;
+    this.harvestStatus = harvestStatus;
+  }
+}
+
+export class HarvestAuthError extends HarvestApiError {
+  constructor(message = 'Harvest rejected the API credentials', harvestStatus?: number) {
+    super(message, 401, harvestStatus);
+    this.name = 'HarvestAuthError';
+  }
+}
+
+export class HarvestNotFoundError extends HarvestApiError {
+  constructor(message = 'Harvest resource not found') {
+    super(message, 404, 404);
+    this.name = 'HarvestNotFoundError';
+  }
+}
+
+export class HarvestRateLimitError extends HarvestApiError {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`Harvest rate limit exceeded, retry in ${retryAfterSeconds}s`, 429, 429);
+    this.name = 'HarvestRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class HarvestUpstreamError extends HarvestApiError {
+  constructor(message = 'Harvest API is unavailable', harvestStatus?: number) {
+    super(message, 502, harvestStatus);
+    this.name = 'HarvestUpstreamError';
+  }
+}
+
+// Status code to answer with for an error coming out of HarvestService
+export function getHarvestErrorStatus(error: unknown): number {
+  return error instanceof HarvestApiError ? error.status : 500;
+}
+
+function toHarvestError(error: unknown): HarvestApiError {
+  if (error instanceof HarvestApiError) return error;
+
+  const axiosError = error as AxiosError<{ error_description?: string; message?: string }>;
+  const status = axiosError.response?.status;
+  const detail = axiosError.response?.data?.error_description || axiosError.response?.data?.message;
+
+  if (status === 401 || status === 403) return new HarvestAuthError(detail, status);
+  if (status === 404) return new HarvestNotFoundError(detail);
+  if (status === 429) return new HarvestRateLimitError(getRetryAfterSeconds(axiosError));
+  if (status && status < 500) return new HarvestApiError(detail || `Harvest API returned ${status}`, 502, status);
+  return new HarvestUpstreamError(detail || axiosError.message, status);
+}
+
+function getRetryAfterSeconds(error: AxiosError): number {
+  const header = error.response?.headers?.['retry-after'];
+  const seconds = parseInt(header as string, 10);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : RATE_LIMIT_WINDOW_MS / 1000;
+}
+
+function isRetryable(error: AxiosError): boolean {
+  const status = error.response?.status;
+  // No response at all means a network error or timeout
+  return !status || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Request timestamps per account, shared by every HarvestService instance
+// since routes create a fresh service per request
+const requestLog = new Map<string, number[]>();
+
+async function waitForRequestSlot(accountId: string) {
+  const now = Date.now();
+  const recent = (requestLog.get(accountId) || []).filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+
+  if (recent.length >= RATE_LIMIT_REQUESTS) {
+    const waitMs = RATE_LIMIT_WINDOW_MS - (now - recent[0]);
+    console.log(`Harvest request budget used up, waiting ${waitMs}ms`);
+    requestLog.set(accountId, recent);
+    await sleep(waitMs);
+    return waitForRequestSlot(accountId);
+  }
+
+  recent.push(now);
+  requestLog.set(accountId, recent);
+}
+
+// The mirror a service built from a saved config reads: its owner's, filled
+// with that config's token. Configs saved before sign-in have no owner.
+export function mirrorFor(config: Pick<StoredHarvestConfig, 'id' | 'userId'>) {
+  return config.userId ? { ownerId: config.userId, configId: config.id } : undefined;
 }
 
 export class HarvestService {
   private config: HarvestConfig;
+  private baseUrl: string;
+  private source: 'cache' | 'api';
+  readonly dateSettings: DateRangeSettings;
 
   constructor(config: HarvestConfig) {
     this.config = config;
+    // HARVEST_BASE_URL lets us point at the local mock server (npm run mock:harvest)
+    this.baseUrl = config.baseUrl || process.env.HARVEST_BASE_URL || HARVEST_BASE_URL;
+    this.source = config.source || 'cache';
+    this.dateSettings = config.dateSettings || DEFAULT_DATE_RANGE_SETTINGS;
+  }
+
+  // The mirror is only trusted once the sync worker has completed a sync
+  // of that resource with this user's current credentials
+  private async canUseMirror(resource: HarvestResource): Promise<boolean> {
+    const mirror = this.config.mirror;
+    if (this.source === 'api' || !mirror) return false;
+    try {
+      const state = await storage.getSyncState(mirror.ownerId, resource);
+      return !!state?.lastSyncedAt && state.configId === mirror.configId;
+    } catch (error) {
+      console.error(`Could not read sync state for ${resource}, using Harvest API:`, error);
+      return false;
+    }
   }
 
   private getHeaders() {
@@ -24,12 +205,70 @@ export class HarvestService {
     };
   }
 
+  // Every Harvest call goes through here: throttles to the documented rate
+  // limit, honours Retry-After on 429, backs off exponentially on 5xx and
+  // network errors, and converts failures into HarvestApiError subclasses
+  private async request<T>(url: string, params?: Record<string, any>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await waitForRequestSlot(this.config.accountId);
+
+      try {
+        const response = await axios.get<T>(url, {
+          headers: this.getHeaders(),
+          params
+        });
+        return response.data;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        if (attempt >= MAX_RETRIES || !isRetryable(axiosError)) {
+          throw toHarvestError(error);
+        }
+
+        const delayMs = axiosError.response?.status === 429
+          ? getRetryAfterSeconds(axiosError) * 1000
+          : BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS;
+        console.warn(`Harvest request to ${url} failed (${axiosError.response?.status || axiosError.code}), retrying in ${Math.round(delayMs)}ms`);
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  // Follow links.next until Harvest runs out of pages, combining every page's
+  // `key` array into a single list checked against `schema`
+  private async fetchAllPages<T extends z.AnyZodObject>(path: string, key: string, schema: T, params: Record<string, any> = {}): Promise<z.infer<T>[]> {
+    const results: unknown[] = [];
+    let url: string | null = `${this.baseUrl}${path}`;
+    let requestParams: Record<string, any> | undefined = { per_page: 2000, ...params };
+    let pageCount = 0;
+
+    while (url && pageCount < MAX_PAGES) {
+      const page: HarvestPage = await this.request<HarvestPage>(url, requestParams);
+      results.push(...((page[key] as unknown[] | undefined) || []));
+      pageCount++;
+
+      if (page.links?.next) {
+        // links.next already carries every query parameter we sent
+        url = page.links.next;
+        requestParams = undefined;
+      } else if (page.total_pages && page.page < page.total_pages) {
+        url = `${this.baseUrl}${path}`;
+        requestParams = { per_page: 2000, ...params, page: page.page + 1 };
+      } else {
+        url = null;
+      }
+    }
+
+    if (url) {
+      console.warn(`Stopped paging ${path} after ${MAX_PAGES} pages`);
+    }
+
+    return validateHarvestRecords(this.config.accountId, key, schema, results);
+  }
+
   async testConnection(): Promise<boolean> {
     try {
-      const response = await axios.get(`${HARVEST_BASE_URL}/users/me`, {
-        headers: this.getHeaders()
-      });
-      return response.status === 200;
+      await this.request(`${this.baseUrl}/users/me`);
+      return true;
     } catch (error) {
       console.error('Harvest connection test failed:', error);
       return false;
@@ -38,93 +277,162 @@ export class HarvestService {
 
   async getTimeEntries(params: ParsedQuery['parameters']): Promise<HarvestTimeEntry[]> {
     try {
-      const queryParams = new URLSearchParams();
+      const queryParams: Record<string, string> = {};
       
       if (params.dateRange?.from) {
-        queryParams.append('from', params.dateRange.from);
+        queryParams.from = params.dateRange.from;
       }
       if (params.dateRange?.to) {
-        queryParams.append('to', params.dateRange.to);
+        queryParams.to = params.dateRange.to;
       }
-      if (params.userId) {
-        queryParams.append('user_id', params.userId.toString());
+      // A person named in the question is looked up so Harvest filters by
+      // user_id; names that don't pick out one user fall back to matching below
+      const userName = params.filters?.userName || params.filters?.user;
+      const userId = params.userId || (userName ? await this.resolveUserId(String(userName)) : null);
+      if (userId) {
+        queryParams.user_id = userId.toString();
       }
       if (params.projectId) {
-        queryParams.append('project_id', params.projectId.toString());
+        queryParams.project_id = params.projectId.toString();
       }
       if (params.clientId) {
-        queryParams.append('client_id', params.clientId.toString());
+        queryParams.client_id = params.clientId.toString();
       }
 
-      const response = await axios.get(`${HARVEST_BASE_URL}/time_entries?${queryParams.toString()}`, {
-        headers: this.getHeaders()
-      });
-
-      let entries = response.data.time_entries || [];
+      let entries = await this.canUseMirror('time_entries')
+        ? await storage.getCachedTimeEntries(this.config.mirror!.ownerId, {
+            from: params.dateRange?.from,
+            to: params.dateRange?.to,
+            userId: userId || undefined,
+            projectId: params.projectId,
+            clientId: params.clientId
+          })
+        : await this.fetchAllPages('/time_entries', 'time_entries', harvestTimeEntrySchema, queryParams);
       
-      // Apply client-side filtering for user names if specified
-      if (params.filters && (params.filters.userName || params.filters.user)) {
-        const searchName = (params.filters.userName || params.filters.user).toLowerCase();
+      if (userName && !userId) {
+        const searchName = String(userName).toLowerCase();
         entries = entries.filter(entry => {
           const userName = entry.user?.name?.toLowerCase() || '';
           return userName.includes(searchName);
         });
       }
 
+      // Same for project / client names, so follow-ups like "only CloudSee"
+      // can narrow a query without knowing Harvest ids
+      if (params.filters && (params.filters.projectName || params.filters.project)) {
+        const searchName = String(params.filters.projectName || params.filters.project).toLowerCase();
+        entries = entries.filter(entry => (entry.project?.name?.toLowerCase() || '').includes(searchName));
+      }
+      if (params.filters && (params.filters.clientName || params.filters.client)) {
+        const searchName = String(params.filters.clientName || params.filters.client).toLowerCase();
+        entries = entries.filter(entry => (entry.client?.name?.toLowerCase() || '').includes(searchName));
+      }
+      if (typeof params.filters?.billable === 'boolean') {
+        entries = entries.filter(entry => entry.billable === params.filters!.billable);
+      }
+
       return entries;
     } catch (error) {
       console.error('Error fetching time entries:', error);
-      throw new Error('Failed to fetch time entries from Harvest API');
+      throw error;
     }
   }
 
   async getProjects(): Promise<HarvestProject[]> {
     try {
-      // Get all projects including archived ones and use pagination
-      const response = await axios.get(`${HARVEST_BASE_URL}/projects`, {
-        headers: this.getHeaders(),
-        params: {
-          per_page: 100, // Get more results per page
-          is_active: true // Only get active projects to ensure budget data
-        }
-      });
+      if (await this.canUseMirror('projects')) {
+        return await storage.getCachedProjects(this.config.mirror!.ownerId, true);
+      }
 
-      const projects = response.data.projects || [];
+      const projects = await this.fetchAllPages('/projects', 'projects', harvestProjectSchema, {
+        is_active: true // Only get active projects to ensure budget data
+      });
       console.log(`Harvest API returned ${projects.length} projects`);
       return projects;
     } catch (error) {
       console.error('Error fetching projects:', error);
-      throw new Error('Failed to fetch projects from Harvest API');
+      throw error;
     }
   }
 
   async getClients(): Promise<HarvestClient[]> {
     try {
-      const response = await axios.get(`${HARVEST_BASE_URL}/clients`, {
-        headers: this.getHeaders()
-      });
+      if (await this.canUseMirror('clients')) {
+        return await storage.getCachedClients(this.config.mirror!.ownerId);
+      }
 
-      return response.data.clients || [];
+      return await this.fetchAllPages('/clients', 'clients', harvestClientSchema);
     } catch (error) {
       console.error('Error fetching clients:', error);
-      throw new Error('Failed to fetch clients from Harvest API');
+      throw error;
     }
   }
 
-  async getCurrentUser() {
+  async getUsers(activeOnly = true): Promise<HarvestUser[]> {
     try {
-      const response = await axios.get(`${HARVEST_BASE_URL}/users/me`, {
-        headers: this.getHeaders()
-      });
+      if (await this.canUseMirror('users')) {
+        const users = await storage.getCachedHarvestUsers(this.config.mirror!.ownerId);
+        return activeOnly ? users.filter(user => user.is_active) : users;
+      }
 
-      return response.data;
+      return await this.fetchAllPages('/users', 'users', harvestUserSchema, activeOnly ? { is_active: true } : {});
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      throw error;
+    }
+  }
+
+  // The Harvest user a name refers to: the one whose full name, then first or
+  // last name, equals it, or else the one whose name contains it. Null when
+  // nobody or several people match, or the token can't list users (Harvest
+  // only lets administrators and managers do that).
+  async resolveUserId(name: string): Promise<number | null> {
+    const search = name.trim().toLowerCase();
+    if (!search) return null;
+
+    let users: HarvestUser[];
+    try {
+      // Include archived people so older entries can still be found
+      users = await this.getUsers(false);
+    } catch (error) {
+      console.warn(`Could not list Harvest users to resolve "${name}", matching entries by name instead`);
+      return null;
+    }
+
+    const fullName = (user: HarvestUser) => `${user.first_name} ${user.last_name}`.toLowerCase();
+    const tiers = [
+      (user: HarvestUser) => fullName(user) === search,
+      (user: HarvestUser) => user.first_name.toLowerCase() === search || user.last_name.toLowerCase() === search,
+      (user: HarvestUser) => fullName(user).includes(search)
+    ];
+    for (const matches of tiers) {
+      const found = users.filter(matches);
+      if (found.length > 0) return found.length === 1 ? found[0].id : null;
+    }
+    return null;
+  }
+
+  // Every record of a resource changed since `updatedSince` (ISO 8601), or
+  // all of them, straight from the API. Used by the sync worker.
+  async getUpdatedRecords<T>(resource: HarvestResource, updatedSince?: string): Promise<T[]> {
+    const params: Record<string, string> = {};
+    if (updatedSince) {
+      params.updated_since = updatedSince;
+    }
+    return await this.fetchAllPages(`/${resource}`, resource, RESOURCE_SCHEMAS[resource], params) as T[];
+  }
+
+  async getCurrentUser(): Promise<HarvestUser> {
+    try {
+      const user = await this.request<unknown>(`${this.baseUrl}/users/me`);
+      return validateHarvestRecords(this.config.accountId, 'users/me', harvestUserSchema, [user])[0];
     } catch (error) {
       console.error('Error fetching current user:', error);
-      throw new Error('Failed to fetch user information from Harvest API');
+      throw error;
     }
   }
 
-  generateSummary(data: any[], queryType: string, summaryType?: string) {
+  generateSummary(data: HarvestTimeEntry[], queryType: string, summaryType?: string): TimeEntrySummary | null {
     if (queryType === 'time_entries') {
       const totalHours = data.reduce((sum, entry) => sum + (entry.hours || 0), 0);
       const billableHours = data.filter(entry => entry.billable).reduce((sum, entry) => sum + (entry.hours || 0), 0);
@@ -146,50 +454,3 @@ export class HarvestService {
     return null;
   }
 }
-
-export function getDateRange(period: string): { from: string; to: string } {
-  const today = new Date();
-  const todayStr = today.toISOString().split('T')[0];
-  
-  switch (period) {
-    case 'today':
-      return { from: todayStr, to: todayStr };
-    
-    case 'yesterday':
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
-      return { from: yesterdayStr, to: yesterdayStr };
-    
-    case 'this_week':
-      const startOfWeek = new Date(today);
-      startOfWeek.setDate(today.getDate() - today.getDay());
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
-      return { 
-        from: startOfWeek.toISOString().split('T')[0], 
-        to: endOfWeek.toISOString().split('T')[0] 
-      };
-    
-    case 'last_week':
-      const lastWeekStart = new Date(today);
-      lastWeekStart.setDate(today.getDate() - today.getDay() - 7);
-      const lastWeekEnd = new Date(lastWeekStart);
-      lastWeekEnd.setDate(lastWeekStart.getDate() + 6);
-      return { 
-        from: lastWeekStart.toISOString().split('T')[0], 
-        to: lastWeekEnd.toISOString().split('T')[0] 
-      };
-    
-    case 'this_month':
-      const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-      const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-      return { 
-        from: startOfMonth.toISOString().split('T')[0], 
-        to: endOfMonth.toISOString().split('T')[0] 
-      };
-    
-    default:
-      return { from: todayStr, to: todayStr };
-  }
-}
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { InsertLlmCall } from '@shared/schema';
+import { storage } from '../storage';
+import { LLMCallError, type CompletionRequest, type CompletionResult, type LLMProvider } from './llm';
+import { estimateCost, LLMUsageTracker } from './llm-usage';
+
+const request: CompletionRequest = {
+  // 400 characters of prompt, about 100 tokens with the messages
+  system: 'x'.repeat(360),
+  messages: [{ role: 'user', content: 'How many hours?' }],
+  maxTokens: 1000,
+  temperature: 0,
+  purpose: 'agent'
+};
+
+function provider(model: string, complete: (request: CompletionRequest) => Promise<CompletionResult>): LLMProvider {
+  return { name: 'anthropic', model, complete };
+}
+
+// Run one call through a tracker and return what it saved
+async function track(inner: LLMProvider, callRequest: CompletionRequest = request): Promise<InsertLlmCall> {
+  const saved: InsertLlmCall[] = [];
+  vi.spyOn(storage, 'createLlmCalls').mockImplementation(async calls => { saved.push(...calls); });
+  const tracker = new LLMUsageTracker('user-1', 'conversation-1');
+  const [tracked] = tracker.wrap([inner]);
+  await tracked.complete(callRequest).catch(() => undefined);
+  await tracker.save();
+  expect(saved).toHaveLength(1);
+  return saved[0];
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('estimateCost', () => {
+  it.each([
+    ['claude-sonnet-4-20250514', { inputTokens: 1_000_000, outputTokens: 0 }, 3],
+    ['claude-sonnet-4-20250514', { inputTokens: 1000, outputTokens: 1000 }, 0.018],
+    ['gpt-4o-mini', { inputTokens: 2000, outputTokens: 500 }, 0.0006],
+    // The longest matching prefix wins
+    ['gpt-4.1-mini', { inputTokens: 1_000_000, outputTokens: 0 }, 0.4],
+    ['some-new-model', { inputTokens: 1000, outputTokens: 1000 }, null]
+  ])('%s, %o', (model, usage, cost) => {
+    expect(estimateCost(model, usage)).toBe(cost);
+  });
+});
+
+describe('usage tracking', () => {
+  it('records a successful call', async () => {
+    const call = await track(provider('claude-sonnet-4-20250514', async () => ({
+      text: 'Done', toolCalls: [], model: 'claude-sonnet-4-20250514', usage: { inputTokens: 1000, outputTokens: 1000 }
+    })));
+
+    expect(call).toMatchObject({ status: 'ok', inputTokens: 1000, outputTokens: 1000, costUsd: 0.018, purpose: 'agent' });
+  });
+
+  it('records the usage a failed call reported', async () => {
+    const call = await track(provider('claude-sonnet-4-20250514', async () => {
+      throw new LLMCallError(new Error('Overloaded'), { inputTokens: 1000, outputTokens: 1000 });
+    }));
+
+    expect(call).toMatchObject({ status: 'error', error: 'Overloaded', inputTokens: 1000, outputTokens: 1000, costUsd: 0.018 });
+  });
+
+  it('estimates a failed call without reported usage from its input', async () => {
+    const call = await track(provider('claude-sonnet-4-20250514', async () => {
+      throw new Error('socket hang up');
+    }));
+
+    expect(call.inputTokens).toBeGreaterThanOrEqual(100);
+    expect(call.outputTokens).toBe(0);
+    expect(call.costUsd).toBe(estimateCost('claude-sonnet-4-20250514', { inputTokens: call.inputTokens!, outputTokens: 0 }));
+    expect(call.costUsd).toBeGreaterThan(0);
+  });
+
+  it('counts text streamed before a call was cancelled', async () => {
+    const call = await track(provider('claude-sonnet-4-20250514', async ({ onText }) => {
+      onText?.('y'.repeat(400));
+      throw new LLMCallError(new Error('Request was aborted.'), { inputTokens: 1000, outputTokens: 1 });
+    }), { ...request, onText: () => undefined });
+
+    expect(call).toMatchObject({ inputTokens: 1000, outputTokens: 100 });
+  });
+
+  it('leaves the cost of an unpriced model unknown', async () => {
+    const call = await track(provider('some-new-model', async () => {
+      throw new Error('socket hang up');
+    }));
+
+    expect(call.costUsd).toBeNull();
+  });
+});
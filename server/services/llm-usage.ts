@@ -0,0 +1,247 @@
+import type { InsertLlmCall, LlmCall } from '@shared/schema';
+import { storage } from '../storage';
+import { getLLMProviders, LLMCallError, type CompletionRequest, type CompletionResult, type LLMProvider } from './llm';
+
+// Usage, latency and cost of every model call the chat makes, the admin
+// report built from them, and the monthly spend cap. Costs are estimates from
+// list prices; models without a price here are logged with a null cost and
+// don't count towards the cap.
+
+// USD per million tokens, matched against the start of the model name
+const MODEL_PRICES: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 }
+].sort((a, b) => b.prefix.length - a.prefix.length);
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Estimated cost of one call in USD, or null for a model without a price
+export function estimateCost(model: string, usage: CompletionResult['usage']): number | null {
+  const price = MODEL_PRICES.find(entry => model.startsWith(entry.prefix));
+  if (!price) return null;
+  return round((usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000, 6);
+}
+
+// Rough token count for text whose usage the provider never reported, at
+// about four characters a token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function estimateInputTokens(request: CompletionRequest): number {
+  return estimateTokens(request.system + JSON.stringify(request.messages) + (request.tools ? JSON.stringify(request.tools) : ''));
+}
+
+// LLM_MONTHLY_BUDGET_USD, or null when spending isn't capped
+export function getMonthlyBudget(): number | null {
+  const configured = parseFloat(process.env.LLM_MONTHLY_BUDGET_USD || '');
+  return configured > 0 ? configured : null;
+}
+
+// The cap applies to calendar months in UTC
+export function startOfMonthUtc(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// Passes calls through to a provider and reports how each one went
+class TrackedProvider implements LLMProvider {
+  constructor(private provider: LLMProvider, private record: (call: InsertLlmCall) => void) {}
+
+  get name() { return this.provider.name; }
+  get model() { return this.provider.model; }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const started = Date.now();
+    const base = { provider: this.provider.name, purpose: request.purpose ?? 'agent', createdAt: new Date(started) };
+    // Streamed text, to estimate the output of a call cut short
+    let streamed = '';
+    const onText = request.onText && ((delta: string) => {
+      streamed += delta;
+      request.onText!(delta);
+    });
+    try {
+      const result = await this.provider.complete({ ...request, onText });
+      this.record({
+        ...base,
+        model: result.model,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        latencyMs: Date.now() - started,
+        costUsd: estimateCost(result.model, result.usage),
+        status: 'ok'
+      });
+      return result;
+    } catch (error) {
+      // Failed and cancelled calls are still billed for what was sent and
+      // streamed. Use what the provider reported before it stopped, or
+      // estimate from the request and the streamed text.
+      const reported = error instanceof LLMCallError ? error.usage : null;
+      const usage = {
+        inputTokens: reported?.inputTokens || estimateInputTokens(request),
+        outputTokens: Math.max(reported?.outputTokens ?? 0, estimateTokens(streamed))
+      };
+      this.record({
+        ...base,
+        model: this.provider.model,
+        ...usage,
+        latencyMs: Date.now() - started,
+        costUsd: estimateCost(this.provider.model, usage),
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+}
+
+// Collects the calls made while answering one chat message and saves them
+// once the answer (and so the message they belong to) exists
+export class LLMUsageTracker {
+  private calls: InsertLlmCall[] = [];
+  // Filled in as the answer takes shape
+  queryType: string | null = null;
+  messageId: string | null = null;
+
+  constructor(private userId: string | null, private conversationId: string | null) {}
+
+  wrap(providers: LLMProvider[]): LLMProvider[] {
+    return providers.map(provider => new TrackedProvider(provider, call => this.calls.push(call)));
+  }
+
+  // Never throws: a failed write shouldn't fail the answer it describes
+  async save(): Promise<void> {
+    if (this.calls.length === 0) return;
+    const calls = this.calls.map(call => ({
+      ...call,
+      userId: this.userId,
+      conversationId: this.conversationId,
+      messageId: this.messageId,
+      queryType: this.queryType
+    }));
+    this.calls = [];
+    try {
+      await storage.createLlmCalls(calls);
+    } catch (error) {
+      console.error('Failed to record LLM usage:', error);
+    }
+  }
+}
+
+// The providers for one chat answer, tracked. Empty once this month's
+// estimated spend reaches LLM_MONTHLY_BUDGET_USD, so the chat answers with
+// the offline parser and summaries until the month turns over.
+export async function getChatProviders(tracker: LLMUsageTracker, now: Date = new Date()): Promise<LLMProvider[]> {
+  const providers = getLLMProviders();
+  const budget = getMonthlyBudget();
+  if (providers.length === 0 || budget === null) {
+    return tracker.wrap(providers);
+  }
+
+  const spent = await storage.getLlmCostSince(startOfMonthUtc(now));
+  if (spent >= budget) {
+    console.warn(`LLM spend this month is $${spent.toFixed(2)} of a $${budget.toFixed(2)} cap; answering offline`);
+    return [];
+  }
+  return tracker.wrap(providers);
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Calls whose model has no price, so their cost isn't in costUsd
+  unpricedCalls: number;
+  averageLatencyMs: number;
+}
+
+export interface LlmUsageReport {
+  from: string;
+  to: string;
+  totals: LlmUsageTotals;
+  daily: Array<LlmUsageTotals & { date: string }>;
+  byUser: Array<LlmUsageTotals & { userId: string | null; username: string | null }>;
+  byQueryType: Array<LlmUsageTotals & { queryType: string | null }>;
+  byModel: Array<LlmUsageTotals & { provider: string; model: string }>;
+  monthlyCap: {
+    budgetUsd: number | null;
+    spentUsd: number;
+    monthStart: string;
+    exceeded: boolean;
+  };
+}
+
+function totalCalls(calls: LlmCall[]): LlmUsageTotals {
+  const priced = calls.filter(call => call.costUsd !== null);
+  return {
+    calls: calls.length,
+    failedCalls: calls.filter(call => call.status === 'error').length,
+    inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+    outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+    costUsd: round(priced.reduce((sum, call) => sum + (call.costUsd ?? 0), 0), 4),
+    unpricedCalls: calls.length - priced.length,
+    averageLatencyMs: calls.length === 0 ? 0 : Math.round(calls.reduce((sum, call) => sum + call.latencyMs, 0) / calls.length)
+  };
+}
+
+function groupCalls<K>(calls: LlmCall[], keyOf: (call: LlmCall) => K): Array<{ key: K; totals: LlmUsageTotals }> {
+  const groups = new Map<string, { key: K; calls: LlmCall[] }>();
+  calls.forEach(call => {
+    const key = keyOf(call);
+    const id = JSON.stringify(key);
+    const group = groups.get(id) || { key, calls: [] };
+    group.calls.push(call);
+    groups.set(id, group);
+  });
+  return Array.from(groups.values()).map(group => ({ key: group.key, totals: totalCalls(group.calls) }));
+}
+
+// Most expensive first, then busiest
+const byCost = (a: { costUsd: number; calls: number }, b: { costUsd: number; calls: number }) =>
+  b.costUsd - a.costUsd || b.calls - a.calls;
+
+// Calls made from `from` up to (not including) `to`, totalled by UTC day,
+// user, query type and model
+export async function getLlmUsageReport(from: Date, to: Date, now: Date = new Date()): Promise<LlmUsageReport> {
+  const monthStart = startOfMonthUtc(now);
+  const [calls, spent] = await Promise.all([
+    storage.getLlmCalls(from, to),
+    storage.getLlmCostSince(monthStart)
+  ]);
+
+  const userIds = Array.from(new Set(calls.map(call => call.userId).filter((id): id is string => id !== null)));
+  const users = await Promise.all(userIds.map(id => storage.getUser(id)));
+  const usernames = new Map(users.filter(user => user !== undefined).map(user => [user!.id, user!.username]));
+
+  const budget = getMonthlyBudget();
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: totalCalls(calls),
+    daily: groupCalls(calls, call => call.createdAt.toISOString().slice(0, 10))
+      .map(({ key, totals }) => ({ date: key, ...totals }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    byUser: groupCalls(calls, call => call.userId)
+      .map(({ key, totals }) => ({ userId: key, username: key ? usernames.get(key) ?? null : null, ...totals }))
+      .sort(byCost),
+    byQueryType: groupCalls(calls, call => call.queryType)
+      .map(({ key, totals }) => ({ queryType: key, ...totals }))
+      .sort(byCost),
+    byModel: groupCalls(calls, call => [call.provider, call.model] as const)
+      .map(({ key, totals }) => ({ provider: key[0], model: key[1], ...totals }))
+      .sort(byCost),
+    monthlyCap: {
+      budgetUsd: budget,
+      spentUsd: round(spent, 4),
+      monthStart: monthStart.toISOString(),
+      exceeded: budget !== null && spent >= budget
+    }
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedQuery } from '@shared/schema';
+import type { DateRangeSettings } from './date-range';
+import { parseQueryOffline, summarizeDataOffline } from './offline';
+
+const settings: DateRangeSettings = { timezone: 'UTC', weekStartDay: 'monday', fiscalYearStartMonth: 1 };
+// A Wednesday
+const now = new Date('2026-03-11T12:00:00Z');
+
+const parse = (query: string, previous?: ParsedQuery | null) => parseQueryOffline(query, previous, settings, now);
+
+describe('parseQueryOffline', () => {
+  it.each<[string, ParsedQuery | null]>([
+    ['How many hours did I log this week?', {
+      queryType: 'summary',
+      parameters: { period: 'this_week', dateRange: { from: '2026-03-09', to: '2026-03-15' }, filters: {} }
+    }],
+    ['Show time entries for CloudSee last month', {
+      queryType: 'time_entries',
+      parameters: { period: 'last_month', dateRange: { from: '2026-02-01', to: '2026-02-28' }, filters: { projectName: 'CloudSee' } }
+    }],
+    ['hours for client Acme Corp this quarter', {
+      queryType: 'time_entries',
+      parameters: { period: 'this_quarter', dateRange: { from: '2026-01-01', to: '2026-03-31' }, filters: { clientName: 'Acme Corp' } }
+    }],
+    ['billable hours by project in March 2025', {
+      queryType: 'summary',
+      parameters: { dateRange: { from: '2025-03-01', to: '2025-03-31' }, filters: { billable: true } },
+      summaryType: 'project'
+    }],
+    ['non-billable time yesterday', {
+      queryType: 'time_entries',
+      parameters: { period: 'yesterday', dateRange: { from: '2026-03-10', to: '2026-03-10' }, filters: { billable: false } }
+    }],
+    ["Alice Smith's hours over the last 14 days", {
+      queryType: 'time_entries',
+      parameters: { period: 'last_14_days', dateRange: { from: '2026-02-26', to: '2026-03-11' }, filters: { userName: 'Alice Smith' } }
+    }],
+    ['daily hours week to date', {
+      queryType: 'summary',
+      parameters: { period: 'week_to_date', dateRange: { from: '2026-03-09', to: '2026-03-11' }, filters: {} },
+      summaryType: 'daily'
+    }]
+  ])('%s', (query, expected) => {
+    expect(parse(query)).toEqual(expected);
+  });
+
+  it.each([
+    ['a range written backwards', 'hours from 2026-03-05 to 2026-03-01', { from: '2026-03-01', to: '2026-03-05' }],
+    ['a single day', 'entries on 2026-03-02', { from: '2026-03-02', to: '2026-03-02' }],
+    ['a month later in the year, taken as last year', 'hours in december', { from: '2025-12-01', to: '2025-12-31' }],
+    ['a month earlier in the year, taken as this year', 'hours during february', { from: '2026-02-01', to: '2026-02-28' }]
+  ])('reads dates from %s', (_name, query, dateRange) => {
+    const parsed = parse(query);
+
+    expect(parsed?.parameters.dateRange).toEqual(dateRange);
+    expect(parsed?.parameters.period).toBeUndefined();
+  });
+
+  it('takes today in the account timezone', () => {
+    const evening = new Date('2026-03-11T03:00:00Z');
+
+    expect(parseQueryOffline('hours today', null, { ...settings, timezone: 'America/Chicago' }, evening)?.parameters.dateRange)
+      .toEqual({ from: '2026-03-10', to: '2026-03-10' });
+  });
+
+  it.each<[string, ParsedQuery['queryType']]>([
+    ['list all clients', 'clients'],
+    ['which projects are active', 'projects'],
+    ['who works on the team', 'users']
+  ])('lists without filters: %s', (query, queryType) => {
+    expect(parse(query)).toEqual({ queryType, parameters: { filters: {} } });
+  });
+
+  it('gives up on questions it does not recognize', () => {
+    expect(parse('hello there')).toBeNull();
+  });
+
+  describe('follow-ups', () => {
+    const previous = parse('Show time entries for CloudSee last month')!;
+
+    it('swaps the dates and keeps the filters', () => {
+      expect(parse('what about last week?', previous)).toEqual({
+        queryType: 'time_entries',
+        parameters: { period: 'last_week', dateRange: { from: '2026-03-02', to: '2026-03-08' }, filters: { projectName: 'CloudSee' } }
+      });
+    });
+
+    it('adds a filter and keeps the dates', () => {
+      expect(parse('now only billable ones', previous)?.parameters).toEqual({
+        ...previous.parameters,
+        filters: { projectName: 'CloudSee', billable: true }
+      });
+    });
+
+    it('replaces the project name', () => {
+      expect(parse('what about Vision AST', previous)?.parameters.filters).toEqual({ projectName: 'Vision AST' });
+    });
+
+    it('takes a clarification reply as a client filter', () => {
+      expect(parse('all work for CloudSee', previous)?.parameters.filters).toEqual({ clientName: 'CloudSee' });
+    });
+
+    it('keeps the summary type until a new one is asked for', () => {
+      const summary = parse('billable hours by project in March 2025')!;
+
+      expect(parse('and last month?', summary)?.summaryType).toBe('project');
+      expect(parse('and by client?', summary)?.summaryType).toBe('client');
+    });
+
+    it('starts over when the question is not a follow-up', () => {
+      expect(parse('list all clients', previous)).toEqual({ queryType: 'clients', parameters: { filters: {} } });
+    });
+  });
+});
+
+describe('summarizeDataOffline', () => {
+  const entry = (id: number, spentDate: string, hours: number, project: string, billable = true) =>
+    ({ id, spent_date: spentDate, hours, billable, project: { id, name: project } });
+
+  it('totals time entries', () => {
+    const entries = [
+      entry(1, '2026-03-02', 3, 'CloudSee'),
+      entry(2, '2026-03-03', 2.5, 'Vision AST', false),
+      entry(3, '2026-03-04', 1.25, 'CloudSee')
+    ];
+
+    expect(summarizeDataOffline(entries as any, 'time_entries')).toBe(
+      'Found 3 time entries from 2026-03-02 to 2026-03-04, 6.75 hours in total (4.25 billable). Most time went to CloudSee (4.25h), Vision AST (2.5h).'
+    );
+  });
+
+  it('lists names, shortening long lists', () => {
+    const clients = ['A', 'B', 'C', 'D', 'E', 'F', 'G'].map((name, id) => ({ id, name }));
+
+    expect(summarizeDataOffline(clients as any, 'clients')).toBe('Found 7 clients: A, B, C, D, E and 2 more.');
+  });
+
+  it.each([
+    ['time_entries', "I didn't find any time entries matching that."],
+    ['projects', "I didn't find any projects."]
+  ])('says when there is nothing for %s', (queryType, answer) => {
+    expect(summarizeDataOffline([], queryType)).toBe(answer);
+  });
+});
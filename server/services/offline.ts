@@ -0,0 +1,256 @@
+import { ParsedQuery, ChatData, HarvestTimeEntry, HarvestProject, HarvestClient, HarvestUser } from '@shared/schema';
+import { DateRangeSettings, DEFAULT_DATE_RANGE_SETTINGS, resolveDateRange, monthRange, todayIn } from './date-range';
+
+// Rule-based stand-ins for the model, used when no provider has an API key,
+// LLM_PROVIDER is "offline", or every provider failed. They cover the common
+// phrasings ("this week", "last month on CloudSee", "yesterday") and nothing
+// clever: anything else is left for the model.
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Checked in order, so longer phrases win over the shorter ones inside them
+const PERIOD_PATTERNS: Array<[RegExp, (match: RegExpExecArray) => string]> = [
+  [/\bfiscal year to date\b|\bfytd\b/i, () => 'fiscal_year_to_date'],
+  [/\b(?:last|previous) fiscal year\b/i, () => 'last_fiscal_year'],
+  [/\b(?:this|current) fiscal year\b/i, () => 'this_fiscal_year'],
+  [/\b(?:last|past|previous) (\d{1,3}) days\b/i, match => `last_${match[1]}_days`],
+  [/\b(?:last|past|previous) (\d{1,2}) weeks\b/i, match => `last_${Number(match[1]) * 7}_days`],
+  [/\bpast week\b/i, () => 'last_7_days'],
+  [/\b(?:last|previous) week\b/i, () => 'last_week'],
+  [/\b(?:this|current) week\b/i, () => 'this_week'],
+  [/\bweek to date\b|\bwtd\b/i, () => 'week_to_date'],
+  [/\b(?:last|previous) month\b/i, () => 'last_month'],
+  [/\b(?:this|current) month\b/i, () => 'this_month'],
+  [/\bmonth to date\b|\bmtd\b/i, () => 'month_to_date'],
+  [/\b(?:last|previous) quarter\b/i, () => 'last_quarter'],
+  [/\b(?:this|current) quarter\b/i, () => 'this_quarter'],
+  [/\bquarter to date\b|\bqtd\b/i, () => 'quarter_to_date'],
+  [/\b(?:last|previous) year\b/i, () => 'last_year'],
+  [/\b(?:this|current) year\b/i, () => 'this_year'],
+  [/\byear to date\b|\bytd\b/i, () => 'year_to_date'],
+  [/\byesterday(?:'s)?\b/i, () => 'yesterday'],
+  [/\btoday(?:'s)?\b/i, () => 'today']
+];
+
+const DATE_RANGE_PATTERN = /\b(\d{4}-\d{2}-\d{2})(?:\s*(?:to|through|until|and|-)\s*(\d{4}-\d{2}-\d{2}))?\b/i;
+// "in March", "for March 2025", "March 2025"; a bare "may" is too common a word
+const MONTH_PATTERN = new RegExp(`\\b(?:(?:in|for|during|of)\\s+(${MONTHS.join('|')})(?:\\s+(\\d{4}))?|(${MONTHS.join('|')})\\s+(\\d{4}))\\b`, 'i');
+
+const HOURS_WORDS = /\b(hours?|time|entries|entry|logged|tracked|worked|spent|billable|timesheets?)\b/i;
+const SUMMARY_WORDS = /\b(summary|summari[sz]e|totals?|how many|how much|breakdown)\b/i;
+const USERS_WORDS = /\b(team|people|users|staff|employees|who works)\b/i;
+// Also the replies to ./clarify's questions
+const FOLLOW_UP = /^\s*(and|what about|how about|now|only|just|same|all work for)\b/i;
+
+// Words after "on"/"for" that aren't a project name
+const NOT_A_NAME = /^(me|us|my|our|all|everyone|everybody|each|team|it|them|that|this|those|these)$/i;
+// Where a name after "on"/"for" ends
+const NAME_END = /\s+(?:in|during|since|from|by|and|with|grouped|per|this|last|please)\b|[,.?!;]|$/i;
+
+const clean = (name: string) => name.replace(/^(?:the)\s+/i, '').replace(/[\s'"]+$/, '').replace(/^['"]+/, '').trim();
+
+interface DetectedDates {
+  period?: string;
+  dateRange?: { from: string; to: string };
+  // The question with the date words taken out, so they aren't read as names
+  rest: string;
+}
+
+function detectDates(query: string, settings: DateRangeSettings, now: Date): DetectedDates {
+  for (const [pattern, toPeriod] of PERIOD_PATTERNS) {
+    const match = pattern.exec(query);
+    if (match) {
+      const period = toPeriod(match);
+      const dateRange = resolveDateRange(period, settings, now);
+      if (dateRange) {
+        return { period, dateRange, rest: query.replace(match[0], ' ') };
+      }
+    }
+  }
+
+  const dates = DATE_RANGE_PATTERN.exec(query);
+  if (dates) {
+    const [from, to] = [dates[1], dates[2] || dates[1]].sort();
+    return { dateRange: { from, to }, rest: query.replace(dates[0], ' ') };
+  }
+
+  const month = MONTH_PATTERN.exec(query);
+  if (month) {
+    const monthIndex = MONTHS.indexOf((month[1] || month[3]).toLowerCase());
+    const today = todayIn(settings.timezone, now);
+    // Without a year, the most recent such month (up to this one)
+    let year = Number(month[2] || month[4] || today.slice(0, 4));
+    if (!month[2] && !month[4] && monthIndex + 1 > Number(today.slice(5, 7))) {
+      year -= 1;
+    }
+    return { dateRange: monthRange(`${year}-${String(monthIndex + 1).padStart(2, '0')}`), rest: query.replace(month[0], ' ') };
+  }
+
+  return { rest: query };
+}
+
+function detectFilters(text: string, followUp: boolean): Record<string, unknown> {
+  const filters: Record<string, unknown> = {};
+
+  if (/\bnon[- ]?billable\b|\bunbillable\b|\bnot billable\b/i.test(text)) {
+    filters.billable = false;
+  } else if (/\bbillable\b/i.test(text)) {
+    filters.billable = true;
+  }
+
+  // Replies to "which did you mean?" (see ./clarify)
+  const onlyProject = /\bonly the (.+?) project\b/i.exec(text);
+  const allForClient = /\ball work for (.+?)(?:,|$)/i.exec(text);
+  if (onlyProject) {
+    filters.projectName = clean(onlyProject[1]);
+  } else if (allForClient) {
+    filters.clientName = clean(allForClient[1]);
+  } else {
+    const client = /\bclient\s+(\w.*?)(?=\s+(?:in|during|since|from|by|and|with|this|last)\b|[,.?!;]|$)/i.exec(text);
+    const named = new RegExp(`\\b(?:on|for${followUp ? '|about' : ''})\\s+(\\w.*?)(?=${NAME_END.source})`, 'i').exec(text);
+    if (client) {
+      filters.clientName = clean(client[1]);
+    } else if (named && !NOT_A_NAME.test(clean(named[1]))) {
+      const name = clean(named[1]);
+      const asClient = /^(.+?)\s+client$/i.exec(name);
+      if (asClient) {
+        filters.clientName = clean(asClient[1]);
+      } else {
+        filters.projectName = clean(name.replace(/\s+project$/i, ''));
+      }
+    }
+  }
+
+  // "Alice's hours", "logged by Alice Smith"
+  const possessive = /\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)'s\b/.exec(text);
+  const byPerson = /\bby\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)\b/.exec(text);
+  const person = possessive?.[1] || byPerson?.[1];
+  if (person && !/^(project|client|day|week|month|person|user|task)$/i.test(person)) {
+    filters.userName = person;
+  }
+
+  for (const key of ['projectName', 'clientName']) {
+    if (filters[key] === '') delete filters[key];
+  }
+  return filters;
+}
+
+function detectSummaryType(text: string): ParsedQuery['summaryType'] {
+  if (/\b(by|per) project\b/i.test(text)) return 'project';
+  if (/\b(by|per) client\b/i.test(text)) return 'client';
+  if (/\b(by|per) day\b|\bdaily\b/i.test(text)) return 'daily';
+  if (/\b(by|per) week\b|\bweekly\b/i.test(text)) return 'weekly';
+  if (/\b(by|per) month\b|\bmonthly\b/i.test(text)) return 'monthly';
+  return undefined;
+}
+
+// Parse a question without a model. Follow-ups ("and last week?", "what
+// about CloudSee", "now only billable ones") start from the previous query.
+// Null when nothing in the question is recognized.
+export function parseQueryOffline(
+  query: string,
+  previousQuery?: ParsedQuery | null,
+  settings: DateRangeSettings = DEFAULT_DATE_RANGE_SETTINGS,
+  now: Date = new Date()
+): ParsedQuery | null {
+  const dates = detectDates(query, settings, now);
+  const followUp = !!previousQuery && FOLLOW_UP.test(query);
+  const filters = detectFilters(dates.rest, followUp);
+  const summaryType = detectSummaryType(query);
+  const hasHoursWords = HOURS_WORDS.test(query);
+  const hasDates = !!dates.dateRange;
+
+  let queryType: ParsedQuery['queryType'] | null = null;
+  if (USERS_WORDS.test(query) && !hasHoursWords && !hasDates) {
+    queryType = 'users';
+  } else if (/\bclients\b/i.test(query) && !hasHoursWords && !hasDates) {
+    queryType = 'clients';
+  } else if (/\bprojects\b/i.test(query) && !hasHoursWords && !hasDates) {
+    queryType = 'projects';
+  } else if (SUMMARY_WORDS.test(query) || summaryType) {
+    queryType = 'summary';
+  } else if (hasHoursWords || hasDates || Object.keys(filters).length > 0) {
+    queryType = 'time_entries';
+  }
+
+  if (followUp && previousQuery) {
+    const previousFilters = { ...(previousQuery.parameters.filters || {}) };
+    // A new name replaces the old one, whether it was a project or a client
+    if (filters.projectName || filters.clientName) {
+      delete previousFilters.projectName;
+      delete previousFilters.clientName;
+    }
+    return {
+      queryType: queryType && queryType !== 'time_entries' ? queryType : previousQuery.queryType,
+      parameters: {
+        ...previousQuery.parameters,
+        ...(hasDates ? { period: dates.period, dateRange: dates.dateRange } : {}),
+        filters: { ...previousFilters, ...filters }
+      },
+      summaryType: summaryType || previousQuery.summaryType
+    };
+  }
+
+  if (!queryType) {
+    return null;
+  }
+  return {
+    queryType,
+    parameters: {
+      ...(dates.period ? { period: dates.period } : {}),
+      ...(dates.dateRange ? { dateRange: dates.dateRange } : {}),
+      filters
+    },
+    ...(summaryType ? { summaryType } : {})
+  };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const listNames = (names: string[]) => names.length <= 5
+  ? names.join(', ')
+  : `${names.slice(0, 5).join(', ')} and ${names.length - 5} more`;
+
+// A plain-language answer built from the data alone, for when no model can
+// write one
+export function summarizeDataOffline(data: ChatData | null, queryType: string): string {
+  const records = Array.isArray(data) ? data : [];
+  if (records.length === 0) {
+    return queryType === 'time_entries' || queryType === 'summary'
+      ? "I didn't find any time entries matching that."
+      : `I didn't find any ${queryType}.`;
+  }
+
+  switch (queryType) {
+    case 'projects': {
+      const projects = records as HarvestProject[];
+      return `Found ${projects.length} project${projects.length === 1 ? '' : 's'}: ${listNames(projects.map(project => project.name))}.`;
+    }
+    case 'clients': {
+      const clients = records as HarvestClient[];
+      return `Found ${clients.length} client${clients.length === 1 ? '' : 's'}: ${listNames(clients.map(client => client.name))}.`;
+    }
+    case 'users': {
+      const users = records as HarvestUser[];
+      return `Found ${users.length} ${users.length === 1 ? 'person' : 'people'}: ${listNames(users.map(user => `${user.first_name} ${user.last_name}`))}.`;
+    }
+    default: {
+      const entries = records as HarvestTimeEntry[];
+      const hours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+      const billable = entries.filter(entry => entry.billable).reduce((sum, entry) => sum + entry.hours, 0);
+      const dates = entries.map(entry => entry.spent_date).sort();
+      const byProject = new Map<string, number>();
+      entries.forEach(entry => {
+        const project = entry.project?.name || 'Unknown';
+        byProject.set(project, (byProject.get(project) || 0) + entry.hours);
+      });
+      const topProjects = Array.from(byProject.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([project, projectHours]) => `${project} (${round2(projectHours)}h)`);
+
+      const range = dates[0] === dates[dates.length - 1] ? `on ${dates[0]}` : `from ${dates[0]} to ${dates[dates.length - 1]}`;
+      return `Found ${entries.length} time entr${entries.length === 1 ? 'y' : 'ies'} ${range}, ${round2(hours)} hours in total (${round2(billable)} billable). Most time went to ${topProjects.join(', ')}.`;
+    }
+  }
+}
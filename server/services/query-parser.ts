@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { ParsedQuery, ChatMessage, ChatClarification, ChatHarvestData, parsedQuerySchema, QUERY_TYPES, SUMMARY_TYPES } from "@shared/schema";
+import { DEFAULT_DATE_RANGE_SETTINGS, RELATIVE_PERIODS, resolveDateRange, todayIn, type DateRangeSettings } from "./date-range";
+import { getLLMProviders, type LLMMessage, type LLMProvider } from "./llm";
+import { parseQueryOffline } from "./offline";
+
+// Turning a chat question into a ParsedQuery. Tries the providers from
+// getLLMProviders in order and falls back to the rule-based ./offline parser
+// when none is configured or all of them fail. Kept apart from the agent so
+// it can run without Harvest or the database (see server/evals).
+
+// Earlier turns of the conversation, so follow-up questions can refine the
+// previous query instead of starting over
+export interface ConversationContext {
+  history: Array<{ role: 'user' | 'assistant'; content: string }>;
+  previousQuery?: ParsedQuery | null;
+  // The last answer was a question back to the user, so this message answers it
+  answersClarification?: boolean;
+}
+
+// Only the most recent turns are sent to the model
+const MAX_CONTEXT_TURNS = 10;
+
+// Build the context for the next question from a conversation's stored messages
+export function buildConversationContext(messages: ChatMessage[]): ConversationContext {
+  const lastAssistant = [...messages].reverse().find(message => message.role === 'assistant');
+  const harvestData = lastAssistant?.harvestData as ChatHarvestData | null | undefined;
+
+  return {
+    history: messages.map(message => ({
+      role: message.role === 'assistant' ? 'assistant' as const : 'user' as const,
+      content: message.content
+    })),
+    previousQuery: harvestData?.parsedQuery ?? null,
+    answersClarification: !!harvestData?.clarification
+  };
+}
+
+export function formatHistory(context?: ConversationContext): string {
+  if (!context || context.history.length === 0) return '';
+  return context.history
+    .slice(-MAX_CONTEXT_TURNS)
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Today and how the account counts weeks and fiscal years, for prompts
+export function describeCalendar(settings: DateRangeSettings, now: Date = new Date()): string {
+  const weekStart = settings.weekStartDay.charAt(0).toUpperCase() + settings.weekStartDay.slice(1);
+  return `Today: ${todayIn(settings.timezone, now)} (${settings.timezone}). Weeks start on ${weekStart}; the fiscal year starts in ${MONTH_NAMES[settings.fiscalYearStartMonth - 1]}.`;
+}
+
+// Attempts at a valid parse: the first answer plus repairs after feedback
+const MAX_PARSE_ATTEMPTS = 3;
+
+// What the parser model may answer instead of a query when it can't tell what
+// the user means
+const clarificationOutputSchema = z.object({
+  clarification: z.object({
+    question: z.string().trim().min(1),
+    options: z.array(z.string().trim().min(1)).max(5).default([])
+  })
+});
+
+export type QueryParseResult =
+  | { parsedQuery: ParsedQuery }
+  | { clarification: ChatClarification };
+
+export class QueryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+// The JSON object in a model answer, which may be wrapped in a code fence or prose
+function extractJson(text: string): unknown {
+  const unfenced = text.trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+  const firstBrace = unfenced.indexOf('{');
+  const lastBrace = unfenced.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    throw new Error('No JSON object found');
+  }
+  return JSON.parse(unfenced.substring(firstBrace, lastBrace + 1));
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+
+// Check one model answer. Returns the result, or what is wrong with it in
+// words the model can act on.
+function checkParserOutput(text: string, dateSettings: DateRangeSettings, now: Date): { result: QueryParseResult } | { problem: string } {
+  let raw: unknown;
+  try {
+    raw = extractJson(text);
+  } catch (error) {
+    return { problem: `Not valid JSON (${error instanceof Error ? error.message : String(error)})` };
+  }
+
+  if (raw && typeof raw === 'object' && 'clarification' in raw) {
+    const clarification = clarificationOutputSchema.safeParse(raw);
+    return clarification.success
+      ? { result: { clarification: clarification.data.clarification } }
+      : { problem: describeIssues(clarification.error) };
+  }
+
+  const validation = parsedQuerySchema.safeParse(raw);
+  if (!validation.success) {
+    return { problem: describeIssues(validation.error) };
+  }
+
+  // Relative periods are resolved here rather than by the model, so they
+  // follow the account's timezone, week start and fiscal year
+  const parsedQuery = validation.data;
+  const period = parsedQuery.parameters.period;
+  if (period) {
+    const periodRange = resolveDateRange(period, dateSettings, now);
+    if (!periodRange) {
+      return { problem: `parameters.period: Unknown period "${period}"` };
+    }
+    parsedQuery.parameters.dateRange = periodRange;
+  }
+  parsedQuery.parameters.filters = parsedQuery.parameters.filters || {};
+  return { result: { parsedQuery } };
+}
+
+export async function parseNaturalLanguageQuery(
+  query: string,
+  context?: ConversationContext,
+  dateSettings: DateRangeSettings = DEFAULT_DATE_RANGE_SETTINGS,
+  providers: LLMProvider[] = getLLMProviders(),
+  // "Today" for relative dates; fixed by the evals
+  now: Date = new Date()
+): Promise<QueryParseResult> {
+  const history = formatHistory(context);
+  const followUp = history ? `
+Conversation so far:
+${history}
+${context?.previousQuery ? `\nPrevious query: ${JSON.stringify(context.previousQuery)}\n` : ''}
+If this is a follow-up ("now only billable ones", "what about CloudSee", "and last week?"), start from the previous query and change only what the user changes.
+If the assistant just asked which of several things the user meant, this message is the answer: use it and don't ask again.
+` : '';
+
+  const prompt = `Parse this Harvest query: "${query}"
+
+${describeCalendar(dateSettings, now)}
+${followUp}
+Return JSON only:
+{
+  "queryType": "${QUERY_TYPES.join('|')}",
+  "parameters": {
+    "period": "${RELATIVE_PERIODS.join('|')}|last_N_days",
+    "dateRange": {"from": "YYYY-MM-DD", "to": "YYYY-MM-DD"},
+    "filters": {"billable": true|false, "projectName": "...", "clientName": "...", "userName": "..."}
+  },
+  "summaryType": "${SUMMARY_TYPES.join('|')}"
+}
+
+Use "period" when the question names one of those periods (e.g. "last 30 days" -> "last_30_days") and "dateRange" only for other dates.
+Only include filters the user asked for.
+
+If you can't tell what the user is asking for without guessing, return this instead, with up to 5 short replies they could pick:
+{"clarification": {"question": "...", "options": ["...", "..."]}}
+
+Examples:
+- "this week's hours" -> time_entries with period this_week
+- "my projects" -> projects
+- "who's on the team" -> users
+- "yesterday's work" -> summary with period yesterday`;
+
+  let problem = '';
+  for (const provider of providers) {
+    try {
+      return await parseWithProvider(provider, prompt, dateSettings, now);
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+      console.error(`Query parsing with ${provider.name} failed:`, error);
+    }
+  }
+
+  const parsedQuery = parseQueryOffline(query, context?.previousQuery, dateSettings, now);
+  if (parsedQuery) {
+    console.log(`Parsed query offline${providers.length > 0 ? ' after the model failed' : ''}:`, JSON.stringify(parsedQuery));
+    return { parsedQuery };
+  }
+  throw new QueryParseError(problem
+    ? `Failed to parse natural language query: ${problem}`
+    : "Couldn't understand the question without a model. Try naming a period and a project, e.g. \"hours last month on CloudSee\".");
+}
+
+// Ask one provider, sending invalid answers back to it for repair up to
+// MAX_PARSE_ATTEMPTS times
+async function parseWithProvider(provider: LLMProvider, prompt: string, dateSettings: DateRangeSettings, now: Date): Promise<QueryParseResult> {
+  const messages: LLMMessage[] = [{ role: "user", content: prompt }];
+  let problem = '';
+
+  for (let attempt = 1; attempt <= MAX_PARSE_ATTEMPTS; attempt++) {
+    const completion = await provider.complete({
+      system: "Parse Harvest queries into JSON format only.",
+      messages,
+      maxTokens: 1024,
+      temperature: 0.1,
+      purpose: 'parse'
+    });
+    const responseText = completion.text;
+    console.log(`Raw ${provider.name} response:`, responseText);
+
+    const checked = checkParserOutput(responseText, dateSettings, now);
+    if ('result' in checked) {
+      return checked.result;
+    }
+
+    // Show the model what was wrong and let it try again
+    problem = checked.problem;
+    console.warn(`Query parse attempt ${attempt} was invalid: ${problem}`);
+    messages.push(
+      { role: "assistant", content: responseText || "(empty)" },
+      { role: "user", content: `That answer is invalid: ${problem}\nReturn the corrected JSON only.` }
+    );
+  }
+
+  throw new QueryParseError(`Failed to parse natural language query: ${problem}`);
+}
+
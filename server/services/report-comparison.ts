@@ -0,0 +1,135 @@
+import { HarvestService } from './harvest';
+import { getActiveReportDefinition, buildProjectReport, ProjectReport, ProjectReportRow } from './report';
+import { monthLabel, monthRange } from './date-range';
+
+// The most months one comparison loads; each month is a Harvest time entry query
+export const MAX_COMPARISON_MONTHS = 12;
+
+export interface PeriodMetrics {
+  hours: number;
+  billableHours: number;
+  billedAmount: number;
+  // Budget used in the period. For BHS clients, hours against support hours,
+  // as on the report page.
+  budgetPercent: number;
+}
+
+export interface ComparisonRow {
+  id: number | string;
+  name: string;
+  // One entry per period, in the order of ReportComparison.periods
+  periods: PeriodMetrics[];
+  // Latest period minus the one before it (budgetPercent in percentage points)
+  delta: PeriodMetrics;
+}
+
+export interface ReportComparison {
+  periods: { month: string; label: string }[];
+  projects: ComparisonRow[];
+  bhsProjects: ComparisonRow[];
+  // All projects and BHS clients per period
+  totals: Omit<PeriodMetrics, 'budgetPercent'>[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const EMPTY_METRICS: PeriodMetrics = { hours: 0, billableHours: 0, billedAmount: 0, budgetPercent: 0 };
+
+// YYYY-MM `count` months before (negative) or after the given month
+export function shiftMonth(month: string, count: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, monthIndex - 1 + count, 1));
+  return shifted.toISOString().slice(0, 7);
+}
+
+// The `count` months ending with (and including) `month`, oldest first
+export function trailingMonths(month: string, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => shiftMonth(month, index - count + 1));
+}
+
+function projectMetrics(row: ProjectReportRow): PeriodMetrics {
+  return {
+    hours: round2(row.totalHours),
+    billableHours: row.billableHours,
+    billedAmount: row.billedAmount,
+    budgetPercent: row.budgetPercentComplete
+  };
+}
+
+function bhsMetrics(row: ProjectReportRow): PeriodMetrics {
+  return {
+    ...projectMetrics(row),
+    budgetPercent: row.budget > 0 ? round2(row.totalHours / row.budget * 100) : 0
+  };
+}
+
+function difference(current: PeriodMetrics, previous: PeriodMetrics): PeriodMetrics {
+  return {
+    hours: round2(current.hours - previous.hours),
+    billableHours: round2(current.billableHours - previous.billableHours),
+    billedAmount: round2(current.billedAmount - previous.billedAmount),
+    budgetPercent: round2(current.budgetPercent - previous.budgetPercent)
+  };
+}
+
+// Line up each project's rows across periods by id. A project missing from a
+// period (not tracked yet, or no longer returned by Harvest) counts as zero.
+function alignRows(
+  reports: ProjectReportRow[][],
+  toMetrics: (row: ProjectReportRow) => PeriodMetrics
+): ComparisonRow[] {
+  const rows = new Map<number | string, ComparisonRow>();
+
+  reports.forEach((periodRows, periodIndex) => {
+    periodRows.forEach(row => {
+      let comparison = rows.get(row.id);
+      if (!comparison) {
+        comparison = { id: row.id, name: row.name, periods: reports.map(() => EMPTY_METRICS), delta: EMPTY_METRICS };
+        rows.set(row.id, comparison);
+      }
+      // Later periods win, so the name matches the latest report
+      comparison.name = row.name;
+      comparison.periods[periodIndex] = toMetrics(row);
+    });
+  });
+
+  return Array.from(rows.values())
+    .map(row => {
+      const latest = row.periods[row.periods.length - 1];
+      const previous = row.periods[row.periods.length - 2] ?? EMPTY_METRICS;
+      return { ...row, delta: difference(latest, previous) };
+    })
+    .sort((a, b) => b.periods[b.periods.length - 1].hours - a.periods[a.periods.length - 1].hours);
+}
+
+// Build the budget report for each month with the active definition and
+// line the results up for comparison. Months are reported in the given order.
+export async function buildReportComparison(harvestService: HarvestService, months: string[]): Promise<ReportComparison> {
+  console.log(`Building report comparison for ${months.join(', ')}`);
+
+  const definition = await getActiveReportDefinition();
+  const projects = await harvestService.getProjects();
+
+  const periods: ReportComparison['periods'] = [];
+  const reports: ProjectReport[] = [];
+  for (const month of months) {
+    const label = monthLabel(month);
+    const timeEntries = await harvestService.getTimeEntries({ dateRange: monthRange(month), filters: {} });
+    reports.push(buildProjectReport(definition, timeEntries, projects, label));
+    periods.push({ month, label });
+  }
+
+  const projectRows = alignRows(reports.map(report => report.projects), projectMetrics);
+  const bhsRows = alignRows(reports.map(report => report.bhsProjects), bhsMetrics);
+
+  const totals = periods.map((_, periodIndex) => {
+    const all = [...projectRows, ...bhsRows].map(row => row.periods[periodIndex]);
+    return {
+      hours: round2(all.reduce((sum, metrics) => sum + metrics.hours, 0)),
+      billableHours: round2(all.reduce((sum, metrics) => sum + metrics.billableHours, 0)),
+      billedAmount: round2(all.reduce((sum, metrics) => sum + metrics.billedAmount, 0))
+    };
+  });
+
+  return { periods, projects: projectRows, bhsProjects: bhsRows, totals };
+}
@@ -0,0 +1,284 @@
+import { HarvestTimeEntry, HarvestProject, ReportDefinition, InsertReportDefinition } from '@shared/schema';
+import { storage } from '../storage';
+import { HarvestService } from './harvest';
+import { forecastBudget, BudgetForecast, DailyBurn } from './forecast';
+import { monthLabel, monthRange } from './date-range';
+
+// Seeded the first time the report is requested so existing installs keep
+// the projects they have always tracked. Edit it from the report settings.
+export const DEFAULT_REPORT_DEFINITION: InsertReportDefinition = {
+  name: 'Monthly Project Budget Report',
+  projectRules: [
+    { name: 'EDS Retained Support Services', keywords: ['educational data services', 'educational', 'eds', 'inc', 'retained support services'] },
+    { name: 'CloudSee Drive', keywords: ['cloudsee', 'cloud see'] },
+    { name: 'Vision AST', keywords: ['vision', 'ast'] },
+    { name: 'Basic Hosting Support (BHS)', keywords: ['basic hosting support', 'bhs', 'hosting support'] }
+  ],
+  budgetOverrides: [
+    { keywords: ['retained support services', 'educational data services'], budget: 15500 },
+    { keywords: ['vision ast'], budget: 14700 }
+  ],
+  displayNames: [
+    { match: 'Retained Support Services', displayName: 'EDS Retained Support Services' }
+  ],
+  bhsProjectKeywords: ['basic hosting support', 'bhs'],
+  bhsClientGroups: [
+    { keywords: ['atlantic', 'british'], displayName: 'Atlantic British Ltd.', defaultBudget: 8 },
+    { keywords: ['erep'], displayName: 'eRep, Inc.' },
+    { keywords: ['icon', 'media'], displayName: 'Icon Media, Inc.' },
+    { keywords: ['vision'], displayName: 'Vision AST' }
+  ],
+  isActive: true
+};
+
+export interface ProjectReportRow {
+  id: number | string;
+  name: string;
+  totalHours: number;
+  budget: number;
+  budgetSpent: number;
+  budgetRemaining: number;
+  billedAmount: number;
+  billableHours: number;
+  budgetUsed: number;
+  budgetPercentComplete: number;
+  // Month-end projection, when the report is built for a month
+  forecast?: BudgetForecast;
+}
+
+export interface ProjectReport {
+  projects: ProjectReportRow[];
+  bhsProjects: ProjectReportRow[];
+  summary: {
+    totalHours: number;
+    projectCount: number;
+    reportDate: string;
+  };
+}
+
+interface TrackedProject {
+  id: number;
+  name: string;
+  clientName: string;
+  totalHours: number;
+  budget: number;
+  budgetSpent: number;
+  budgetRemaining: number;
+  billedAmount: number;
+  billableHours: number;
+  daily: Map<string, DailyBurn>;
+}
+
+// The month a report covers (YYYY-MM) and the day to project from (YYYY-MM-DD)
+export interface ReportPeriod {
+  month: string;
+  today: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function addDailyBurn(daily: Map<string, DailyBurn>, date: string, hours: number, amount: number) {
+  const burn = daily.get(date) || { hours: 0, amount: 0 };
+  burn.hours += hours;
+  burn.amount += amount;
+  daily.set(date, burn);
+}
+
+function matchesAny(name: string, keywords: string[]): boolean {
+  const lowerName = name.toLowerCase();
+  return keywords.some(keyword => lowerName.includes(keyword.toLowerCase()));
+}
+
+// Load the active report definition, seeding the default one on first use
+export async function getActiveReportDefinition(): Promise<ReportDefinition> {
+  const definition = await storage.getActiveReportDefinition();
+  if (definition) {
+    return definition;
+  }
+
+  console.log('No report definition found - creating the default definition');
+  return await storage.createReportDefinition(DEFAULT_REPORT_DEFINITION);
+}
+
+// A month's report for one Harvest account, with forecasts as of `today`.
+// The report page, the weekly email and the alert checks all build it here.
+export async function buildMonthlyReport(harvestService: HarvestService, period: ReportPeriod): Promise<ProjectReport> {
+  return buildRangeReport(harvestService, monthRange(period.month), monthLabel(period.month), period);
+}
+
+// A report over any date range. Only month reports (with a period) get forecasts.
+export async function buildRangeReport(
+  harvestService: HarvestService,
+  dateRange: { from: string; to: string },
+  reportDate: string,
+  period?: ReportPeriod
+): Promise<ProjectReport> {
+  console.log(`Loading report data for ${reportDate} (${dateRange.from} to ${dateRange.to})`);
+
+  const definition = await getActiveReportDefinition();
+  return buildProjectReport(
+    definition,
+    await harvestService.getTimeEntries({ dateRange, filters: {} }),
+    await harvestService.getProjects(),
+    reportDate,
+    period
+  );
+}
+
+export function buildProjectReport(
+  definition: ReportDefinition,
+  timeEntries: HarvestTimeEntry[],
+  projects: HarvestProject[],
+  reportDate: string,
+  period?: ReportPeriod
+): ProjectReport {
+  const isTracked = (name: string) =>
+    definition.projectRules.some(rule => matchesAny(name, rule.keywords));
+
+  // Harvest's own budget wins; overrides only fill in missing budgets
+  const resolveBudget = (name: string, harvestBudget?: number | null) => {
+    if (harvestBudget) return harvestBudget;
+    const override = definition.budgetOverrides.find(rule => matchesAny(name, rule.keywords));
+    return override ? override.budget : 0;
+  };
+
+  const resolveDisplayName = (name: string) => {
+    const rule = definition.displayNames.find(rule => name.toLowerCase().includes(rule.match.toLowerCase()));
+    return rule ? rule.displayName : name;
+  };
+
+  // First, find all tracked projects (even if they have no time entries this month)
+  const projectMap = new Map<number, TrackedProject>();
+  let totalHours = 0;
+
+  projects.forEach(project => {
+    if (isTracked(project.name)) {
+      projectMap.set(project.id, {
+        id: project.id,
+        name: project.name,
+        clientName: project.client?.name || '',
+        totalHours: 0,
+        budget: resolveBudget(project.name, project.budget),
+        budgetSpent: project.budget_spent || 0,
+        budgetRemaining: project.budget_remaining || 0,
+        billedAmount: 0,
+        billableHours: 0,
+        daily: new Map()
+      });
+    }
+  });
+
+  // Now add time entry hours, picking up tracked projects Harvest didn't list
+  // (e.g. archived ones that still have entries this month)
+  timeEntries.forEach(entry => {
+    let projectData = projectMap.get(entry.project.id);
+
+    if (!projectData && isTracked(entry.project.name)) {
+      projectData = {
+        id: entry.project.id,
+        name: entry.project.name,
+        clientName: entry.client?.name || '',
+        totalHours: 0,
+        budget: resolveBudget(entry.project.name),
+        budgetSpent: 0,
+        budgetRemaining: 0,
+        billedAmount: 0,
+        billableHours: 0,
+        daily: new Map()
+      };
+      projectMap.set(entry.project.id, projectData);
+    }
+
+    if (projectData) {
+      projectData.totalHours += entry.hours;
+      totalHours += entry.hours;
+
+      // Track billable hours and billing amounts
+      const amount = entry.billable ? (entry.billable_rate || 0) * entry.hours : 0;
+      if (entry.billable) {
+        projectData.billableHours += entry.hours;
+        projectData.billedAmount += amount;
+      }
+      addDailyBurn(projectData.daily, entry.spent_date, entry.hours, amount);
+    }
+  });
+
+  const trackedProjects = Array.from(projectMap.values());
+  const isBhs = (project: TrackedProject) => matchesAny(project.name, definition.bhsProjectKeywords);
+
+  const projectRows: ProjectReportRow[] = trackedProjects
+    .filter(project => !isBhs(project))
+    .map(project => ({
+      id: project.id,
+      name: resolveDisplayName(project.name),
+      totalHours: project.totalHours,
+      budget: project.budget,
+      budgetSpent: project.budgetSpent,
+      budgetRemaining: project.budgetRemaining,
+      budgetUsed: project.budget > 0 ? round2(project.budgetSpent / project.budget * 100) : 0,
+      budgetPercentComplete: project.budget > 0 ? round2(project.billedAmount / project.budget * 100) : 0,
+      billedAmount: round2(project.billedAmount),
+      billableHours: round2(project.billableHours),
+      forecast: period ? forecastBudget(project.daily, project.budget, 'amount', period.month, period.today) : undefined
+    }))
+    .sort((a, b) => b.totalHours - a.totalHours);
+
+  // Group BHS projects into one row per configured client, even with 0 hours
+  const bhsClientMap = new Map<string, ProjectReportRow>();
+  const bhsDaily = new Map<string, Map<string, DailyBurn>>();
+  definition.bhsClientGroups.forEach(group => {
+    bhsDaily.set(group.displayName, new Map());
+    bhsClientMap.set(group.displayName, {
+      id: `bhs-${group.displayName.toLowerCase().replace(/[^a-z]/g, '')}`,
+      name: `${group.displayName} - Basic Hosting Support`,
+      totalHours: 0,
+      budget: 0,
+      budgetSpent: 0,
+      budgetRemaining: 0,
+      billedAmount: 0,
+      billableHours: 0,
+      budgetUsed: 0,
+      budgetPercentComplete: 0
+    });
+  });
+
+  trackedProjects.filter(isBhs).forEach(project => {
+    const group = definition.bhsClientGroups.find(group => matchesAny(project.clientName, group.keywords));
+    if (!group) return;
+
+    const clientEntry = bhsClientMap.get(group.displayName)!;
+    clientEntry.totalHours += project.totalHours;
+    clientEntry.budget += project.budget;
+    clientEntry.budgetSpent += project.budgetSpent;
+    clientEntry.budgetRemaining += project.budgetRemaining;
+    clientEntry.billedAmount = round2(clientEntry.billedAmount + project.billedAmount);
+    clientEntry.billableHours = round2(clientEntry.billableHours + project.billableHours);
+
+    const clientDaily = bhsDaily.get(group.displayName)!;
+    project.daily.forEach((burn, date) => addDailyBurn(clientDaily, date, burn.hours, burn.amount));
+  });
+
+  definition.bhsClientGroups.forEach(group => {
+    const clientEntry = bhsClientMap.get(group.displayName)!;
+    if (clientEntry.budget === 0 && group.defaultBudget) {
+      clientEntry.budget = group.defaultBudget;
+    }
+    if (clientEntry.budget > 0) {
+      clientEntry.budgetPercentComplete = round2(clientEntry.billedAmount / clientEntry.budget * 100);
+    }
+    // BHS budgets are support hours, so the projection is in hours too
+    if (period) {
+      clientEntry.forecast = forecastBudget(bhsDaily.get(group.displayName)!, clientEntry.budget, 'hours', period.month, period.today);
+    }
+  });
+
+  return {
+    projects: projectRows,
+    bhsProjects: Array.from(bhsClientMap.values()).sort((a, b) => b.totalHours - a.totalHours),
+    summary: {
+      totalHours,
+      projectCount: projectRows.length,
+      reportDate
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import { ChatData, HarvestTimeEntry, HarvestProject, HarvestClient, HarvestUser } from '@shared/schema';
+import { aggregateEntries } from './harvest-tools';
+
+// What generateResponse shows the model about the data: exact totals and
+// groupings computed here, so the model never adds up hours itself, plus as
+// many raw rows as fit in a token budget.
+
+// Tokens of data context per answer, unless RESPONSE_CONTEXT_TOKENS says otherwise
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 4000;
+
+const MAX_GROUPS_PER_DIMENSION = 10;
+// A month of days, so daily totals for a month are complete
+const MAX_DAY_GROUPS = 31;
+const TOP_ENTRY_COUNT = 5;
+const MAX_NOTES_LENGTH = 120;
+// An entry this many standard deviations above the mean is an outlier
+const OUTLIER_DEVIATIONS = 2;
+const MIN_ENTRIES_FOR_OUTLIERS = 5;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Rough token count for English text and JSON: about four characters a token
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function getContextTokenBudget(): number {
+  const configured = parseInt(process.env.RESPONSE_CONTEXT_TOKENS || '', 10);
+  return configured > 0 ? configured : DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+export interface ResponseContext {
+  // JSON for the prompt
+  text: string;
+  estimatedTokens: number;
+  rowsIncluded: number;
+  rowsOmitted: number;
+}
+
+const entryRow = (entry: HarvestTimeEntry) => ({
+  date: entry.spent_date,
+  user: entry.user?.name,
+  client: entry.client?.name,
+  project: entry.project?.name,
+  task: entry.task?.name,
+  hours: entry.hours,
+  billable: entry.billable,
+  ...(entry.notes ? {
+    notes: entry.notes.length > MAX_NOTES_LENGTH ? `${entry.notes.slice(0, MAX_NOTES_LENGTH - 3)}...` : entry.notes
+  } : {})
+});
+
+const listRow = (record: HarvestProject | HarvestClient | HarvestUser, queryType: string) => {
+  switch (queryType) {
+    case 'projects': {
+      const project = record as HarvestProject;
+      return { name: project.name, code: project.code, client: project.client?.name, active: project.is_active, budget: project.budget };
+    }
+    case 'users': {
+      const user = record as HarvestUser;
+      return { name: `${user.first_name} ${user.last_name}`, email: user.email, active: user.is_active, contractor: user.is_contractor };
+    }
+    default: {
+      const client = record as HarvestClient;
+      return { name: client.name, active: client.is_active };
+    }
+  }
+};
+
+// The largest groups of one dimension, with the rest rolled into one line
+function topGroups(entries: HarvestTimeEntry[], groupBy: 'user' | 'project' | 'client' | 'day' | 'task', limit = MAX_GROUPS_PER_DIMENSION) {
+  const groups = aggregateEntries(entries, groupBy);
+  const shown = groups.slice(0, limit);
+  const rest = groups.slice(limit);
+  // Days read better in date order
+  if (groupBy === 'day') {
+    shown.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  if (rest.length === 0) {
+    return { groups: shown };
+  }
+  return {
+    groups: shown,
+    others: {
+      count: rest.length,
+      hours: round2(rest.reduce((sum, group) => sum + group.hours, 0)),
+      billableHours: round2(rest.reduce((sum, group) => sum + group.billableHours, 0))
+    }
+  };
+}
+
+// Entries well above the typical entry length, e.g. a 14h entry among 2h ones
+function findOutliers(entries: HarvestTimeEntry[]) {
+  if (entries.length < MIN_ENTRIES_FOR_OUTLIERS) return [];
+  const mean = entries.reduce((sum, entry) => sum + entry.hours, 0) / entries.length;
+  const deviation = Math.sqrt(entries.reduce((sum, entry) => sum + (entry.hours - mean) ** 2, 0) / entries.length);
+  if (deviation === 0) return [];
+  const threshold = mean + OUTLIER_DEVIATIONS * deviation;
+  return entries
+    .filter(entry => entry.hours > threshold)
+    .sort((a, b) => b.hours - a.hours)
+    .slice(0, TOP_ENTRY_COUNT)
+    .map(entry => ({ ...entryRow(entry), typicalHours: round2(mean) }));
+}
+
+// Add rows in the order given until the budget left after the summary runs
+// out. The summary itself is always kept, even over budget.
+function fitRows<T>(rows: T[], summary: Record<string, unknown>, tokenBudget: number): ResponseContext {
+  const included: T[] = [];
+  let text = JSON.stringify({ ...summary, rows: included, rowsOmitted: rows.length });
+  for (const row of rows) {
+    const candidate = JSON.stringify({ ...summary, rows: [...included, row], rowsOmitted: rows.length - included.length - 1 });
+    if (estimateTokens(candidate) > tokenBudget) break;
+    included.push(row);
+    text = candidate;
+  }
+  return {
+    text,
+    estimatedTokens: estimateTokens(text),
+    rowsIncluded: included.length,
+    rowsOmitted: rows.length - included.length
+  };
+}
+
+// The data behind a chat answer, condensed for the model's prompt
+export function buildResponseContext(
+  data: ChatData | null,
+  queryType: string,
+  tokenBudget: number = getContextTokenBudget()
+): ResponseContext {
+  const records = Array.isArray(data) ? data : [];
+
+  if (queryType !== 'time_entries' && queryType !== 'summary') {
+    const rows = (records as Array<HarvestProject | HarvestClient | HarvestUser>).map(record => listRow(record, queryType));
+    return fitRows(rows, { total: rows.length }, tokenBudget);
+  }
+
+  const entries = (records as HarvestTimeEntry[])
+    .slice()
+    .sort((a, b) => b.spent_date.localeCompare(a.spent_date));
+  const dates = entries.map(entry => entry.spent_date).sort();
+  const hours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+  const billableEntries = entries.filter(entry => entry.billable);
+
+  const summary = {
+    totals: {
+      entries: entries.length,
+      from: dates[0] ?? null,
+      to: dates[dates.length - 1] ?? null,
+      hours: round2(hours),
+      billableHours: round2(billableEntries.reduce((sum, entry) => sum + entry.hours, 0)),
+      billedAmount: round2(billableEntries.reduce((sum, entry) => sum + (entry.billable_rate || 0) * entry.hours, 0))
+    },
+    byUser: topGroups(entries, 'user'),
+    byProject: topGroups(entries, 'project'),
+    byClient: topGroups(entries, 'client'),
+    byDay: topGroups(entries, 'day', MAX_DAY_GROUPS),
+    byTask: topGroups(entries, 'task'),
+    largestEntries: entries.slice().sort((a, b) => b.hours - a.hours).slice(0, TOP_ENTRY_COUNT).map(entryRow),
+    outliers: findOutliers(entries)
+  };
+  return fitRows(entries.map(entryRow), summary, tokenBudget);
+}
@@ -1,167 +1,228 @@
-import cron from 'node-cron';
-import { HarvestService } from './harvest';
-import { sendEmail } from './email';
-import { saveReportAsFile, createEmailInstructions } from './email-fallback';
+import cron, { type ScheduledTask } from 'node-cron';
+import { HarvestService, mirrorFor } from './harvest';
+import { buildMonthlyReport, buildRangeReport, ProjectReport } from './report';
+import { reportDeliveries } from './deliveries';
+import { dateSettingsFromConfig, resolveDateRange, todayIn } from './date-range';
 import { storage } from '../storage';
+import type { ReportSchedule, ReportCadence, ReportRangeMode } from '@shared/schema';
 
-interface ProjectReportData {
-  name: string;
-  totalHours: number;
-  budget: number;
-  avgHourlyRate: number;
-  billedAmount: number;
-}
+// Preset cadences all send at 8:00 in the schedule's timezone
+// Cron format: second minute hour day month dayOfWeek
+const PRESET_CRON_EXPRESSIONS: Record<Exclude<ReportCadence, 'custom'>, string> = {
+  daily: '0 0 8 * * 1-5',   // weekdays
+  weekly: '0 0 8 * * 1',    // Mondays
+  monthly: '0 0 8 1 * *'    // 1st of the month
+};
 
-export class ReportScheduler {
-  private harvestService: HarvestService | null = null;
+// Recorded once the old hard-coded Monday job has been turned into schedules
+const SEED_SCHEDULES_MIGRATION = 'seed-default-report-schedules';
+
+type ScheduleSettings = Pick<ReportSchedule, 'cadence' | 'cronExpression' | 'timezone' | 'rangeMode'>;
 
-  constructor() {
-    this.initializeHarvestService();
+export function getCronExpression(schedule: ScheduleSettings): string {
+  if (schedule.cadence === 'custom') {
+    return schedule.cronExpression?.trim() || '';
   }
+  return PRESET_CRON_EXPRESSIONS[schedule.cadence as Exclude<ReportCadence, 'custom'>];
+}
 
-  private async initializeHarvestService() {
-    try {
-      const harvestConfig = await storage.getHarvestConfig();
-      if (harvestConfig) {
-        this.harvestService = new HarvestService({
-          accountId: harvestConfig.accountId,
-          accessToken: harvestConfig.accessToken
-        });
-        console.log('Harvest service initialized for scheduled reports');
-      } else {
-        console.log('No Harvest configuration found - scheduled reports disabled');
-      }
-    } catch (error) {
-      console.error('Failed to initialize Harvest service for scheduling:', error);
-    }
+// Returns why a schedule can't be registered, or null if it can
+export function validateSchedule(schedule: ScheduleSettings): string | null {
+  const expression = getCronExpression(schedule);
+  if (!expression) {
+    return schedule.cadence === 'custom' ? 'A custom cadence needs a cron expression' : `Unknown cadence: ${schedule.cadence}`;
   }
+  if (!cron.validate(expression)) {
+    return `Invalid cron expression: ${expression}`;
+  }
+  return null;
+}
+
+// Build the report a schedule asks for, relative to today in the timezone of
+// the service's date settings (the schedule's own timezone)
+async function buildScheduledReport(harvestService: HarvestService, rangeMode: ReportRangeMode): Promise<ProjectReport> {
+  const settings = harvestService.dateSettings;
 
-  private getMonthDateRange(): { from: string; to: string } {
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    
-    return {
-      from: startOfMonth.toISOString().split('T')[0],
-      to: endOfMonth.toISOString().split('T')[0]
-    };
+  switch (rangeMode) {
+    case 'last_week': {
+      // The previous full week, from the account's week start day
+      const week = resolveDateRange('last_week', settings)!;
+      const label = `Week of ${new Date(`${week.from}T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`;
+      return buildRangeReport(harvestService, week, label);
+    }
+    case 'last_month': {
+      const lastMonth = resolveDateRange('last_month', settings)!;
+      return buildMonthlyReport(harvestService, { month: lastMonth.from.slice(0, 7), today: lastMonth.to });
+    }
+    case 'month_to_date':
+    default: {
+      const today = todayIn(settings.timezone);
+      return buildMonthlyReport(harvestService, { month: today.slice(0, 7), today });
+    }
   }
+}
 
+export class ReportScheduler {
+  // Registered cron jobs keyed by schedule id
+  private tasks = new Map<string, ScheduledTask>();
 
-  private async sendWeeklyReport() {
+  // Render one user's report and email it to each recipient from their account,
+  // logging each delivery. Returns whether at least one recipient got it right away.
+  private async sendReport(
+    userId: string,
+    recipientList: string,
+    options: { rangeMode: ReportRangeMode; timezone: string; subjectPrefix: string; scheduleId?: string }
+  ): Promise<boolean> {
     try {
-      console.log('Generating weekly project budget report...');
-      
-      if (!this.harvestService) {
-        await this.initializeHarvestService();
-        if (!this.harvestService) {
-          console.log('Cannot send report - Harvest not configured');
-          return;
-        }
+      const harvestConfig = await storage.getHarvestConfig(userId);
+      if (!harvestConfig) {
+        console.log(`Cannot send report for user ${userId} - Harvest not configured`);
+        return false;
       }
 
-      const emailConfig = await storage.getEmailConfig();
-      if (!emailConfig || !emailConfig.reportRecipients) {
-        console.log('No email configuration or recipients found - skipping weekly report');
-        return;
-      }
+      const harvestService = new HarvestService({
+        accountId: harvestConfig.accountId,
+        accessToken: harvestConfig.accessToken,
+        // The account's week start and fiscal year, in the schedule's timezone
+        dateSettings: { ...dateSettingsFromConfig(harvestConfig), timezone: options.timezone },
+        mirror: mirrorFor(harvestConfig)
+      });
 
-      // Create simple email with link to report page
-      const reportUrl = 'https://harvest-query-davidtunnell9.replit.app/#/report';
-      
-      const emailContent = `
-        <html>
-        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; line-height: 1.6;">
-          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
-            <div style="background: linear-gradient(135deg, #ea580c, #fb923c); color: white; padding: 30px; border-radius: 8px; text-align: center; margin-bottom: 30px;">
-              <h1 style="margin: 0 0 10px 0; font-size: 28px;">Weekly Project Budget Report</h1>
-              <p style="margin: 0; color: #fed7aa;">Ready for your review</p>
-            </div>
-            
-            <div style="background: white; border: 1px solid #e5e7eb; border-radius: 8px; padding: 30px; text-align: center;">
-              <h2 style="color: #374151; margin-bottom: 15px;">Your ${new Date().toLocaleDateString('en-US', { month: 'long' })} project budget report is ready!</h2>
-              <p style="color: #6b7280; margin-bottom: 25px;">Click the button below to view your detailed project budget report with current data from Harvest.</p>
-              
-              <a href="${reportUrl}" style="display: inline-block; background: #ea580c; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; margin-bottom: 20px;">
-                View Report →
-              </a>
-              
-              <div style="background: #f9fafb; padding: 20px; border-radius: 6px; margin-top: 20px;">
-                <h3 style="color: #374151; margin: 0 0 10px 0; font-size: 16px;">What's included:</h3>
-                <ul style="color: #6b7280; text-align: left; margin: 0; padding-left: 20px;">
-                  <li>Primary Projects with budget tracking</li>
-                  <li>Basic Hosting Support (BHS) client breakdown</li>
-                  <li>Monthly summary totals and metrics</li>
-                  <li>Historical data with month selection</li>
-                </ul>
-              </div>
-            </div>
-            
-            <div style="text-align: center; color: #9ca3af; font-size: 12px; margin-top: 30px;">
-              <p>This reminder is sent every Monday at 8:00 AM CST.</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `;
+      // Same data as the report page shows for the period
+      const report = await buildScheduledReport(harvestService, options.rangeMode);
 
       // Split recipients by comma and send to each
-      const recipients = emailConfig.reportRecipients.split(',').map(email => email.trim());
-      let anySuccess = false;
-      
-      for (const recipient of recipients) {
-        if (recipient) {
-          console.log(`Sending weekly report link to ${recipient}`);
-          const emailSuccess = await sendEmail({
-            to: recipient,
-            subject: `Weekly Project Budget Report - Ready for Review`,
-            html: emailContent
-          });
-
-          if (emailSuccess) {
-            console.log(`Weekly report link sent successfully to ${recipient}`);
-            anySuccess = true;
-          } else {
-            console.log(`Failed to send weekly report link to ${recipient}`);
-          }
-        }
-      }
-      
-      if (!anySuccess && recipients.length > 0) {
-        console.error('Failed to send weekly report to any recipients');
+      const recipients = recipientList.split(',').map(email => email.trim()).filter(Boolean);
+      const deliveries = await reportDeliveries.deliverReport({
+        userId,
+        scheduleId: options.scheduleId,
+        subject: `${options.subjectPrefix} - ${report.summary.reportDate}`,
+        report,
+        recipients
+      });
+
+      const sentCount = deliveries.filter(delivery => delivery.status === 'sent').length;
+      if (sentCount < deliveries.length) {
+        console.error(`Report for user ${userId} reached ${sentCount} of ${deliveries.length} recipients - the rest are queued for retry`);
       }
+      return sentCount > 0;
     } catch (error) {
-      console.error('Error generating/sending weekly report:', error);
+      console.error(`Error sending report for user ${userId}:`, error);
+      return false;
     }
   }
 
-  public startScheduler() {
-    // Schedule for every Monday at 8:00 AM CST (14:00 UTC)
-    // Cron format: second minute hour day month dayOfWeek
-    const schedule = '0 0 14 * * 1'; // Every Monday at 14:00 UTC (8:00 AM CST)
-    
-    cron.schedule(schedule, () => {
-      console.log('Running scheduled weekly project report...');
-      this.sendWeeklyReport();
+  public async runSchedule(schedule: ReportSchedule): Promise<boolean> {
+    console.log(`Running report schedule "${schedule.name}" (${schedule.id})...`);
+    const sent = await this.sendReport(schedule.userId, schedule.recipients, {
+      rangeMode: schedule.rangeMode as ReportRangeMode,
+      timezone: schedule.timezone,
+      subjectPrefix: schedule.name,
+      scheduleId: schedule.id
+    });
+    await storage.markReportScheduleRun(schedule.id, new Date());
+    return sent;
+  }
+
+  private unregisterSchedule(id: string) {
+    const task = this.tasks.get(id);
+    if (task) {
+      task.destroy();
+      this.tasks.delete(id);
+    }
+  }
+
+  private registerSchedule(schedule: ReportSchedule) {
+    this.unregisterSchedule(schedule.id);
+    if (!schedule.enabled) return;
+
+    const error = validateSchedule(schedule);
+    if (error) {
+      console.error(`Skipping report schedule "${schedule.name}" (${schedule.id}): ${error}`);
+      return;
+    }
+
+    const task = cron.schedule(getCronExpression(schedule), async () => {
+      // Re-read so a run uses the latest recipients even mid-edit
+      const current = await storage.getReportSchedule(schedule.userId, schedule.id);
+      if (current?.enabled) {
+        await this.runSchedule(current);
+      }
     }, {
-      scheduled: true,
-      timezone: "America/Chicago" // CST timezone
+      name: `report-schedule-${schedule.id}`,
+      timezone: schedule.timezone,
+      noOverlap: true
     });
+    this.tasks.set(schedule.id, task);
+  }
+
+  // Pick up a created, edited or deleted schedule without a restart
+  public async reloadSchedule(userId: string, id: string) {
+    const schedule = await storage.getReportSchedule(userId, id);
+    if (schedule) {
+      this.registerSchedule(schedule);
+    } else {
+      this.unregisterSchedule(id);
+    }
+  }
 
-    console.log('Weekly report scheduler started - reports will be sent every Monday at 8:00 AM CST');
-    
-    // For testing: also allow manual trigger every minute (comment out in production)
-    // cron.schedule('0 * * * * *', () => {
-    //   console.log('Manual test trigger - sending report...');
-    //   this.sendWeeklyReport();
-    // });
+  public getNextRun(id: string): Date | null {
+    return this.tasks.get(id)?.getNextRun() ?? null;
   }
 
-  // Method to manually trigger a report (for testing)
-  public async triggerManualReport() {
-    console.log('Manually triggering weekly report...');
-    await this.sendWeeklyReport();
+  // Once, carry over the old hard-coded job: a Monday 8:00 AM month-to-date
+  // report to each user's recipients, in their Harvest account's timezone.
+  // Installs that already have schedules are taken as migrated.
+  private async seedDefaultSchedules() {
+    if (await storage.hasMigrationRun(SEED_SCHEDULES_MIGRATION)) return;
+
+    if ((await storage.getAllReportSchedules()).length === 0) {
+      for (const emailConfig of await storage.getEmailConfigs()) {
+        if (!emailConfig.userId || !emailConfig.reportRecipients) continue;
+        const harvestConfig = await storage.getHarvestConfig(emailConfig.userId);
+        await storage.createReportSchedule(emailConfig.userId, {
+          name: 'Weekly Project Budget Report',
+          cadence: 'weekly',
+          timezone: dateSettingsFromConfig(harvestConfig).timezone,
+          reportType: 'project_budget',
+          rangeMode: 'month_to_date',
+          recipients: emailConfig.reportRecipients,
+          enabled: true
+        });
+        console.log(`Created default weekly report schedule for user ${emailConfig.userId}`);
+      }
+    }
+    await storage.recordMigration(SEED_SCHEDULES_MIGRATION);
+  }
+
+  public async startScheduler() {
+    try {
+      await this.seedDefaultSchedules();
+      const schedules = await storage.getAllReportSchedules();
+      schedules.forEach(schedule => this.registerSchedule(schedule));
+      console.log(`Report scheduler started - ${this.tasks.size} of ${schedules.length} schedules active`);
+    } catch (error) {
+      console.error('Failed to start report scheduler:', error);
+    }
+  }
+
+  // Send the user's month-to-date report to their default recipients now.
+  // Returns 'failed' unless at least one recipient got it right away.
+  public async triggerManualReport(userId: string): Promise<'sent' | 'failed' | 'no_recipients'> {
+    console.log('Manually triggering report...');
+    const emailConfig = await storage.getEmailConfig(userId);
+    if (!emailConfig?.reportRecipients) {
+      console.log(`No recipients found for user ${userId} - skipping report`);
+      return 'no_recipients';
+    }
+    const harvestConfig = await storage.getHarvestConfig(userId);
+    const sent = await this.sendReport(userId, emailConfig.reportRecipients, {
+      rangeMode: 'month_to_date',
+      timezone: dateSettingsFromConfig(harvestConfig).timezone,
+      subjectPrefix: 'Project Budget Report'
+    });
+    return sent ? 'sent' : 'failed';
   }
 }
 
-export const reportScheduler = new ReportScheduler();
\ No newline at end of file
+export const reportScheduler = new ReportScheduler();
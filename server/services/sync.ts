@@ -0,0 +1,226 @@
+import cron from 'node-cron';
+import { HarvestResource, HarvestSyncState, HarvestConfig } from '@shared/schema';
+import { HarvestService } from './harvest';
+import { budgetAlerts } from './alerts';
+import { storage, HarvestRecord } from '../storage';
+
+// Order matters only for readability of the logs; each resource is independent
+const SYNC_RESOURCES: HarvestResource[] = ['clients', 'projects', 'users', 'time_entries'];
+
+// Re-fetch a little before the last sync started so edits made while the
+// previous sync was running (or with a skewed clock) aren't missed
+const UPDATED_SINCE_OVERLAP_MS = 5 * 60 * 1000;
+
+// updated_since never reports deletions, so a full sync (which prunes rows
+// Harvest no longer returns) runs at least this often
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface SyncResult {
+  userId: string;
+  accountId: string;
+  resource: HarvestResource;
+  mode: 'full' | 'incremental';
+  fetched: number;
+  pruned: number;
+  error?: string;
+}
+
+export interface SyncStatus {
+  accountId: string;
+  running: boolean;
+  resources: Array<{
+    resource: HarvestResource;
+    status: string;
+    lastSyncedAt: Date | null;
+    lastFullSyncAt: Date | null;
+    error: string | null;
+    rowCount: number;
+  }>;
+}
+
+export class HarvestSyncWorker {
+  private running: Promise<SyncResult[]> | null = null;
+  // Runs in progress, keyed by the user whose mirror they fill
+  private userRuns = new Map<string, { results: Promise<SyncResult[]>; full: boolean }>();
+  // Full runs asked for while an incremental one was in progress
+  private queuedFullRuns = new Map<string, Promise<SyncResult[]>>();
+
+  private async syncResource(harvestService: HarvestService, harvestConfig: HarvestConfig, ownerId: string, resource: HarvestResource, forceFull: boolean): Promise<SyncResult> {
+    const { accountId } = harvestConfig;
+    const previous = await storage.getSyncState(ownerId, resource);
+    const startedAt = new Date();
+    // New credentials may see less than the old ones did, so their first
+    // sync is a full one that prunes whatever they can't see
+    const isFull = forceFull
+      || !previous?.lastSyncedAt
+      || !previous.lastFullSyncAt
+      || previous.configId !== harvestConfig.id
+      || startedAt.getTime() - previous.lastFullSyncAt.getTime() > FULL_SYNC_INTERVAL_MS;
+
+    const state: HarvestSyncState = {
+      ownerId,
+      accountId,
+      configId: harvestConfig.id,
+      resource,
+      status: 'running',
+      lastStartedAt: startedAt,
+      lastSyncedAt: previous?.lastSyncedAt ?? null,
+      lastFullSyncAt: previous?.lastFullSyncAt ?? null,
+      error: null
+    };
+    // Until it succeeds, the mirror still holds the old credentials' data
+    if (previous && previous.configId !== harvestConfig.id) {
+      state.lastSyncedAt = null;
+      state.lastFullSyncAt = null;
+    }
+    await storage.saveSyncState(state);
+
+    try {
+      const updatedSince = isFull
+        ? undefined
+        : new Date(previous!.lastSyncedAt!.getTime() - UPDATED_SINCE_OVERLAP_MS).toISOString();
+
+      const records = await harvestService.getUpdatedRecords<HarvestRecord>(resource, updatedSince);
+      await storage.upsertHarvestRecords(ownerId, resource, records, startedAt);
+
+      // Anything a full sync didn't touch has been deleted in Harvest
+      const pruned = isFull ? await storage.pruneHarvestRecords(ownerId, resource, startedAt) : 0;
+
+      await storage.saveSyncState({
+        ...state,
+        status: 'success',
+        lastSyncedAt: startedAt,
+        lastFullSyncAt: isFull ? startedAt : state.lastFullSyncAt
+      });
+
+      console.log(`Synced ${records.length} ${resource} from Harvest for user ${ownerId} (${isFull ? 'full' : 'incremental'}, ${pruned} pruned)`);
+      return { userId: ownerId, accountId, resource, mode: isFull ? 'full' : 'incremental', fetched: records.length, pruned };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to sync ${resource} from Harvest for user ${ownerId}:`, error);
+      await storage.saveSyncState({ ...state, status: 'error', error: message });
+      return { userId: ownerId, accountId, resource, mode: isFull ? 'full' : 'incremental', fetched: 0, pruned: 0, error: message };
+    }
+  }
+
+  // Sync every resource into one user's mirror, with that user's own token.
+  // Concurrent callers for the same user share the run already in progress,
+  // unless they want a full sync and it isn't one: that runs once it ends.
+  public async syncUser(harvestConfig: HarvestConfig, options: { full?: boolean } = {}): Promise<SyncResult[]> {
+    const ownerId = harvestConfig.userId;
+    if (!ownerId) {
+      // Configs saved before sign-in have no mirror until someone claims them
+      return [];
+    }
+
+    const running = this.userRuns.get(ownerId);
+    if (running && (running.full || !options.full)) {
+      return running.results;
+    }
+    if (running) {
+      const queued = this.queuedFullRuns.get(ownerId);
+      if (queued) {
+        return queued;
+      }
+      const next = running.results
+        .catch(() => undefined)
+        .then(() => {
+          this.queuedFullRuns.delete(ownerId);
+          return this.syncUser(harvestConfig, options);
+        });
+      this.queuedFullRuns.set(ownerId, next);
+      return next;
+    }
+
+    const run = (async () => {
+      const harvestService = new HarvestService({
+        accountId: harvestConfig.accountId,
+        accessToken: harvestConfig.accessToken,
+        source: 'api'
+      });
+
+      const results: SyncResult[] = [];
+      for (const resource of SYNC_RESOURCES) {
+        results.push(await this.syncResource(harvestService, harvestConfig, ownerId, resource, !!options.full));
+      }
+      return results;
+    })();
+    this.userRuns.set(ownerId, { results: run, full: !!options.full });
+
+    try {
+      return await run;
+    } finally {
+      this.userRuns.delete(ownerId);
+    }
+  }
+
+  // Sync every user's mirror, one user at a time. Teammates on the same
+  // Harvest account each get their own mirror, so nobody reads data their
+  // token can't see. Concurrent callers share the run already in progress.
+  public async syncAll(options: { full?: boolean } = {}): Promise<SyncResult[]> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = (async () => {
+      const harvestConfigs = await storage.getHarvestConfigs();
+      if (harvestConfigs.length === 0) {
+        console.log('No Harvest configuration found - skipping sync');
+        return [];
+      }
+
+      const results: SyncResult[] = [];
+      for (const harvestConfig of harvestConfigs) {
+        results.push(...await this.syncUser(harvestConfig, options));
+      }
+      return results;
+    })();
+
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  // The mirror of the user who owns this config
+  public async getStatus(harvestConfig: HarvestConfig): Promise<SyncStatus> {
+    const ownerId = harvestConfig.userId;
+    const states = ownerId ? await storage.getSyncStates(ownerId) : [];
+    const resources = await Promise.all(SYNC_RESOURCES.map(async resource => {
+      // A sync made with earlier credentials doesn't count
+      const state = states.find(s => s.resource === resource && s.configId === harvestConfig.id);
+      return {
+        resource,
+        status: state?.status || 'never',
+        lastSyncedAt: state?.lastSyncedAt ?? null,
+        lastFullSyncAt: state?.lastFullSyncAt ?? null,
+        error: state?.error ?? null,
+        rowCount: ownerId && state ? await storage.countHarvestRecords(ownerId, resource) : 0
+      };
+    }));
+
+    return {
+      accountId: harvestConfig.accountId,
+      running: !!ownerId && this.userRuns.has(ownerId),
+      resources
+    };
+  }
+
+  public startSyncWorker() {
+    // Incremental sync every 15 minutes,
+    // then check budgets against the fresh data
+    cron.schedule('0 */15 * * * *', () => {
+      this.syncAll()
+        .then(() => budgetAlerts.checkAll())
+        .catch(error => console.error('Scheduled Harvest sync failed:', error));
+    });
+
+    // Catch up right away on startup
+    this.syncAll().catch(error => console.error('Initial Harvest sync failed:', error));
+
+    console.log('Harvest sync worker started - syncing every 15 minutes');
+  }
+}
+
+export const harvestSync = new HarvestSyncWorker();
@@ -0,0 +1,136 @@
+import { HarvestTimeEntry, HarvestUser, WeekStartDay } from '@shared/schema';
+import { HarvestService } from './harvest';
+import { addDays, weeksBetween } from './date-range';
+
+// The most weeks one utilization report covers
+export const MAX_UTILIZATION_WEEKS = 26;
+
+export interface UtilizationMetrics {
+  hours: number;
+  billableHours: number;
+  // Weekly capacity, prorated for weeks cut short by the report's range
+  capacityHours: number;
+  // Hours against capacity; null when the person has no capacity set
+  utilizationPercent: number | null;
+  // Billable share of the hours logged; null when nothing was logged
+  billablePercent: number | null;
+}
+
+export interface UtilizationPerson {
+  userId: number;
+  name: string;
+  weeklyCapacityHours: number;
+  isContractor: boolean;
+  // One entry per week, in the order of TeamUtilization.weeks
+  weeks: UtilizationMetrics[];
+  total: UtilizationMetrics;
+}
+
+export interface TeamUtilization {
+  from: string;
+  to: string;
+  // Weeks from the account's week start day, clipped to the range
+  weeks: { start: string; end: string }[];
+  people: UtilizationPerson[];
+  // Everyone together, per week and for the whole range
+  weekTotals: UtilizationMetrics[];
+  total: UtilizationMetrics;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Monday-to-Friday days from start to end, inclusive
+function workdaysBetween(start: string, end: string): number {
+  let count = 0;
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (day !== 0 && day !== 6) count++;
+  }
+  return count;
+}
+
+function toMetrics(hours: number, billableHours: number, capacityHours: number): UtilizationMetrics {
+  return {
+    hours: round2(hours),
+    billableHours: round2(billableHours),
+    capacityHours: round2(capacityHours),
+    utilizationPercent: capacityHours > 0 ? round1(hours / capacityHours * 100) : null,
+    billablePercent: hours > 0 ? round1(billableHours / hours * 100) : null
+  };
+}
+
+function sumMetrics(rows: UtilizationMetrics[]): UtilizationMetrics {
+  return toMetrics(
+    rows.reduce((sum, row) => sum + row.hours, 0),
+    rows.reduce((sum, row) => sum + row.billableHours, 0),
+    rows.reduce((sum, row) => sum + row.capacityHours, 0)
+  );
+}
+
+// Hours against capacity and billable share per person per week. Covers
+// every active user, plus anyone else who logged time in the range.
+export function buildTeamUtilization(
+  users: HarvestUser[],
+  entries: HarvestTimeEntry[],
+  from: string,
+  to: string,
+  weekStartDay: WeekStartDay
+): TeamUtilization {
+  const weeks = weeksBetween(from, to, weekStartDay).map(week => ({ start: week.from, end: week.to }));
+  // Share of a full week's capacity each week covers (a Wednesday start is 3/5)
+  const weekShares = weeks.map(week => workdaysBetween(week.start, week.end) / 5);
+  const weekIndex = (date: string) => weeks.findIndex(week => date >= week.start && date <= week.end);
+
+  const logged = new Map<number, { name: string; hours: number[]; billable: number[] }>();
+  for (const entry of entries) {
+    const index = weekIndex(entry.spent_date);
+    if (index === -1) continue;
+    const person = logged.get(entry.user.id) || {
+      name: entry.user.name,
+      hours: weeks.map(() => 0),
+      billable: weeks.map(() => 0)
+    };
+    person.hours[index] += entry.hours;
+    if (entry.billable) person.billable[index] += entry.hours;
+    logged.set(entry.user.id, person);
+  }
+
+  const usersById = new Map(users.map(user => [user.id, user]));
+  const userIds = new Set([
+    ...users.filter(user => user.is_active).map(user => user.id),
+    ...Array.from(logged.keys())
+  ]);
+
+  const people = Array.from(userIds).map(userId => {
+    const user = usersById.get(userId);
+    const time = logged.get(userId);
+    // Harvest keeps capacity in seconds per week
+    const weeklyCapacityHours = user?.weekly_capacity ? round2(user.weekly_capacity / 3600) : 0;
+    const personWeeks = weeks.map((_, index) => toMetrics(
+      time?.hours[index] || 0,
+      time?.billable[index] || 0,
+      weeklyCapacityHours * weekShares[index]
+    ));
+    return {
+      userId,
+      name: user ? `${user.first_name} ${user.last_name}` : time?.name || 'Unknown',
+      weeklyCapacityHours,
+      isContractor: !!user?.is_contractor,
+      weeks: personWeeks,
+      total: sumMetrics(personWeeks)
+    };
+  }).sort((a, b) => a.name.localeCompare(b.name));
+
+  const weekTotals = weeks.map((_, index) => sumMetrics(people.map(person => person.weeks[index])));
+
+  return { from, to, weeks, people, weekTotals, total: sumMetrics(weekTotals) };
+}
+
+export async function getTeamUtilization(harvestService: HarvestService, from: string, to: string): Promise<TeamUtilization> {
+  console.log(`Building team utilization for ${from} to ${to}`);
+
+  const users = await harvestService.getUsers(false);
+  const entries = await harvestService.getTimeEntries({ dateRange: { from, to }, filters: {} });
+  return buildTeamUtilization(users, entries, from, to, harvestService.dateSettings.weekStartDay);
+}
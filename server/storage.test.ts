@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemStorage } from './storage';
+
+const minutes = (count: number) => count * 60 * 1000;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getDueReportDeliveries', () => {
+  it('returns due retries and stale pending deliveries, oldest first', async () => {
+    const storage = new MemStorage();
+    const start = new Date('2026-03-11T12:00:00Z');
+    vi.useFakeTimers({ now: start });
+
+    const stalePending = await storage.createReportDelivery({ runId: 'run-1', userId: 'user-1', recipient: 'a@example.com' });
+    const dueRetry = await storage.createReportDelivery({
+      runId: 'run-1', userId: 'user-1', recipient: 'b@example.com', status: 'retrying', nextAttemptAt: new Date(start.getTime() + minutes(5))
+    });
+    await storage.createReportDelivery({
+      runId: 'run-1', userId: 'user-1', recipient: 'c@example.com', status: 'retrying', nextAttemptAt: new Date(start.getTime() + minutes(60))
+    });
+    await storage.createReportDelivery({ runId: 'run-1', userId: 'user-1', recipient: 'd@example.com', status: 'sent' });
+
+    vi.setSystemTime(start.getTime() + minutes(20));
+    // Queued just now, so its first attempt may still be running
+    await storage.createReportDelivery({ runId: 'run-2', userId: 'user-1', recipient: 'e@example.com' });
+
+    const now = new Date();
+    const due = await storage.getDueReportDeliveries(now, new Date(now.getTime() - minutes(15)));
+
+    expect(due.map(delivery => delivery.id)).toEqual([stalePending.id, dueRetry.id]);
+  });
+});
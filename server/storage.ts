@@ -1,27 +1,162 @@
-import { type User, type InsertUser, type ChatMessage, type InsertChatMessage, type HarvestConfig, type InsertHarvestConfig, type EmailConfig, type InsertEmailConfig, users, chatMessages, harvestConfig, emailConfig } from "@shared/schema";
+import { type User, type InsertUser, type Conversation, type InsertConversation, type ChatMessage, type InsertChatMessage, type HarvestConfig, type InsertHarvestConfig, type HarvestDateSettings, type EmailConfig, type InsertEmailConfig, type ReportDefinition, type InsertReportDefinition, type HarvestTimeEntry, type HarvestProject, type HarvestClient, type HarvestUser, type HarvestResource, type HarvestSyncState, type AlertSettings, type InsertAlertSettings, type BudgetAlert, type InsertBudgetAlert, type ReportSchedule, type InsertReportSchedule, type ReportRun, type InsertReportRun, type ReportDelivery, type InsertReportDelivery, type LlmCall, type InsertLlmCall, users, conversations, chatMessages, harvestConfig, emailConfig, reportDefinitions, timeEntries, harvestProjects, harvestClients, harvestUsers, harvestSyncState, alertSettings, budgetAlerts, reportSchedules, reportRuns, reportDeliveries, llmCalls, appMigrations } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { db, pool } from "./db";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { encryptSecret, decryptSecret, reencryptSecret, needsReencryption } from "./secrets";
+import { eq, ne, and, or, gte, lte, lt, asc, desc, count, isNull, inArray, sql, type SQL } from "drizzle-orm";
+
+export interface TimeEntryCacheFilter {
+  from?: string;
+  to?: string;
+  userId?: number;
+  projectId?: number;
+  clientId?: number;
+}
+
+// Any record the sync worker pulls from Harvest
+export type HarvestRecord = (HarvestTimeEntry | HarvestProject | HarvestClient | HarvestUser) & { updated_at?: string };
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Give conversations and configs saved before sign-in existed to this user
+  claimUnownedData(userId: string): Promise<void>;
+  
+  // Conversation operations (always scoped to the signed-in user)
+  getConversations(userId: string): Promise<Conversation[]>;
+  getConversation(userId: string, id: string): Promise<Conversation | undefined>;
+  createConversation(userId: string, conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(userId: string, id: string, conversation: Partial<InsertConversation>): Promise<Conversation | undefined>;
+  // Move messages saved before conversations existed into one conversation
+  claimOrphanChatMessages(userId: string, title: string): Promise<Conversation | undefined>;
   
   // Chat message operations
-  getChatMessages(): Promise<ChatMessage[]>;
+  getChatMessages(conversationId?: string): Promise<ChatMessage[]>;
+  // One message, only if it's in one of the user's conversations
+  getChatMessage(userId: string, id: string): Promise<ChatMessage | undefined>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
   
-  // Harvest configuration operations
-  getHarvestConfig(): Promise<HarvestConfig | undefined>;
-  saveHarvestConfig(config: InsertHarvestConfig): Promise<HarvestConfig>;
+  // Harvest configuration operations (one active config per user)
+  getHarvestConfig(userId: string): Promise<HarvestConfig | undefined>;
+  getHarvestConfigs(): Promise<HarvestConfig[]>;
+  saveHarvestConfig(userId: string, config: InsertHarvestConfig): Promise<HarvestConfig>;
+  updateHarvestDateSettings(userId: string, settings: HarvestDateSettings): Promise<HarvestConfig | undefined>;
+  
+  // Email configuration operations (one active config per user)
+  getEmailConfig(userId: string): Promise<EmailConfig | undefined>;
+  getEmailConfigs(): Promise<EmailConfig[]>;
+  saveEmailConfig(userId: string, config: Partial<InsertEmailConfig>): Promise<EmailConfig>;
+  // Encrypt any plaintext credentials and re-wrap ones under an old master key.
+  // Returns how many rows were rewritten.
+  reencryptSecrets(): Promise<{ harvestConfigs: number; emailConfigs: number }>;
+  // How many rows reencryptSecrets would rewrite, without changing any
+  countStaleSecrets(): Promise<{ harvestConfigs: number; emailConfigs: number }>;
+  
+  // Report definition operations
+  getReportDefinitions(): Promise<ReportDefinition[]>;
+  getReportDefinition(id: string): Promise<ReportDefinition | undefined>;
+  getActiveReportDefinition(): Promise<ReportDefinition | undefined>;
+  createReportDefinition(definition: InsertReportDefinition): Promise<ReportDefinition>;
+  updateReportDefinition(id: string, definition: Partial<InsertReportDefinition>): Promise<ReportDefinition | undefined>;
+  deleteReportDefinition(id: string): Promise<boolean>;
+  
+  // Harvest mirror operations (filled by the sync worker)
+  upsertHarvestRecords(ownerId: string, resource: HarvestResource, records: HarvestRecord[], syncedAt: Date): Promise<void>;
+  pruneHarvestRecords(ownerId: string, resource: HarvestResource, syncedBefore: Date): Promise<number>;
+  countHarvestRecords(ownerId: string, resource: HarvestResource): Promise<number>;
+  getCachedTimeEntries(ownerId: string, filter: TimeEntryCacheFilter): Promise<HarvestTimeEntry[]>;
+  getCachedProjects(ownerId: string, activeOnly?: boolean): Promise<HarvestProject[]>;
+  getCachedClients(ownerId: string): Promise<HarvestClient[]>;
+  getCachedHarvestUsers(ownerId: string): Promise<HarvestUser[]>;
+  getSyncStates(ownerId: string): Promise<HarvestSyncState[]>;
+  getSyncState(ownerId: string, resource: HarvestResource): Promise<HarvestSyncState | undefined>;
+  saveSyncState(state: HarvestSyncState): Promise<HarvestSyncState>;
+  
+  // Budget alert operations
+  getAlertSettings(userId: string): Promise<AlertSettings | undefined>;
+  saveAlertSettings(userId: string, settings: InsertAlertSettings): Promise<AlertSettings>;
+  getBudgetAlerts(userId: string, limit?: number): Promise<BudgetAlert[]>;
+  findBudgetAlert(userId: string, month: string, projectKey: string, threshold: number): Promise<BudgetAlert | undefined>;
+  createBudgetAlert(alert: InsertBudgetAlert): Promise<BudgetAlert>;
+  updateBudgetAlert(id: string, alert: Partial<InsertBudgetAlert>): Promise<BudgetAlert | undefined>;
+  
+  // Report schedule operations (scoped to the owner, except the scheduler's full list)
+  getReportSchedules(userId: string): Promise<ReportSchedule[]>;
+  getAllReportSchedules(): Promise<ReportSchedule[]>;
+  getReportSchedule(userId: string, id: string): Promise<ReportSchedule | undefined>;
+  createReportSchedule(userId: string, schedule: InsertReportSchedule): Promise<ReportSchedule>;
+  updateReportSchedule(userId: string, id: string, schedule: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined>;
+  deleteReportSchedule(userId: string, id: string): Promise<boolean>;
+  markReportScheduleRun(id: string, ranAt: Date): Promise<void>;
+
+  // One-off data migrations, by name
+  hasMigrationRun(name: string): Promise<boolean>;
+  recordMigration(name: string): Promise<void>;
   
-  // Email configuration operations
-  getEmailConfig(): Promise<EmailConfig | undefined>;
-  saveEmailConfig(config: InsertEmailConfig): Promise<EmailConfig>;
+  // Report delivery log operations
+  createReportRun(run: InsertReportRun): Promise<ReportRun>;
+  getReportRun(id: string): Promise<ReportRun | undefined>;
+  getReportRuns(userId: string, limit?: number): Promise<ReportRun[]>;
+  createReportDelivery(delivery: InsertReportDelivery): Promise<ReportDelivery>;
+  updateReportDelivery(id: string, delivery: Partial<InsertReportDelivery>): Promise<ReportDelivery | undefined>;
+  getReportDeliveriesForRuns(runIds: string[]): Promise<ReportDelivery[]>;
+  // Deliveries waiting to be retried whose next attempt is due, and pending
+  // ones last touched before stalePendingBefore (their first attempt never
+  // finished, e.g. the server stopped mid-send)
+  getDueReportDeliveries(now: Date, stalePendingBefore: Date): Promise<ReportDelivery[]>;
+
+  // LLM usage log operations (ranges are from inclusive, to exclusive)
+  createLlmCalls(calls: InsertLlmCall[]): Promise<void>;
+  getLlmCalls(from: Date, to: Date): Promise<LlmCall[]>;
+  // Estimated cost of every call since a moment, in USD
+  getLlmCostSince(since: Date): Promise<number>;
+}
+
+const UPSERT_BATCH_SIZE = 500;
+
+const mirrorTables = {
+  time_entries: timeEntries,
+  projects: harvestProjects,
+  clients: harvestClients,
+  users: harvestUsers
+};
+
+// Email settings copied as-is when saving; the password is handled separately
+const EMAIL_TRANSPORT_FIELDS = ['transport', 'smtpHost', 'smtpPort', 'smtpSecure', 'smtpAllowInvalidCerts', 'fileSinkDir'] as const;
+
+// Credentials are encrypted in storage and decrypted on the way out, so
+// callers only ever see plaintext (see ./secrets)
+function decryptHarvestConfig(config: HarvestConfig): HarvestConfig {
+  return { ...config, accessToken: decryptSecret(config.accessToken) };
+}
+
+function decryptEmailConfig(config: EmailConfig): EmailConfig {
+  return { ...config, emailPassword: decryptSecret(config.emailPassword) };
+}
+
+function harvestUpdatedAt(record: HarvestRecord): Date | null {
+  return record.updated_at ? new Date(record.updated_at) : null;
+}
+
+function harvestUserName(user: HarvestUser): string {
+  return `${user.first_name} ${user.last_name}`.trim();
 }
 
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -40,8 +175,64 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getChatMessages(): Promise<ChatMessage[]> {
-    return await db.select().from(chatMessages).orderBy(chatMessages.timestamp);
+  async claimUnownedData(userId: string): Promise<void> {
+    await db.update(conversations).set({ userId }).where(isNull(conversations.userId));
+    await db.update(harvestConfig).set({ userId }).where(isNull(harvestConfig.userId));
+    await db.update(emailConfig).set({ userId }).where(isNull(emailConfig.userId));
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return await db.select().from(conversations).where(eq(conversations.userId, userId)).orderBy(desc(conversations.updatedAt));
+  }
+
+  async getConversation(userId: string, id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
+    return conversation || undefined;
+  }
+
+  async createConversation(userId: string, insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await db
+      .insert(conversations)
+      .values({ ...insertConversation, userId })
+      .returning();
+    return conversation;
+  }
+
+  async updateConversation(userId: string, id: string, conversation: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const [updatedConversation] = await db
+      .update(conversations)
+      .set({ ...conversation, updatedAt: new Date() })
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)))
+      .returning();
+    return updatedConversation || undefined;
+  }
+
+  async claimOrphanChatMessages(userId: string, title: string): Promise<Conversation | undefined> {
+    const orphans = await db.select({ id: chatMessages.id }).from(chatMessages).where(isNull(chatMessages.conversationId)).limit(1);
+    if (orphans.length === 0) {
+      return undefined;
+    }
+    
+    const conversation = await this.createConversation(userId, { title });
+    await db.update(chatMessages).set({ conversationId: conversation.id }).where(isNull(chatMessages.conversationId));
+    return conversation;
+  }
+
+  async getChatMessages(conversationId?: string): Promise<ChatMessage[]> {
+    const query = db.select().from(chatMessages);
+    if (conversationId) {
+      return await query.where(eq(chatMessages.conversationId, conversationId)).orderBy(chatMessages.timestamp);
+    }
+    return await query.orderBy(chatMessages.timestamp);
+  }
+
+  async getChatMessage(userId: string, id: string): Promise<ChatMessage | undefined> {
+    const [row] = await db
+      .select({ message: chatMessages })
+      .from(chatMessages)
+      .innerJoin(conversations, eq(chatMessages.conversationId, conversations.id))
+      .where(and(eq(chatMessages.id, id), eq(conversations.userId, userId)));
+    return row?.message;
   }
 
   async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
@@ -49,57 +240,99 @@ export class DatabaseStorage implements IStorage {
       .insert(chatMessages)
       .values({
         ...insertMessage,
+        conversationId: insertMessage.conversationId ?? null,
         harvestData: insertMessage.harvestData ?? null,
         queryType: insertMessage.queryType ?? null
       })
       .returning();
+    
+    // Keep the most recently used conversation at the top of the list
+    if (message.conversationId) {
+      await db.update(conversations).set({ updatedAt: new Date() }).where(eq(conversations.id, message.conversationId));
+    }
     return message;
   }
 
-  async getHarvestConfig(): Promise<HarvestConfig | undefined> {
-    const configs = await db.select().from(harvestConfig).where(eq(harvestConfig.isActive, true)).limit(1);
-    return configs[0] || undefined;
+  async getHarvestConfig(userId: string): Promise<HarvestConfig | undefined> {
+    const configs = await db.select().from(harvestConfig)
+      .where(and(eq(harvestConfig.userId, userId), eq(harvestConfig.isActive, true)))
+      .limit(1);
+    return configs[0] ? decryptHarvestConfig(configs[0]) : undefined;
+  }
+
+  async getHarvestConfigs(): Promise<HarvestConfig[]> {
+    const configs = await db.select().from(harvestConfig).where(eq(harvestConfig.isActive, true));
+    return configs.map(decryptHarvestConfig);
   }
 
-  async saveHarvestConfig(config: InsertHarvestConfig): Promise<HarvestConfig> {
-    // Deactivate any existing configs
-    await db.update(harvestConfig).set({ isActive: false });
+  async saveHarvestConfig(userId: string, config: InsertHarvestConfig): Promise<HarvestConfig> {
+    // New credentials keep the date settings chosen for the old ones
+    const previous = await this.getHarvestConfig(userId);
+
+    // Deactivate this user's existing configs
+    await db.update(harvestConfig).set({ isActive: false }).where(eq(harvestConfig.userId, userId));
     
     // Insert new config
     const [newConfig] = await db
       .insert(harvestConfig)
       .values({
         ...config,
-        isActive: true
+        accessToken: encryptSecret(config.accessToken),
+        userId,
+        isActive: true,
+        ...(previous && {
+          timezone: previous.timezone,
+          weekStartDay: previous.weekStartDay,
+          fiscalYearStartMonth: previous.fiscalYearStartMonth
+        })
       })
       .returning();
-    return newConfig;
+    return decryptHarvestConfig(newConfig);
+  }
+
+  async updateHarvestDateSettings(userId: string, settings: HarvestDateSettings): Promise<HarvestConfig | undefined> {
+    const [updated] = await db.update(harvestConfig)
+      .set(settings)
+      .where(and(eq(harvestConfig.userId, userId), eq(harvestConfig.isActive, true)))
+      .returning();
+    return updated ? decryptHarvestConfig(updated) : undefined;
+  }
+
+  async getEmailConfig(userId: string): Promise<EmailConfig | undefined> {
+    const configs = await db.select().from(emailConfig)
+      .where(and(eq(emailConfig.userId, userId), eq(emailConfig.isActive, true)))
+      .limit(1);
+    return configs[0] ? decryptEmailConfig(configs[0]) : undefined;
   }
 
-  async getEmailConfig(): Promise<EmailConfig | undefined> {
-    const configs = await db.select().from(emailConfig).where(eq(emailConfig.isActive, true)).limit(1);
-    return configs[0] || undefined;
+  async getEmailConfigs(): Promise<EmailConfig[]> {
+    const configs = await db.select().from(emailConfig).where(eq(emailConfig.isActive, true));
+    return configs.map(decryptEmailConfig);
   }
 
-  async saveEmailConfig(config: Partial<InsertEmailConfig>): Promise<EmailConfig> {
-    const existing = await this.getEmailConfig();
+  async saveEmailConfig(userId: string, config: Partial<InsertEmailConfig>): Promise<EmailConfig> {
+    const existing = await this.getEmailConfig(userId);
     
     if (existing) {
       // Update existing configuration
       const updateData: any = { isActive: true };
       if (config.emailUser !== undefined) updateData.emailUser = config.emailUser;
-      if (config.emailPassword !== undefined) updateData.emailPassword = config.emailPassword;
+      if (config.emailPassword !== undefined) updateData.emailPassword = encryptSecret(config.emailPassword);
       if (config.reportRecipients !== undefined) updateData.reportRecipients = config.reportRecipients || 'david@webapper.com';
+      for (const key of EMAIL_TRANSPORT_FIELDS) {
+        if (config[key] !== undefined) updateData[key] = config[key];
+      }
       
       const [updatedConfig] = await db
         .update(emailConfig)
         .set(updateData)
         .where(eq(emailConfig.id, existing.id))
         .returning();
-      return updatedConfig;
+      return decryptEmailConfig(updatedConfig);
     } else {
-      // Create new configuration - require email and password
-      if (!config.emailUser || !config.emailPassword) {
+      // Create new configuration - require email and password, except for
+      // the file sink which doesn't log in anywhere
+      if (!config.emailUser || (!config.emailPassword && config.transport !== 'file')) {
         throw new Error("Email user and password are required for new configuration");
       }
       
@@ -107,26 +340,478 @@ export class DatabaseStorage implements IStorage {
         .insert(emailConfig)
         .values({
           ...config,
+          emailUser: config.emailUser,
+          emailPassword: encryptSecret(config.emailPassword || ''),
           reportRecipients: config.reportRecipients || 'david@webapper.com',
+          userId,
           isActive: true
         })
         .returning();
-      return newConfig;
+      return decryptEmailConfig(newConfig);
     }
   }
+
+  async reencryptSecrets(): Promise<{ harvestConfigs: number; emailConfigs: number }> {
+    // Inactive rows too: they still hold old tokens
+    let harvestConfigs = 0;
+    for (const config of await db.select().from(harvestConfig)) {
+      const accessToken = reencryptSecret(config.accessToken);
+      if (accessToken) {
+        await db.update(harvestConfig).set({ accessToken }).where(eq(harvestConfig.id, config.id));
+        harvestConfigs++;
+      }
+    }
+
+    let emailConfigs = 0;
+    for (const config of await db.select().from(emailConfig)) {
+      const emailPassword = reencryptSecret(config.emailPassword);
+      if (emailPassword) {
+        await db.update(emailConfig).set({ emailPassword }).where(eq(emailConfig.id, config.id));
+        emailConfigs++;
+      }
+    }
+
+    return { harvestConfigs, emailConfigs };
+  }
+
+  async countStaleSecrets(): Promise<{ harvestConfigs: number; emailConfigs: number }> {
+    const tokens = await db.select({ value: harvestConfig.accessToken }).from(harvestConfig);
+    const passwords = await db.select({ value: emailConfig.emailPassword }).from(emailConfig);
+    return {
+      harvestConfigs: tokens.filter(row => needsReencryption(row.value)).length,
+      emailConfigs: passwords.filter(row => needsReencryption(row.value)).length
+    };
+  }
+
+  async getReportDefinitions(): Promise<ReportDefinition[]> {
+    return await db.select().from(reportDefinitions).orderBy(reportDefinitions.name);
+  }
+
+  async getReportDefinition(id: string): Promise<ReportDefinition | undefined> {
+    const [definition] = await db.select().from(reportDefinitions).where(eq(reportDefinitions.id, id));
+    return definition || undefined;
+  }
+
+  async getActiveReportDefinition(): Promise<ReportDefinition | undefined> {
+    const definitions = await db.select().from(reportDefinitions).where(eq(reportDefinitions.isActive, true)).limit(1);
+    return definitions[0] || undefined;
+  }
+
+  async createReportDefinition(definition: InsertReportDefinition): Promise<ReportDefinition> {
+    const isActive = definition.isActive ?? true;
+    
+    // Only one definition drives the report at a time
+    return await db.transaction(async (tx) => {
+      if (isActive) {
+        await tx.update(reportDefinitions).set({ isActive: false });
+      }
+
+      const [newDefinition] = await tx
+        .insert(reportDefinitions)
+        .values({
+          ...definition,
+          isActive
+        })
+        .returning();
+      return newDefinition;
+    });
+  }
+
+  async updateReportDefinition(id: string, definition: Partial<InsertReportDefinition>): Promise<ReportDefinition | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedDefinition] = await tx
+        .update(reportDefinitions)
+        .set({ ...definition, updatedAt: new Date() })
+        .where(eq(reportDefinitions.id, id))
+        .returning();
+      // Switch the others off only once this one is known to exist
+      if (updatedDefinition && definition.isActive) {
+        await tx.update(reportDefinitions).set({ isActive: false }).where(ne(reportDefinitions.id, id));
+      }
+      return updatedDefinition || undefined;
+    });
+  }
+
+  async deleteReportDefinition(id: string): Promise<boolean> {
+    const deleted = await db.delete(reportDefinitions).where(eq(reportDefinitions.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async upsertHarvestRecords(ownerId: string, resource: HarvestResource, records: HarvestRecord[], syncedAt: Date): Promise<void> {
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      const batch = records.slice(i, i + UPSERT_BATCH_SIZE);
+      
+      switch (resource) {
+        case 'time_entries':
+          await db
+            .insert(timeEntries)
+            .values((batch as HarvestTimeEntry[]).map(entry => ({
+              ownerId,
+              id: entry.id,
+              spentDate: entry.spent_date,
+              userId: entry.user.id,
+              projectId: entry.project.id,
+              clientId: entry.client.id,
+              data: entry,
+              harvestUpdatedAt: harvestUpdatedAt(entry),
+              syncedAt
+            })))
+            .onConflictDoUpdate({
+              target: [timeEntries.ownerId, timeEntries.id],
+              set: {
+                spentDate: sql`excluded.spent_date`,
+                userId: sql`excluded.user_id`,
+                projectId: sql`excluded.project_id`,
+                clientId: sql`excluded.client_id`,
+                data: sql`excluded.data`,
+                harvestUpdatedAt: sql`excluded.harvest_updated_at`,
+                syncedAt: sql`excluded.synced_at`
+              }
+            });
+          break;
+        case 'projects':
+          await db
+            .insert(harvestProjects)
+            .values((batch as HarvestProject[]).map(project => ({
+              ownerId,
+              id: project.id,
+              clientId: project.client?.id ?? null,
+              name: project.name,
+              isActive: project.is_active,
+              data: project,
+              harvestUpdatedAt: harvestUpdatedAt(project),
+              syncedAt
+            })))
+            .onConflictDoUpdate({
+              target: [harvestProjects.ownerId, harvestProjects.id],
+              set: {
+                clientId: sql`excluded.client_id`,
+                name: sql`excluded.name`,
+                isActive: sql`excluded.is_active`,
+                data: sql`excluded.data`,
+                harvestUpdatedAt: sql`excluded.harvest_updated_at`,
+                syncedAt: sql`excluded.synced_at`
+              }
+            });
+          break;
+        case 'clients':
+          await db
+            .insert(harvestClients)
+            .values((batch as HarvestClient[]).map(client => ({
+              ownerId,
+              id: client.id,
+              name: client.name,
+              isActive: client.is_active,
+              data: client,
+              harvestUpdatedAt: harvestUpdatedAt(client),
+              syncedAt
+            })))
+            .onConflictDoUpdate({
+              target: [harvestClients.ownerId, harvestClients.id],
+              set: {
+                name: sql`excluded.name`,
+                isActive: sql`excluded.is_active`,
+                data: sql`excluded.data`,
+                harvestUpdatedAt: sql`excluded.harvest_updated_at`,
+                syncedAt: sql`excluded.synced_at`
+              }
+            });
+          break;
+        case 'users':
+          await db
+            .insert(harvestUsers)
+            .values((batch as HarvestUser[]).map(user => ({
+              ownerId,
+              id: user.id,
+              name: harvestUserName(user),
+              isActive: user.is_active,
+              data: user,
+              harvestUpdatedAt: harvestUpdatedAt(user),
+              syncedAt
+            })))
+            .onConflictDoUpdate({
+              target: [harvestUsers.ownerId, harvestUsers.id],
+              set: {
+                name: sql`excluded.name`,
+                isActive: sql`excluded.is_active`,
+                data: sql`excluded.data`,
+                harvestUpdatedAt: sql`excluded.harvest_updated_at`,
+                syncedAt: sql`excluded.synced_at`
+              }
+            });
+          break;
+      }
+    }
+  }
+
+  async pruneHarvestRecords(ownerId: string, resource: HarvestResource, syncedBefore: Date): Promise<number> {
+    const table = mirrorTables[resource];
+    const deleted = await db
+      .delete(table)
+      .where(and(eq(table.ownerId, ownerId), lt(table.syncedAt, syncedBefore)))
+      .returning({ id: table.id });
+    return deleted.length;
+  }
+
+  async countHarvestRecords(ownerId: string, resource: HarvestResource): Promise<number> {
+    const table = mirrorTables[resource];
+    const [result] = await db.select({ value: count() }).from(table).where(eq(table.ownerId, ownerId));
+    return result?.value || 0;
+  }
+
+  async getCachedTimeEntries(ownerId: string, filter: TimeEntryCacheFilter): Promise<HarvestTimeEntry[]> {
+    const conditions: SQL[] = [eq(timeEntries.ownerId, ownerId)];
+    if (filter.from) conditions.push(gte(timeEntries.spentDate, filter.from));
+    if (filter.to) conditions.push(lte(timeEntries.spentDate, filter.to));
+    if (filter.userId) conditions.push(eq(timeEntries.userId, filter.userId));
+    if (filter.projectId) conditions.push(eq(timeEntries.projectId, filter.projectId));
+    if (filter.clientId) conditions.push(eq(timeEntries.clientId, filter.clientId));
+    
+    const rows = await db
+      .select({ data: timeEntries.data })
+      .from(timeEntries)
+      .where(and(...conditions))
+      .orderBy(asc(timeEntries.spentDate), asc(timeEntries.id));
+    return rows.map(row => row.data);
+  }
+
+  async getCachedProjects(ownerId: string, activeOnly = false): Promise<HarvestProject[]> {
+    const conditions: SQL[] = [eq(harvestProjects.ownerId, ownerId)];
+    if (activeOnly) conditions.push(eq(harvestProjects.isActive, true));
+    const rows = await db.select({ data: harvestProjects.data }).from(harvestProjects).where(and(...conditions)).orderBy(harvestProjects.name);
+    return rows.map(row => row.data);
+  }
+
+  async getCachedClients(ownerId: string): Promise<HarvestClient[]> {
+    const rows = await db.select({ data: harvestClients.data }).from(harvestClients).where(eq(harvestClients.ownerId, ownerId)).orderBy(harvestClients.name);
+    return rows.map(row => row.data);
+  }
+
+  async getCachedHarvestUsers(ownerId: string): Promise<HarvestUser[]> {
+    const rows = await db.select({ data: harvestUsers.data }).from(harvestUsers).where(eq(harvestUsers.ownerId, ownerId)).orderBy(harvestUsers.name);
+    return rows.map(row => row.data);
+  }
+
+  async getSyncStates(ownerId: string): Promise<HarvestSyncState[]> {
+    return await db.select().from(harvestSyncState).where(eq(harvestSyncState.ownerId, ownerId));
+  }
+
+  async getSyncState(ownerId: string, resource: HarvestResource): Promise<HarvestSyncState | undefined> {
+    const [state] = await db
+      .select()
+      .from(harvestSyncState)
+      .where(and(eq(harvestSyncState.ownerId, ownerId), eq(harvestSyncState.resource, resource)));
+    return state || undefined;
+  }
+
+  async saveSyncState(state: HarvestSyncState): Promise<HarvestSyncState> {
+    const [saved] = await db
+      .insert(harvestSyncState)
+      .values(state)
+      .onConflictDoUpdate({
+        target: [harvestSyncState.ownerId, harvestSyncState.resource],
+        set: state
+      })
+      .returning();
+    return saved;
+  }
+
+  async getAlertSettings(userId: string): Promise<AlertSettings | undefined> {
+    const [settings] = await db.select().from(alertSettings).where(eq(alertSettings.userId, userId));
+    return settings || undefined;
+  }
+
+  async saveAlertSettings(userId: string, settings: InsertAlertSettings): Promise<AlertSettings> {
+    const values = { ...settings, userId, updatedAt: new Date() };
+    const [saved] = await db
+      .insert(alertSettings)
+      .values(values)
+      .onConflictDoUpdate({ target: alertSettings.userId, set: values })
+      .returning();
+    return saved;
+  }
+
+  async getBudgetAlerts(userId: string, limit = 100): Promise<BudgetAlert[]> {
+    return await db.select().from(budgetAlerts)
+      .where(eq(budgetAlerts.userId, userId))
+      .orderBy(desc(budgetAlerts.triggeredAt))
+      .limit(limit);
+  }
+
+  async findBudgetAlert(userId: string, month: string, projectKey: string, threshold: number): Promise<BudgetAlert | undefined> {
+    const [alert] = await db.select().from(budgetAlerts).where(and(
+      eq(budgetAlerts.userId, userId),
+      eq(budgetAlerts.month, month),
+      eq(budgetAlerts.projectKey, projectKey),
+      eq(budgetAlerts.threshold, threshold)
+    ));
+    return alert || undefined;
+  }
+
+  async createBudgetAlert(alert: InsertBudgetAlert): Promise<BudgetAlert> {
+    const [created] = await db.insert(budgetAlerts).values(alert).returning();
+    return created;
+  }
+
+  async updateBudgetAlert(id: string, alert: Partial<InsertBudgetAlert>): Promise<BudgetAlert | undefined> {
+    const [updated] = await db.update(budgetAlerts).set(alert).where(eq(budgetAlerts.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async getReportSchedules(userId: string): Promise<ReportSchedule[]> {
+    return await db.select().from(reportSchedules)
+      .where(eq(reportSchedules.userId, userId))
+      .orderBy(asc(reportSchedules.createdAt));
+  }
+
+  async getAllReportSchedules(): Promise<ReportSchedule[]> {
+    return await db.select().from(reportSchedules).orderBy(asc(reportSchedules.createdAt));
+  }
+
+  async getReportSchedule(userId: string, id: string): Promise<ReportSchedule | undefined> {
+    const [schedule] = await db.select().from(reportSchedules)
+      .where(and(eq(reportSchedules.id, id), eq(reportSchedules.userId, userId)));
+    return schedule || undefined;
+  }
+
+  async createReportSchedule(userId: string, schedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const [created] = await db.insert(reportSchedules).values({ ...schedule, userId }).returning();
+    return created;
+  }
+
+  async updateReportSchedule(userId: string, id: string, schedule: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined> {
+    const [updated] = await db
+      .update(reportSchedules)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(and(eq(reportSchedules.id, id), eq(reportSchedules.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteReportSchedule(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(reportSchedules)
+      .where(and(eq(reportSchedules.id, id), eq(reportSchedules.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async markReportScheduleRun(id: string, ranAt: Date): Promise<void> {
+    await db.update(reportSchedules).set({ lastRunAt: ranAt }).where(eq(reportSchedules.id, id));
+  }
+
+  async hasMigrationRun(name: string): Promise<boolean> {
+    const [migration] = await db.select().from(appMigrations).where(eq(appMigrations.name, name));
+    return !!migration;
+  }
+
+  async recordMigration(name: string): Promise<void> {
+    await db.insert(appMigrations).values({ name }).onConflictDoNothing();
+  }
+
+  async createReportRun(run: InsertReportRun): Promise<ReportRun> {
+    const [created] = await db.insert(reportRuns).values(run).returning();
+    return created;
+  }
+
+  async getReportRun(id: string): Promise<ReportRun | undefined> {
+    const [run] = await db.select().from(reportRuns).where(eq(reportRuns.id, id));
+    return run || undefined;
+  }
+
+  async getReportRuns(userId: string, limit = 50): Promise<ReportRun[]> {
+    return await db.select().from(reportRuns)
+      .where(eq(reportRuns.userId, userId))
+      .orderBy(desc(reportRuns.createdAt))
+      .limit(limit);
+  }
+
+  async createReportDelivery(delivery: InsertReportDelivery): Promise<ReportDelivery> {
+    const [created] = await db.insert(reportDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async updateReportDelivery(id: string, delivery: Partial<InsertReportDelivery>): Promise<ReportDelivery | undefined> {
+    const [updated] = await db
+      .update(reportDeliveries)
+      .set({ ...delivery, updatedAt: new Date() })
+      .where(eq(reportDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getReportDeliveriesForRuns(runIds: string[]): Promise<ReportDelivery[]> {
+    if (runIds.length === 0) return [];
+    return await db.select().from(reportDeliveries)
+      .where(inArray(reportDeliveries.runId, runIds))
+      .orderBy(asc(reportDeliveries.recipient));
+  }
+
+  async getDueReportDeliveries(now: Date, stalePendingBefore: Date): Promise<ReportDelivery[]> {
+    return await db.select().from(reportDeliveries)
+      .where(or(
+        and(eq(reportDeliveries.status, 'retrying'), lte(reportDeliveries.nextAttemptAt, now)),
+        and(eq(reportDeliveries.status, 'pending'), lte(reportDeliveries.updatedAt, stalePendingBefore))
+      ))
+      .orderBy(asc(sql`coalesce(${reportDeliveries.nextAttemptAt}, ${reportDeliveries.updatedAt})`));
+  }
+
+  async createLlmCalls(calls: InsertLlmCall[]): Promise<void> {
+    if (calls.length === 0) return;
+    await db.insert(llmCalls).values(calls);
+  }
+
+  async getLlmCalls(from: Date, to: Date): Promise<LlmCall[]> {
+    return await db.select().from(llmCalls)
+      .where(and(gte(llmCalls.createdAt, from), lt(llmCalls.createdAt, to)))
+      .orderBy(asc(llmCalls.createdAt));
+  }
+
+  async getLlmCostSince(since: Date): Promise<number> {
+    const [row] = await db
+      .select({ total: sql<number>`coalesce(sum(${llmCalls.costUsd}), 0)` })
+      .from(llmCalls)
+      .where(gte(llmCalls.createdAt, since));
+    return Number(row?.total ?? 0);
+  }
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<string, User>;
+  private conversations: Map<string, Conversation>;
   private chatMessages: Map<string, ChatMessage>;
-  private harvestConfig: HarvestConfig | undefined;
-  private emailConfig: EmailConfig | undefined;
+  // Active configs keyed by user id
+  private harvestConfigs: Map<string, HarvestConfig>;
+  private emailConfigs: Map<string, EmailConfig>;
+  private reportDefinitions: Map<string, ReportDefinition>;
+  // Mirror rows keyed by `${ownerId}:${resource}`, then Harvest id
+  private harvestRecords: Map<string, Map<number, { record: HarvestRecord; syncedAt: Date }>>;
+  private syncStates: Map<string, HarvestSyncState>;
+  private alertSettings: Map<string, AlertSettings>;
+  private budgetAlerts: Map<string, BudgetAlert>;
+  private reportSchedules: Map<string, ReportSchedule>;
+  private reportRuns: Map<string, ReportRun>;
+  private reportDeliveries: Map<string, ReportDelivery>;
+  private llmCalls: LlmCall[];
+  private migrations: Set<string>;
 
   constructor() {
     this.users = new Map();
+    this.conversations = new Map();
     this.chatMessages = new Map();
-    this.harvestConfig = undefined;
-    this.emailConfig = undefined;
+    this.harvestConfigs = new Map();
+    this.emailConfigs = new Map();
+    this.reportDefinitions = new Map();
+    this.harvestRecords = new Map();
+    this.syncStates = new Map();
+    this.alertSettings = new Map();
+    this.budgetAlerts = new Map();
+    this.reportSchedules = new Map();
+    this.reportRuns = new Map();
+    this.reportDeliveries = new Map();
+    this.llmCalls = [];
+    this.migrations = new Set();
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -146,10 +831,61 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async getChatMessages(): Promise<ChatMessage[]> {
-    return Array.from(this.chatMessages.values()).sort(
-      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+  async claimUnownedData(userId: string): Promise<void> {
+    // Configs saved before sign-in existed only ever live in memory for one run,
+    // so there is nothing to claim beyond conversations
+    this.conversations.forEach(conversation => {
+      if (!conversation.userId) conversation.userId = userId;
+    });
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getConversation(userId: string, id: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation?.userId === userId ? conversation : undefined;
+  }
+
+  async createConversation(userId: string, insertConversation: InsertConversation): Promise<Conversation> {
+    const id = randomUUID();
+    const now = new Date();
+    const conversation: Conversation = { ...insertConversation, id, userId, createdAt: now, updatedAt: now };
+    this.conversations.set(id, conversation);
+    return conversation;
+  }
+
+  async updateConversation(userId: string, id: string, conversation: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const existing = await this.getConversation(userId, id);
+    if (!existing) return undefined;
+    const updated: Conversation = { ...existing, ...conversation, updatedAt: new Date() };
+    this.conversations.set(id, updated);
+    return updated;
+  }
+
+  async claimOrphanChatMessages(userId: string, title: string): Promise<Conversation | undefined> {
+    const orphans = Array.from(this.chatMessages.values()).filter(message => !message.conversationId);
+    if (orphans.length === 0) {
+      return undefined;
+    }
+    const conversation = await this.createConversation(userId, { title });
+    orphans.forEach(message => { message.conversationId = conversation.id; });
+    return conversation;
+  }
+
+  async getChatMessages(conversationId?: string): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values())
+      .filter(message => !conversationId || message.conversationId === conversationId)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  async getChatMessage(userId: string, id: string): Promise<ChatMessage | undefined> {
+    const message = this.chatMessages.get(id);
+    const conversation = message?.conversationId ? this.conversations.get(message.conversationId) : undefined;
+    return conversation?.userId === userId ? message : undefined;
   }
 
   async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
@@ -158,41 +894,449 @@ export class MemStorage implements IStorage {
       ...insertMessage,
       id,
       timestamp: new Date(),
+      conversationId: insertMessage.conversationId ?? null,
       harvestData: insertMessage.harvestData ?? null,
       queryType: insertMessage.queryType ?? null
     };
     this.chatMessages.set(id, message);
+    
+    const conversation = message.conversationId ? this.conversations.get(message.conversationId) : undefined;
+    if (conversation) {
+      conversation.updatedAt = new Date();
+    }
     return message;
   }
 
-  async getHarvestConfig(): Promise<HarvestConfig | undefined> {
-    return this.harvestConfig;
+  async getHarvestConfig(userId: string): Promise<HarvestConfig | undefined> {
+    const config = this.harvestConfigs.get(userId);
+    return config ? decryptHarvestConfig(config) : undefined;
   }
 
-  async saveHarvestConfig(config: InsertHarvestConfig): Promise<HarvestConfig> {
+  async getHarvestConfigs(): Promise<HarvestConfig[]> {
+    return Array.from(this.harvestConfigs.values()).map(decryptHarvestConfig);
+  }
+
+  async saveHarvestConfig(userId: string, config: InsertHarvestConfig): Promise<HarvestConfig> {
     const id = randomUUID();
+    const previous = this.harvestConfigs.get(userId);
     const harvestConfig: HarvestConfig = {
       ...config,
+      accessToken: encryptSecret(config.accessToken),
       id,
-      isActive: true
+      userId,
+      isActive: true,
+      timezone: previous?.timezone ?? "America/Chicago",
+      weekStartDay: previous?.weekStartDay ?? "monday",
+      fiscalYearStartMonth: previous?.fiscalYearStartMonth ?? 1
     };
-    this.harvestConfig = harvestConfig;
-    return harvestConfig;
+    this.harvestConfigs.set(userId, harvestConfig);
+    return decryptHarvestConfig(harvestConfig);
   }
 
-  async getEmailConfig(): Promise<EmailConfig | undefined> {
-    return this.emailConfig;
+  async updateHarvestDateSettings(userId: string, settings: HarvestDateSettings): Promise<HarvestConfig | undefined> {
+    const config = this.harvestConfigs.get(userId);
+    if (!config) return undefined;
+    const updated = { ...config, ...settings };
+    this.harvestConfigs.set(userId, updated);
+    return decryptHarvestConfig(updated);
   }
 
-  async saveEmailConfig(config: InsertEmailConfig): Promise<EmailConfig> {
-    const id = randomUUID();
+  async getEmailConfig(userId: string): Promise<EmailConfig | undefined> {
+    const config = this.emailConfigs.get(userId);
+    return config ? decryptEmailConfig(config) : undefined;
+  }
+
+  async getEmailConfigs(): Promise<EmailConfig[]> {
+    return Array.from(this.emailConfigs.values()).map(decryptEmailConfig);
+  }
+
+  async saveEmailConfig(userId: string, config: Partial<InsertEmailConfig>): Promise<EmailConfig> {
+    const existing = this.emailConfigs.get(userId);
+    const emailUser = config.emailUser ?? existing?.emailUser;
+    const transport = config.transport ?? existing?.transport ?? 'smtp';
+    const emailPassword = config.emailPassword !== undefined ? encryptSecret(config.emailPassword) : existing?.emailPassword;
+    if (!emailUser || (!emailPassword && transport !== 'file')) {
+      throw new Error("Email user and password are required for new configuration");
+    }
+
     const emailConfig: EmailConfig = {
-      ...config,
+      id: existing?.id ?? randomUUID(),
+      userId,
+      emailUser,
+      emailPassword: emailPassword || encryptSecret(''),
+      reportRecipients: config.reportRecipients || existing?.reportRecipients || 'david@webapper.com',
+      isActive: true,
+      transport,
+      smtpHost: config.smtpHost ?? existing?.smtpHost ?? 'smtp.gmail.com',
+      smtpPort: config.smtpPort ?? existing?.smtpPort ?? 587,
+      smtpSecure: config.smtpSecure ?? existing?.smtpSecure ?? false,
+      smtpAllowInvalidCerts: config.smtpAllowInvalidCerts ?? existing?.smtpAllowInvalidCerts ?? false,
+      fileSinkDir: config.fileSinkDir !== undefined ? config.fileSinkDir ?? null : existing?.fileSinkDir ?? null
+    };
+    this.emailConfigs.set(userId, emailConfig);
+    return decryptEmailConfig(emailConfig);
+  }
+
+  async reencryptSecrets(): Promise<{ harvestConfigs: number; emailConfigs: number }> {
+    let harvestConfigs = 0;
+    this.harvestConfigs.forEach(config => {
+      const accessToken = reencryptSecret(config.accessToken);
+      if (accessToken) {
+        config.accessToken = accessToken;
+        harvestConfigs++;
+      }
+    });
+
+    let emailConfigs = 0;
+    this.emailConfigs.forEach(config => {
+      const emailPassword = reencryptSecret(config.emailPassword);
+      if (emailPassword) {
+        config.emailPassword = emailPassword;
+        emailConfigs++;
+      }
+    });
+
+    return { harvestConfigs, emailConfigs };
+  }
+
+  async countStaleSecrets(): Promise<{ harvestConfigs: number; emailConfigs: number }> {
+    return {
+      harvestConfigs: Array.from(this.harvestConfigs.values()).filter(config => needsReencryption(config.accessToken)).length,
+      emailConfigs: Array.from(this.emailConfigs.values()).filter(config => needsReencryption(config.emailPassword)).length
+    };
+  }
+
+  async getReportDefinitions(): Promise<ReportDefinition[]> {
+    return Array.from(this.reportDefinitions.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getReportDefinition(id: string): Promise<ReportDefinition | undefined> {
+    return this.reportDefinitions.get(id);
+  }
+
+  async getActiveReportDefinition(): Promise<ReportDefinition | undefined> {
+    return Array.from(this.reportDefinitions.values()).find(definition => definition.isActive);
+  }
+
+  async createReportDefinition(definition: InsertReportDefinition): Promise<ReportDefinition> {
+    const id = randomUUID();
+    const isActive = definition.isActive ?? true;
+    if (isActive) {
+      this.reportDefinitions.forEach(existing => { existing.isActive = false; });
+    }
+    const reportDefinition: ReportDefinition = {
+      ...definition,
+      id,
+      isActive,
+      updatedAt: new Date()
+    };
+    this.reportDefinitions.set(id, reportDefinition);
+    return reportDefinition;
+  }
+
+  async updateReportDefinition(id: string, definition: Partial<InsertReportDefinition>): Promise<ReportDefinition | undefined> {
+    const existing = this.reportDefinitions.get(id);
+    if (!existing) return undefined;
+    if (definition.isActive) {
+      this.reportDefinitions.forEach(other => { other.isActive = false; });
+    }
+    const updated: ReportDefinition = { ...existing, ...definition, id, updatedAt: new Date() };
+    this.reportDefinitions.set(id, updated);
+    return updated;
+  }
+
+  async deleteReportDefinition(id: string): Promise<boolean> {
+    return this.reportDefinitions.delete(id);
+  }
+
+  private getMirror(ownerId: string, resource: HarvestResource) {
+    const key = `${ownerId}:${resource}`;
+    if (!this.harvestRecords.has(key)) {
+      this.harvestRecords.set(key, new Map());
+    }
+    return this.harvestRecords.get(key)!;
+  }
+
+  async upsertHarvestRecords(ownerId: string, resource: HarvestResource, records: HarvestRecord[], syncedAt: Date): Promise<void> {
+    const mirror = this.getMirror(ownerId, resource);
+    records.forEach(record => mirror.set(record.id, { record, syncedAt }));
+  }
+
+  async pruneHarvestRecords(ownerId: string, resource: HarvestResource, syncedBefore: Date): Promise<number> {
+    const mirror = this.getMirror(ownerId, resource);
+    let pruned = 0;
+    mirror.forEach((row, id) => {
+      if (row.syncedAt < syncedBefore) {
+        mirror.delete(id);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  async countHarvestRecords(ownerId: string, resource: HarvestResource): Promise<number> {
+    return this.getMirror(ownerId, resource).size;
+  }
+
+  async getCachedTimeEntries(ownerId: string, filter: TimeEntryCacheFilter): Promise<HarvestTimeEntry[]> {
+    return Array.from(this.getMirror(ownerId, 'time_entries').values())
+      .map(row => row.record as HarvestTimeEntry)
+      .filter(entry =>
+        (!filter.from || entry.spent_date >= filter.from) &&
+        (!filter.to || entry.spent_date <= filter.to) &&
+        (!filter.userId || entry.user.id === filter.userId) &&
+        (!filter.projectId || entry.project.id === filter.projectId) &&
+        (!filter.clientId || entry.client.id === filter.clientId)
+      )
+      .sort((a, b) => a.spent_date.localeCompare(b.spent_date) || a.id - b.id);
+  }
+
+  async getCachedProjects(ownerId: string, activeOnly = false): Promise<HarvestProject[]> {
+    return Array.from(this.getMirror(ownerId, 'projects').values())
+      .map(row => row.record as HarvestProject)
+      .filter(project => !activeOnly || project.is_active)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCachedClients(ownerId: string): Promise<HarvestClient[]> {
+    return Array.from(this.getMirror(ownerId, 'clients').values())
+      .map(row => row.record as HarvestClient)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCachedHarvestUsers(ownerId: string): Promise<HarvestUser[]> {
+    return Array.from(this.getMirror(ownerId, 'users').values())
+      .map(row => row.record as HarvestUser)
+      .sort((a, b) => harvestUserName(a).localeCompare(harvestUserName(b)));
+  }
+
+  async getSyncStates(ownerId: string): Promise<HarvestSyncState[]> {
+    return Array.from(this.syncStates.values()).filter(state => state.ownerId === ownerId);
+  }
+
+  async getSyncState(ownerId: string, resource: HarvestResource): Promise<HarvestSyncState | undefined> {
+    return this.syncStates.get(`${ownerId}:${resource}`);
+  }
+
+  async saveSyncState(state: HarvestSyncState): Promise<HarvestSyncState> {
+    this.syncStates.set(`${state.ownerId}:${state.resource}`, state);
+    return state;
+  }
+
+  async getAlertSettings(userId: string): Promise<AlertSettings | undefined> {
+    return this.alertSettings.get(userId);
+  }
+
+  async saveAlertSettings(userId: string, settings: InsertAlertSettings): Promise<AlertSettings> {
+    const saved: AlertSettings = {
+      userId,
+      enabled: settings.enabled ?? true,
+      thresholds: settings.thresholds,
+      includeForecast: settings.includeForecast ?? true,
+      recipients: settings.recipients ?? null,
+      updatedAt: new Date()
+    };
+    this.alertSettings.set(userId, saved);
+    return saved;
+  }
+
+  async getBudgetAlerts(userId: string, limit = 100): Promise<BudgetAlert[]> {
+    return Array.from(this.budgetAlerts.values())
+      .filter(alert => alert.userId === userId)
+      .sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime())
+      .slice(0, limit);
+  }
+
+  async findBudgetAlert(userId: string, month: string, projectKey: string, threshold: number): Promise<BudgetAlert | undefined> {
+    return Array.from(this.budgetAlerts.values()).find(alert =>
+      alert.userId === userId &&
+      alert.month === month &&
+      alert.projectKey === projectKey &&
+      alert.threshold === threshold
+    );
+  }
+
+  async createBudgetAlert(alert: InsertBudgetAlert): Promise<BudgetAlert> {
+    const id = randomUUID();
+    const created: BudgetAlert = {
+      ...alert,
+      id,
+      projectedPercent: alert.projectedPercent ?? null,
+      budgetExhaustedOn: alert.budgetExhaustedOn ?? null,
+      attempts: alert.attempts ?? 1,
+      triggeredAt: alert.triggeredAt ?? new Date(),
+      sentAt: alert.sentAt ?? null
+    };
+    this.budgetAlerts.set(id, created);
+    return created;
+  }
+
+  async updateBudgetAlert(id: string, alert: Partial<InsertBudgetAlert>): Promise<BudgetAlert | undefined> {
+    const existing = this.budgetAlerts.get(id);
+    if (!existing) return undefined;
+    const updated: BudgetAlert = { ...existing, ...alert, id };
+    this.budgetAlerts.set(id, updated);
+    return updated;
+  }
+
+  async getReportSchedules(userId: string): Promise<ReportSchedule[]> {
+    return (await this.getAllReportSchedules()).filter(schedule => schedule.userId === userId);
+  }
+
+  async getAllReportSchedules(): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getReportSchedule(userId: string, id: string): Promise<ReportSchedule | undefined> {
+    const schedule = this.reportSchedules.get(id);
+    return schedule?.userId === userId ? schedule : undefined;
+  }
+
+  async createReportSchedule(userId: string, schedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const id = randomUUID();
+    const now = new Date();
+    const created: ReportSchedule = {
+      ...schedule,
+      id,
+      userId,
+      cronExpression: schedule.cronExpression ?? null,
+      timezone: schedule.timezone ?? "America/Chicago",
+      reportType: schedule.reportType ?? "project_budget",
+      rangeMode: schedule.rangeMode ?? "month_to_date",
+      enabled: schedule.enabled ?? true,
+      lastRunAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.reportSchedules.set(id, created);
+    return created;
+  }
+
+  async updateReportSchedule(userId: string, id: string, schedule: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined> {
+    const existing = await this.getReportSchedule(userId, id);
+    if (!existing) return undefined;
+    const updated: ReportSchedule = { ...existing, ...schedule, id, userId, updatedAt: new Date() };
+    this.reportSchedules.set(id, updated);
+    return updated;
+  }
+
+  async deleteReportSchedule(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getReportSchedule(userId, id))) return false;
+    return this.reportSchedules.delete(id);
+  }
+
+  async markReportScheduleRun(id: string, ranAt: Date): Promise<void> {
+    const schedule = this.reportSchedules.get(id);
+    if (schedule) {
+      schedule.lastRunAt = ranAt;
+    }
+  }
+
+  async hasMigrationRun(name: string): Promise<boolean> {
+    return this.migrations.has(name);
+  }
+
+  async recordMigration(name: string): Promise<void> {
+    this.migrations.add(name);
+  }
+
+  async createReportRun(run: InsertReportRun): Promise<ReportRun> {
+    const id = randomUUID();
+    const created: ReportRun = {
+      ...run,
       id,
-      isActive: true
+      scheduleId: run.scheduleId ?? null,
+      createdAt: run.createdAt ?? new Date()
     };
-    this.emailConfig = emailConfig;
-    return emailConfig;
+    this.reportRuns.set(id, created);
+    return created;
+  }
+
+  async getReportRun(id: string): Promise<ReportRun | undefined> {
+    return this.reportRuns.get(id);
+  }
+
+  async getReportRuns(userId: string, limit = 50): Promise<ReportRun[]> {
+    return Array.from(this.reportRuns.values())
+      .filter(run => run.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createReportDelivery(delivery: InsertReportDelivery): Promise<ReportDelivery> {
+    const id = randomUUID();
+    const now = new Date();
+    const created: ReportDelivery = {
+      ...delivery,
+      id,
+      status: delivery.status ?? 'pending',
+      attempts: delivery.attempts ?? 0,
+      error: delivery.error ?? null,
+      messageId: delivery.messageId ?? null,
+      fallbackPath: delivery.fallbackPath ?? null,
+      nextAttemptAt: delivery.nextAttemptAt ?? null,
+      createdAt: now,
+      updatedAt: now,
+      sentAt: delivery.sentAt ?? null
+    };
+    this.reportDeliveries.set(id, created);
+    return created;
+  }
+
+  async updateReportDelivery(id: string, delivery: Partial<InsertReportDelivery>): Promise<ReportDelivery | undefined> {
+    const existing = this.reportDeliveries.get(id);
+    if (!existing) return undefined;
+    const updated: ReportDelivery = { ...existing, ...delivery, id, updatedAt: new Date() };
+    this.reportDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async getReportDeliveriesForRuns(runIds: string[]): Promise<ReportDelivery[]> {
+    return Array.from(this.reportDeliveries.values())
+      .filter(delivery => runIds.includes(delivery.runId))
+      .sort((a, b) => a.recipient.localeCompare(b.recipient));
+  }
+
+  async getDueReportDeliveries(now: Date, stalePendingBefore: Date): Promise<ReportDelivery[]> {
+    const dueAt = (delivery: ReportDelivery) => (delivery.nextAttemptAt ?? delivery.updatedAt).getTime();
+    return Array.from(this.reportDeliveries.values())
+      .filter(delivery =>
+        (delivery.status === 'retrying' && delivery.nextAttemptAt && delivery.nextAttemptAt <= now) ||
+        (delivery.status === 'pending' && delivery.updatedAt <= stalePendingBefore))
+      .sort((a, b) => dueAt(a) - dueAt(b));
+  }
+
+  async createLlmCalls(calls: InsertLlmCall[]): Promise<void> {
+    const now = new Date();
+    calls.forEach(call => {
+      this.llmCalls.push({
+        ...call,
+        id: randomUUID(),
+        userId: call.userId ?? null,
+        conversationId: call.conversationId ?? null,
+        messageId: call.messageId ?? null,
+        queryType: call.queryType ?? null,
+        inputTokens: call.inputTokens ?? 0,
+        outputTokens: call.outputTokens ?? 0,
+        costUsd: call.costUsd ?? null,
+        status: call.status ?? 'ok',
+        error: call.error ?? null,
+        createdAt: call.createdAt ?? now
+      });
+    });
+  }
+
+  async getLlmCalls(from: Date, to: Date): Promise<LlmCall[]> {
+    return this.llmCalls
+      .filter(call => call.createdAt >= from && call.createdAt < to)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getLlmCostSince(since: Date): Promise<number> {
+    return this.llmCalls
+      .filter(call => call.createdAt >= since)
+      .reduce((sum, call) => sum + (call.costUsd ?? 0), 0);
   }
 }
 
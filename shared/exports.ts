@@ -0,0 +1,184 @@
+// Column definitions for tables that can be downloaded. The chat's DataTable
+// renders the same columns, so a download always matches what was on screen,
+// and keys stay stable for anyone importing the files (e.g. for invoicing).
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => ExportValue;
+}
+
+// One table in a download: a sheet in XLSX, a section in CSV
+export interface ExportSheet<T> {
+  name: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+// The parts of Harvest records the chat tables show
+interface NamedRef {
+  name?: string;
+}
+
+export interface TimeEntryRow {
+  id?: number;
+  spent_date: string;
+  hours: number;
+  notes?: string | null;
+  billable?: boolean;
+  project?: NamedRef;
+  task?: NamedRef;
+  client?: NamedRef;
+  user?: NamedRef;
+}
+
+export interface ProjectRow {
+  id?: number;
+  name: string;
+  code?: string | null;
+  budget?: number | null;
+  is_active?: boolean;
+  client?: NamedRef;
+}
+
+export interface ClientRow {
+  id?: number;
+  name: string;
+  address?: string | null;
+  is_active?: boolean;
+}
+
+export interface UserRow {
+  id?: number;
+  first_name: string;
+  last_name: string;
+  email?: string;
+  // Seconds per week, as Harvest reports it
+  weekly_capacity?: number;
+  roles?: string[];
+  is_contractor?: boolean;
+  is_active?: boolean;
+}
+
+// Any row a chat answer's table can hold
+export type DataRow = TimeEntryRow | ProjectRow | ClientRow | UserRow;
+
+const isRecord = (row: unknown): row is Record<string, unknown> => typeof row === 'object' && row !== null;
+
+export const isTimeEntryRow = (row: unknown): row is TimeEntryRow =>
+  isRecord(row) && typeof row.spent_date === 'string' && typeof row.hours === 'number';
+const isNamedRow = (row: unknown): row is ProjectRow & ClientRow =>
+  isRecord(row) && typeof row.name === 'string';
+const isUserRow = (row: unknown): row is UserRow =>
+  isRecord(row) && typeof row.first_name === 'string' && typeof row.last_name === 'string';
+
+// Stored chat data is plain JSON, so its rows are checked before export
+export function isDataRow(row: unknown): row is DataRow {
+  return isTimeEntryRow(row) || isNamedRow(row) || isUserRow(row);
+}
+
+// Columns that accept any chat row, reading only rows of their own kind
+function forDataRows<T extends DataRow>(columns: ExportColumn<T>[], isRow: (row: DataRow) => row is T): ExportColumn<DataRow>[] {
+  return columns.map(column => ({ ...column, value: row => isRow(row) ? column.value(row) : null }));
+}
+
+export const TIME_ENTRY_COLUMNS: ExportColumn<TimeEntryRow>[] = [
+  { key: 'date', header: 'Date', value: entry => entry.spent_date },
+  { key: 'client', header: 'Client', value: entry => entry.client?.name ?? null },
+  { key: 'project', header: 'Project', value: entry => entry.project?.name ?? null },
+  { key: 'task', header: 'Task', value: entry => entry.task?.name ?? null },
+  { key: 'person', header: 'Person', value: entry => entry.user?.name ?? null },
+  { key: 'hours', header: 'Hours', value: entry => entry.hours },
+  { key: 'notes', header: 'Notes', value: entry => entry.notes || null },
+  { key: 'billable', header: 'Status', value: entry => entry.billable ? 'Billable' : 'Non-billable' },
+];
+
+export const PROJECT_COLUMNS: ExportColumn<ProjectRow>[] = [
+  { key: 'name', header: 'Project Name', value: project => project.name },
+  { key: 'code', header: 'Code', value: project => project.code || null },
+  { key: 'client', header: 'Client', value: project => project.client?.name ?? null },
+  { key: 'budget', header: 'Budget', value: project => project.budget ?? null },
+  { key: 'active', header: 'Status', value: project => project.is_active ? 'Active' : 'Inactive' },
+];
+
+export const CLIENT_COLUMNS: ExportColumn<ClientRow>[] = [
+  { key: 'name', header: 'Client Name', value: client => client.name },
+  { key: 'address', header: 'Address', value: client => client.address || null },
+  { key: 'active', header: 'Status', value: client => client.is_active ? 'Active' : 'Inactive' },
+];
+
+export const USER_COLUMNS: ExportColumn<UserRow>[] = [
+  { key: 'name', header: 'Name', value: user => `${user.first_name} ${user.last_name}` },
+  { key: 'email', header: 'Email', value: user => user.email || null },
+  { key: 'capacity', header: 'Weekly Capacity (h)', value: user => user.weekly_capacity !== undefined ? Math.round(user.weekly_capacity / 36) / 100 : null },
+  { key: 'roles', header: 'Roles', value: user => user.roles?.join(', ') || null },
+  { key: 'contractor', header: 'Type', value: user => user.is_contractor ? 'Contractor' : 'Employee' },
+  { key: 'active', header: 'Status', value: user => user.is_active ? 'Active' : 'Inactive' },
+];
+
+// Columns for a chat answer's data, by the query type that produced it
+export function getDataColumns(queryType: string | null | undefined): ExportColumn<DataRow>[] {
+  switch (queryType) {
+    case 'projects':
+      return forDataRows(PROJECT_COLUMNS, isNamedRow);
+    case 'clients':
+      return forDataRows(CLIENT_COLUMNS, isNamedRow);
+    case 'users':
+      return forDataRows(USER_COLUMNS, isUserRow);
+    case 'time_entries':
+    case 'summary':
+    default:
+      return forDataRows(TIME_ENTRY_COLUMNS, isTimeEntryRow);
+  }
+}
+
+// Hourly rate BHS support hours are sold at, as on the report page
+export const BHS_HOURLY_RATE = 150;
+
+// A project budget report row (see server/services/report.ts)
+export interface ReportRow {
+  name: string;
+  totalHours: number;
+  billableHours: number;
+  budget: number;
+  billedAmount: number;
+  budgetPercentComplete: number;
+  forecast?: {
+    projectedHours: number;
+    projectedSpend: number;
+    projectedBudgetPercent: number;
+    budgetExhaustedOn: string | null;
+  };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const REPORT_PROJECT_COLUMNS: ExportColumn<ReportRow>[] = [
+  { key: 'project', header: 'Project Name', value: row => row.name },
+  { key: 'hours', header: 'Hours Logged', value: row => round2(row.totalHours) },
+  { key: 'billableHours', header: 'Billable Hours', value: row => round2(row.billableHours) },
+  { key: 'budgetSpent', header: 'Budget Spent', value: row => round2(row.billedAmount) },
+  { key: 'budgetPercent', header: 'Budget %', value: row => round1(row.budgetPercentComplete) },
+  { key: 'budget', header: 'Total Budget', value: row => row.budget > 0 ? row.budget : null },
+  { key: 'projectedSpend', header: 'Projected Spend', value: row => row.forecast ? round2(row.forecast.projectedSpend) : null },
+  { key: 'projectedPercent', header: 'Projected %', value: row => row.forecast && row.budget > 0 ? round1(row.forecast.projectedBudgetPercent) : null },
+  { key: 'runsOut', header: 'Budget Runs Out', value: row => row.forecast?.budgetExhaustedOn ?? null },
+];
+
+// BHS budgets are in support hours
+export const REPORT_BHS_COLUMNS: ExportColumn<ReportRow>[] = [
+  { key: 'client', header: 'Client Name', value: row => row.name },
+  { key: 'hours', header: 'Hours Logged', value: row => round2(row.totalHours) },
+  { key: 'supportHours', header: 'Support Hours', value: row => row.budget > 0 ? row.budget : null },
+  { key: 'budgetPercent', header: 'Budget %', value: row => row.budget > 0 ? round1((row.totalHours / row.budget) * 100) : 0 },
+  { key: 'budget', header: 'Total Budget', value: row => row.budget > 0 ? row.budget * BHS_HOURLY_RATE : 0 },
+  { key: 'projectedHours', header: 'Projected Hours', value: row => row.forecast ? round1(row.forecast.projectedHours) : null },
+  { key: 'projectedPercent', header: 'Projected %', value: row => row.forecast && row.budget > 0 ? round1(row.forecast.projectedBudgetPercent) : null },
+  { key: 'runsOut', header: 'Hours Run Out', value: row => row.forecast?.budgetExhaustedOn ?? null },
+];
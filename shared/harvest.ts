@@ -0,0 +1,229 @@
+import { z } from "zod";
+
+// Harvest API v2 resources we read (https://help.getharvest.com/api-v2/).
+// Fields our code relies on are required; the rest are optional so partial
+// payloads (the mock server, rows mirrored by older versions) still validate,
+// but each is typed so a change in what Harvest sends shows up as drift.
+// Schemas pass unknown fields through, and HarvestService reports them.
+
+const harvestRef = z.object({
+  id: z.number(),
+  name: z.string(),
+}).passthrough();
+
+const harvestProjectRef = harvestRef.extend({
+  code: z.string().nullable().optional(),
+});
+
+const harvestClientRef = harvestRef.extend({
+  currency: z.string().optional(),
+});
+
+const timestamps = {
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+};
+
+export const harvestUserAssignmentSchema = z.object({
+  id: z.number(),
+  project: harvestProjectRef.optional(),
+  user: harvestRef.optional(),
+  is_active: z.boolean().optional(),
+  is_project_manager: z.boolean().optional(),
+  use_default_rates: z.boolean().optional(),
+  hourly_rate: z.number().nullable().optional(),
+  budget: z.number().nullable().optional(),
+  ...timestamps,
+}).passthrough();
+
+export const harvestTaskAssignmentSchema = z.object({
+  id: z.number(),
+  project: harvestProjectRef.optional(),
+  task: harvestRef.optional(),
+  is_active: z.boolean().optional(),
+  billable: z.boolean().optional(),
+  hourly_rate: z.number().nullable().optional(),
+  budget: z.number().nullable().optional(),
+  ...timestamps,
+}).passthrough();
+
+export const harvestTimeEntrySchema = z.object({
+  id: z.number(),
+  spent_date: z.string(),
+  hours: z.number(),
+  hours_without_timer: z.number().optional(),
+  rounded_hours: z.number().optional(),
+  notes: z.string().nullable(),
+  billable: z.boolean(),
+  budgeted: z.boolean().optional(),
+  // Null for non-billable entries and projects without rates
+  billable_rate: z.number().nullable().optional(),
+  cost_rate: z.number().nullable().optional(),
+  is_locked: z.boolean().optional(),
+  locked_reason: z.string().nullable().optional(),
+  is_closed: z.boolean().optional(),
+  is_billed: z.boolean().optional(),
+  is_running: z.boolean().optional(),
+  approval_status: z.string().optional(),
+  timer_started_at: z.string().nullable().optional(),
+  started_time: z.string().nullable().optional(),
+  ended_time: z.string().nullable().optional(),
+  user: harvestRef,
+  client: harvestClientRef,
+  project: harvestProjectRef,
+  task: harvestRef,
+  user_assignment: harvestUserAssignmentSchema.optional(),
+  task_assignment: harvestTaskAssignmentSchema.optional(),
+  invoice: z.object({ id: z.number(), number: z.string() }).passthrough().nullable().optional(),
+  external_reference: z.object({
+    id: z.string(),
+    group_id: z.string().nullable().optional(),
+    account_id: z.string().nullable().optional(),
+    permalink: z.string(),
+    service: z.string().optional(),
+    service_icon_url: z.string().optional(),
+  }).passthrough().nullable().optional(),
+  ...timestamps,
+}).passthrough();
+
+export const harvestProjectSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  code: z.string().nullable(),
+  is_active: z.boolean(),
+  is_billable: z.boolean().optional(),
+  is_fixed_fee: z.boolean().optional(),
+  bill_by: z.string().optional(),
+  hourly_rate: z.number().nullable().optional(),
+  // In hours or money depending on budget_by; null when no budget is set
+  budget: z.number().nullable(),
+  budget_by: z.string().optional(),
+  budget_is_monthly: z.boolean().optional(),
+  notify_when_over_budget: z.boolean().optional(),
+  over_budget_notification_percentage: z.number().nullable().optional(),
+  over_budget_notification_date: z.string().nullable().optional(),
+  show_budget_to_all: z.boolean().optional(),
+  cost_budget: z.number().nullable().optional(),
+  cost_budget_include_expenses: z.boolean().optional(),
+  fee: z.number().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  starts_on: z.string().nullable().optional(),
+  ends_on: z.string().nullable().optional(),
+  // From Harvest's project budget report, when merged in
+  budget_spent: z.number().optional(),
+  budget_remaining: z.number().optional(),
+  client: harvestClientRef,
+  ...timestamps,
+}).passthrough();
+
+export const harvestClientSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  is_active: z.boolean(),
+  address: z.string().nullable(),
+  statement_key: z.string().optional(),
+  currency: z.string().optional(),
+  ...timestamps,
+}).passthrough();
+
+export const harvestUserSchema = z.object({
+  id: z.number(),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  is_active: z.boolean(),
+  telephone: z.string().optional(),
+  timezone: z.string().optional(),
+  is_contractor: z.boolean().optional(),
+  has_access_to_all_future_projects: z.boolean().optional(),
+  // Seconds per week
+  weekly_capacity: z.number().optional(),
+  default_hourly_rate: z.number().nullable().optional(),
+  cost_rate: z.number().nullable().optional(),
+  roles: z.array(z.string()).optional(),
+  access_roles: z.array(z.string()).optional(),
+  permissions_claims: z.array(z.string()).optional(),
+  avatar_url: z.string().optional(),
+  employee_id: z.string().nullable().optional(),
+  calendar_integration_enabled: z.boolean().optional(),
+  calendar_integration_source: z.string().nullable().optional(),
+  can_create_projects: z.boolean().optional(),
+  ...timestamps,
+}).passthrough();
+
+export const harvestTaskSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  billable_by_default: z.boolean().optional(),
+  default_hourly_rate: z.number().nullable().optional(),
+  is_default: z.boolean().optional(),
+  is_active: z.boolean(),
+  ...timestamps,
+}).passthrough();
+
+export const harvestInvoiceSchema = z.object({
+  id: z.number(),
+  client: harvestRef,
+  number: z.string(),
+  client_key: z.string().optional(),
+  purchase_order: z.string().nullable().optional(),
+  amount: z.number(),
+  due_amount: z.number(),
+  tax: z.number().nullable().optional(),
+  tax_amount: z.number().optional(),
+  tax2: z.number().nullable().optional(),
+  tax2_amount: z.number().optional(),
+  discount: z.number().nullable().optional(),
+  discount_amount: z.number().optional(),
+  subject: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  currency: z.string(),
+  state: z.enum(['draft', 'open', 'paid', 'closed']),
+  period_start: z.string().nullable().optional(),
+  period_end: z.string().nullable().optional(),
+  issue_date: z.string(),
+  due_date: z.string().nullable().optional(),
+  payment_term: z.string().optional(),
+  payment_options: z.array(z.string()).optional(),
+  sent_at: z.string().nullable().optional(),
+  paid_at: z.string().nullable().optional(),
+  paid_date: z.string().nullable().optional(),
+  closed_at: z.string().nullable().optional(),
+  recurring_invoice_id: z.number().nullable().optional(),
+  estimate: harvestRef.partial().nullable().optional(),
+  retainer: harvestRef.partial().nullable().optional(),
+  creator: harvestRef.nullable().optional(),
+  line_items: z.array(z.object({
+    id: z.number(),
+    kind: z.string(),
+    description: z.string().nullable().optional(),
+    quantity: z.number(),
+    unit_price: z.number(),
+    amount: z.number(),
+    taxed: z.boolean().optional(),
+    taxed2: z.boolean().optional(),
+    project: harvestProjectRef.nullable().optional(),
+  }).passthrough()).optional(),
+  ...timestamps,
+}).passthrough();
+
+export type HarvestTimeEntry = z.infer<typeof harvestTimeEntrySchema>;
+export type HarvestProject = z.infer<typeof harvestProjectSchema>;
+export type HarvestClient = z.infer<typeof harvestClientSchema>;
+export type HarvestUser = z.infer<typeof harvestUserSchema>;
+export type HarvestTask = z.infer<typeof harvestTaskSchema>;
+export type HarvestTaskAssignment = z.infer<typeof harvestTaskAssignmentSchema>;
+export type HarvestUserAssignment = z.infer<typeof harvestUserAssignmentSchema>;
+export type HarvestInvoice = z.infer<typeof harvestInvoiceSchema>;
+
+// Totals for a list of time entries, shown under a chat answer
+export interface TimeEntrySummary {
+  totalHours: number;
+  billableHours: number;
+  nonBillableHours: number;
+  projectCount: number;
+  clientCount: number;
+  averageDaily: number;
+  projects: string[];
+  clients: string[];
+}
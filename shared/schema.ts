@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, boolean, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, boolean, decimal, integer, doublePrecision, date, primaryKey, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { HarvestTimeEntry, HarvestProject, HarvestClient, HarvestUser, TimeEntrySummary } from "./harvest";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -9,8 +10,17 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   role: text("role").notNull(), // 'user' or 'assistant'
   timestamp: timestamp("timestamp").defaultNow().notNull(),
@@ -18,110 +28,491 @@ export const chatMessages = pgTable("chat_messages", {
   queryType: text("query_type"),
 });
 
+// Harvest and email settings belong to one user. Rows without a user predate
+// sign-in and are claimed by the first account that registers.
 export const harvestConfig = pgTable("harvest_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   accountId: text("account_id").notNull(),
   accessToken: text("access_token").notNull(),
   isActive: boolean("is_active").default(true),
+  // How relative periods ("last week", "this fiscal year") are worked out
+  timezone: text("timezone").notNull().default("America/Chicago"),
+  weekStartDay: text("week_start_day").notNull().default("monday"), // one of WEEK_START_DAYS
+  fiscalYearStartMonth: integer("fiscal_year_start_month").notNull().default(1),
 });
 
+// The week start days Harvest accounts can choose
+export const WEEK_START_DAYS = ['monday', 'sunday', 'saturday'] as const;
+
 export const emailConfig = pgTable("email_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   emailUser: text("email_user").notNull(),
   emailPassword: text("email_password").notNull(),
   reportRecipients: text("report_recipients").notNull().default("david@webapper.com"),
   isActive: boolean("is_active").default(true),
+  // How email is sent. For SendGrid, emailPassword holds the API key; the
+  // file transport ignores it and writes to fileSinkDir instead.
+  transport: text("transport").notNull().default("smtp"),
+  smtpHost: text("smtp_host").notNull().default("smtp.gmail.com"),
+  smtpPort: integer("smtp_port").notNull().default(587),
+  smtpSecure: boolean("smtp_secure").notNull().default(false),
+  smtpAllowInvalidCerts: boolean("smtp_allow_invalid_certs").notNull().default(false),
+  fileSinkDir: text("file_sink_dir"),
+});
+
+export const EMAIL_TRANSPORTS = ['smtp', 'sendgrid', 'file'] as const;
+
+// Report definition building blocks. Keywords are matched case-insensitively
+// as substrings of the Harvest project (or client) name.
+export const projectMatchRuleSchema = z.object({
+  name: z.string().min(1),
+  keywords: z.array(z.string().min(1)).min(1),
+});
+
+export const budgetOverrideSchema = z.object({
+  keywords: z.array(z.string().min(1)).min(1),
+  budget: z.number().nonnegative(), // used only when Harvest has no budget for the project
+});
+
+export const displayNameRuleSchema = z.object({
+  match: z.string().min(1),
+  displayName: z.string().min(1),
+});
+
+export const bhsClientGroupSchema = z.object({
+  keywords: z.array(z.string().min(1)).min(1),
+  displayName: z.string().min(1),
+  defaultBudget: z.number().nonnegative().optional(), // support hours when Harvest has none
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export type ProjectMatchRule = z.infer<typeof projectMatchRuleSchema>;
+export type BudgetOverride = z.infer<typeof budgetOverrideSchema>;
+export type DisplayNameRule = z.infer<typeof displayNameRuleSchema>;
+export type BhsClientGroup = z.infer<typeof bhsClientGroupSchema>;
+
+export const reportDefinitions = pgTable("report_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  projectRules: json("project_rules").$type<ProjectMatchRule[]>().notNull(),
+  budgetOverrides: json("budget_overrides").$type<BudgetOverride[]>().notNull(),
+  displayNames: json("display_names").$type<DisplayNameRule[]>().notNull(),
+  bhsProjectKeywords: json("bhs_project_keywords").$type<string[]>().notNull(),
+  bhsClientGroups: json("bhs_client_groups").$type<BhsClientGroup[]>().notNull(),
+  isActive: boolean("is_active").default(true),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Local mirror of Harvest data, filled by the sync worker. Rows keep the raw
+// Harvest payload in `data` plus the columns we filter on. Each user has their
+// own mirror, synced with their own token, so it never holds more than their
+// Harvest permissions let them see.
+export const timeEntries = pgTable("time_entries", {
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  id: integer("id").notNull(),
+  spentDate: date("spent_date").notNull(),
+  userId: integer("user_id").notNull(),
+  projectId: integer("project_id").notNull(),
+  clientId: integer("client_id").notNull(),
+  data: json("data").$type<HarvestTimeEntry>().notNull(),
+  harvestUpdatedAt: timestamp("harvest_updated_at"),
+  syncedAt: timestamp("synced_at").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.ownerId, table.id] }),
+  spentDateIdx: index("time_entries_spent_date_idx").on(table.ownerId, table.spentDate),
+}));
+
+export const harvestProjects = pgTable("harvest_projects", {
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  id: integer("id").notNull(),
+  clientId: integer("client_id"),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull(),
+  data: json("data").$type<HarvestProject>().notNull(),
+  harvestUpdatedAt: timestamp("harvest_updated_at"),
+  syncedAt: timestamp("synced_at").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.ownerId, table.id] }),
+}));
+
+export const harvestClients = pgTable("harvest_clients", {
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  id: integer("id").notNull(),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull(),
+  data: json("data").$type<HarvestClient>().notNull(),
+  harvestUpdatedAt: timestamp("harvest_updated_at"),
+  syncedAt: timestamp("synced_at").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.ownerId, table.id] }),
+}));
+
+export const harvestUsers = pgTable("harvest_users", {
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  id: integer("id").notNull(),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull(),
+  data: json("data").$type<HarvestUser>().notNull(),
+  harvestUpdatedAt: timestamp("harvest_updated_at"),
+  syncedAt: timestamp("synced_at").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.ownerId, table.id] }),
+}));
+
+export const harvestSyncState = pgTable("harvest_sync_state", {
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  accountId: text("account_id").notNull(),
+  // The harvest_config whose token filled the mirror; reads only trust the
+  // mirror while it matches the owner's active config
+  configId: varchar("config_id").notNull(),
+  resource: text("resource").notNull(), // HarvestResource
+  status: text("status").notNull(), // 'running' | 'success' | 'error'
+  lastStartedAt: timestamp("last_started_at"),
+  lastSyncedAt: timestamp("last_synced_at"), // start time of the last successful sync
+  lastFullSyncAt: timestamp("last_full_sync_at"),
+  error: text("error"),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.ownerId, table.resource] }),
+}));
+
+// Budget alert thresholds for one user. Alerts go to `recipients`, or to the
+// user's report recipients when empty.
+export const alertSettings = pgTable("alert_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  enabled: boolean("enabled").notNull().default(true),
+  thresholds: json("thresholds").$type<number[]>().notNull(), // budget %, e.g. [85, 100]
+  includeForecast: boolean("include_forecast").notNull().default(true), // also alert on projected month-end %
+  recipients: text("recipients"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per threshold crossing: a project (or BHS client) passing, or
+// projected to pass, a threshold in a month. The unique index is what stops
+// repeat alerts.
+export const budgetAlerts = pgTable("budget_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  month: text("month").notNull(), // YYYY-MM
+  projectKey: text("project_key").notNull(), // ProjectReportRow id
+  projectName: text("project_name").notNull(),
+  kind: text("kind").notNull(), // 'actual' | 'forecast'; a forecast row becomes 'actual' once it comes true
+  threshold: integer("threshold").notNull(),
+  budgetPercent: doublePrecision("budget_percent").notNull(),
+  projectedPercent: doublePrecision("projected_percent"),
+  budgetExhaustedOn: text("budget_exhausted_on"),
+  recipients: text("recipients").notNull(),
+  status: text("status").notNull(), // 'sent' | 'failed'
+  attempts: integer("attempts").notNull().default(1),
+  triggeredAt: timestamp("triggered_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+}, (table) => ({
+  crossingIdx: uniqueIndex("budget_alerts_crossing_idx").on(table.userId, table.month, table.projectKey, table.threshold),
+}));
+
+// Report schedules. Preset cadences send at 8:00 in the schedule's timezone;
+// 'custom' uses cronExpression (node-cron syntax, optional seconds field).
+export const REPORT_CADENCES = ['daily', 'weekly', 'monthly', 'custom'] as const;
+export const REPORT_TYPES = ['project_budget'] as const;
+export const REPORT_RANGE_MODES = ['month_to_date', 'last_week', 'last_month'] as const;
+
+export const reportSchedules = pgTable("report_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  cadence: text("cadence").notNull(), // one of REPORT_CADENCES
+  cronExpression: text("cron_expression"),
+  timezone: text("timezone").notNull().default("America/Chicago"),
+  reportType: text("report_type").notNull().default("project_budget"),
+  rangeMode: text("range_mode").notNull().default("month_to_date"),
+  recipients: text("recipients").notNull(), // comma-separated
+  enabled: boolean("enabled").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("report_schedules_user_idx").on(table.userId),
+}));
+
+// One row per report send: the report data is kept so retries email
+// exactly what the first attempt did
+export const reportRuns = pgTable("report_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  scheduleId: varchar("schedule_id").references(() => reportSchedules.id, { onDelete: "set null" }),
+  subject: text("subject").notNull(),
+  reportDate: text("report_date").notNull(),
+  reportData: json("report_data").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("report_runs_user_idx").on(table.userId, table.createdAt),
+}));
+
+export const REPORT_DELIVERY_STATUSES = ['pending', 'sent', 'retrying', 'failed', 'saved_to_file'] as const;
+
+// One row per recipient of a run. 'retrying' rows are picked up again at
+// nextAttemptAt, and 'pending' rows whose first attempt never finished once
+// they go stale; after the last attempt the report is saved to a file instead.
+export const reportDeliveries = pgTable("report_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull().references(() => reportRuns.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  recipient: text("recipient").notNull(),
+  status: text("status").notNull().default("pending"), // one of REPORT_DELIVERY_STATUSES
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  messageId: text("message_id"),
+  fallbackPath: text("fallback_path"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+}, (table) => ({
+  runIdx: index("report_deliveries_run_idx").on(table.runId),
+  dueIdx: index("report_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export const LLM_CALL_PURPOSES = ['parse', 'agent', 'summary'] as const;
+
+// One row per model call made while answering a chat message, for usage,
+// latency and cost reporting. costUsd is null for models without a known price.
+export const llmCalls = pgTable("llm_calls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  // The assistant message the call helped answer, once it's saved
+  messageId: varchar("message_id").references(() => chatMessages.id, { onDelete: "set null" }),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  purpose: text("purpose").notNull(), // one of LLM_CALL_PURPOSES
+  queryType: text("query_type"),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  costUsd: doublePrecision("cost_usd"),
+  status: text("status").notNull().default("ok"), // 'ok' or 'error'
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  createdIdx: index("llm_calls_created_idx").on(table.createdAt),
+  userIdx: index("llm_calls_user_idx").on(table.userId, table.createdAt),
+}));
+
+// One-off data migrations that have run, so startup jobs such as seeding the
+// first report schedules happen once instead of whenever a table is empty
+export const appMigrations = pgTable("app_migrations", {
+  name: varchar("name").primaryKey(),
+  ranAt: timestamp("ran_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3).max(100),
+  password: z.string().min(8).max(200),
+}).pick({
   username: true,
   password: true,
 });
 
+export const insertConversationSchema = createInsertSchema(conversations, {
+  title: z.string().trim().min(1).max(200),
+}).pick({
+  title: true,
+});
+
 export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
+  conversationId: true,
   content: true,
   role: true,
   harvestData: true,
   queryType: true,
 });
 
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 export const insertHarvestConfigSchema = createInsertSchema(harvestConfig).pick({
   accountId: true,
   accessToken: true,
 });
 
-export const insertEmailConfigSchema = createInsertSchema(emailConfig).pick({
+export const harvestDateSettingsSchema = createInsertSchema(harvestConfig, {
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+  weekStartDay: z.enum(WEEK_START_DAYS),
+  fiscalYearStartMonth: z.number().int().min(1).max(12),
+}).pick({
+  timezone: true,
+  weekStartDay: true,
+  fiscalYearStartMonth: true,
+}).partial();
+
+export const insertEmailConfigSchema = createInsertSchema(emailConfig, {
+  transport: z.enum(EMAIL_TRANSPORTS),
+  smtpHost: z.string().trim().min(1),
+  smtpPort: z.number().int().min(1).max(65535),
+  fileSinkDir: z.string().trim().max(500).nullable().optional(),
+}).pick({
   emailUser: true,
   emailPassword: true,
   reportRecipients: true,
+  transport: true,
+  smtpHost: true,
+  smtpPort: true,
+  smtpSecure: true,
+  smtpAllowInvalidCerts: true,
+  fileSinkDir: true,
+});
+
+export const insertAlertSettingsSchema = createInsertSchema(alertSettings, {
+  thresholds: z.array(z.number().int().min(1).max(1000)).min(1).max(10),
+  recipients: z.string().trim().max(1000).nullable().optional(),
+}).pick({
+  enabled: true,
+  thresholds: true,
+  includeForecast: true,
+  recipients: true,
+});
+
+
+export const insertReportScheduleSchema = createInsertSchema(reportSchedules, {
+  name: z.string().trim().min(1).max(200),
+  cadence: z.enum(REPORT_CADENCES),
+  cronExpression: z.string().trim().max(100).nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+  reportType: z.enum(REPORT_TYPES),
+  rangeMode: z.enum(REPORT_RANGE_MODES),
+  recipients: z.string().trim().min(1).max(1000),
+}).pick({
+  name: true,
+  cadence: true,
+  cronExpression: true,
+  timezone: true,
+  reportType: true,
+  rangeMode: true,
+  recipients: true,
+  enabled: true,
+});
+
+export const insertReportDefinitionSchema = createInsertSchema(reportDefinitions, {
+  name: z.string().min(1),
+  projectRules: z.array(projectMatchRuleSchema),
+  budgetOverrides: z.array(budgetOverrideSchema),
+  displayNames: z.array(displayNameRuleSchema),
+  bhsProjectKeywords: z.array(z.string().min(1)),
+  bhsClientGroups: z.array(bhsClientGroupSchema),
+}).pick({
+  name: true,
+  projectRules: true,
+  budgetOverrides: true,
+  displayNames: true,
+  bhsProjectKeywords: true,
+  bhsClientGroups: true,
+  isActive: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type HarvestConfig = typeof harvestConfig.$inferSelect;
 export type InsertHarvestConfig = z.infer<typeof insertHarvestConfigSchema>;
 export type EmailConfig = typeof emailConfig.$inferSelect;
 export type InsertEmailConfig = z.infer<typeof insertEmailConfigSchema>;
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number];
+export type HarvestDateSettings = z.infer<typeof harvestDateSettingsSchema>;
+export type WeekStartDay = typeof WEEK_START_DAYS[number];
+export type ReportDefinition = typeof reportDefinitions.$inferSelect;
+export type HarvestSyncState = typeof harvestSyncState.$inferSelect;
+export type HarvestResource = 'time_entries' | 'projects' | 'clients' | 'users';
+export type InsertReportDefinition = z.infer<typeof insertReportDefinitionSchema>;
+export type AlertSettings = typeof alertSettings.$inferSelect;
+export type InsertAlertSettings = z.infer<typeof insertAlertSettingsSchema>;
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+export type InsertReportSchedule = z.infer<typeof insertReportScheduleSchema>;
+export type ReportCadence = typeof REPORT_CADENCES[number];
+export type ReportRangeMode = typeof REPORT_RANGE_MODES[number];
+export type ReportRun = typeof reportRuns.$inferSelect;
+export type InsertReportRun = typeof reportRuns.$inferInsert;
+export type ReportDelivery = typeof reportDeliveries.$inferSelect;
+export type InsertReportDelivery = typeof reportDeliveries.$inferInsert;
+export type ReportDeliveryStatus = typeof REPORT_DELIVERY_STATUSES[number];
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
+export type InsertBudgetAlert = typeof budgetAlerts.$inferInsert;
+export type LlmCall = typeof llmCalls.$inferSelect;
+export type InsertLlmCall = typeof llmCalls.$inferInsert;
+export type LlmCallPurpose = typeof LLM_CALL_PURPOSES[number];
 
-// API Response Types
-export interface HarvestTimeEntry {
-  id: number;
-  spent_date: string;
-  hours: number;
-  notes: string;
-  billable: boolean;
-  user: {
-    id: number;
-    name: string;
-  };
-  client: {
-    id: number;
-    name: string;
-  };
-  project: {
-    id: number;
-    name: string;
-  };
-  task: {
-    id: number;
-    name: string;
-  };
-}
+// Harvest API resources, validated with Zod (see ./harvest)
+export * from "./harvest";
 
-export interface HarvestProject {
-  id: number;
-  name: string;
-  code: string;
-  is_active: boolean;
-  budget: number;
-  budget_spent?: number;
-  budget_remaining?: number;
-  client: {
-    id: number;
-    name: string;
-  };
+export const QUERY_TYPES = ['time_entries', 'projects', 'clients', 'users', 'summary'] as const;
+export const SUMMARY_TYPES = ['weekly', 'monthly', 'daily', 'project', 'client'] as const;
+
+// Models often send null for "not set"; treat it like a missing field
+const optionalField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => value ?? undefined, schema.optional());
+
+const queryDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+  .refine(value => !isNaN(Date.parse(`${value}T00:00:00Z`)) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value), "Not a calendar date");
+
+// A chat question turned into a Harvest query. The parser's output is checked
+// against this before it is used, and errors are sent back to the model.
+export const parsedQuerySchema = z.object({
+  queryType: z.enum(QUERY_TYPES),
+  parameters: z.object({
+    dateRange: optionalField(z.object({
+      from: optionalField(queryDateSchema),
+      to: optionalField(queryDateSchema),
+    }).refine(range => !range.from || !range.to || range.from <= range.to, "from must not be after to")),
+    // Relative period the dates were resolved from, e.g. "last_month"
+    period: optionalField(z.string()),
+    userId: optionalField(z.number().int().positive()),
+    projectId: optionalField(z.number().int().positive()),
+    clientId: optionalField(z.number().int().positive()),
+    filters: optionalField(z.object({
+      billable: optionalField(z.boolean()),
+      projectName: optionalField(z.string().trim().min(1)),
+      clientName: optionalField(z.string().trim().min(1)),
+      userName: optionalField(z.string().trim().min(1)),
+    }).catchall(z.any())),
+  }),
+  summaryType: optionalField(z.enum(SUMMARY_TYPES)),
+});
+
+export type ParsedQuery = z.infer<typeof parsedQuerySchema>;
+
+// One Harvest tool call the chat agent made while answering
+export interface AgentTraceStep {
+  step: number;
+  tool: string;
+  input: unknown;
+  durationMs: number;
+  error?: string;
 }
 
-export interface HarvestClient {
-  id: number;
-  name: string;
-  is_active: boolean;
-  address: string;
+// Records a chat answer is based on, by query type
+export type ChatData = HarvestTimeEntry[] | HarvestProject[] | HarvestClient[] | HarvestUser[];
+
+// A question the assistant asked back instead of guessing, with suggested
+// replies the user can pick
+export interface ChatClarification {
+  question: string;
+  options: string[];
 }
 
-export interface ParsedQuery {
-  queryType: 'time_entries' | 'projects' | 'clients' | 'users' | 'summary';
-  parameters: {
-    dateRange?: {
-      from?: string;
-      to?: string;
-    };
-    userId?: number;
-    projectId?: number;
-    clientId?: number;
-    filters?: Record<string, any>;
-  };
-  summaryType?: 'weekly' | 'monthly' | 'daily' | 'project' | 'client';
+// Stored with each assistant message (chat_messages.harvest_data)
+export interface ChatHarvestData {
+  data: ChatData | null;
+  summary: TimeEntrySummary | null;
+  parsedQuery?: ParsedQuery;
+  trace?: AgentTraceStep[];
+  clarification?: ChatClarification;
 }
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server and shared unit tests, next to the code they cover as *.test.ts.
+// The client has its own Vite config (vite.config.ts).
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    env: {
+      // server/db.ts refuses to load without one; tests never open a connection
+      DATABASE_URL: "postgres://test@localhost/test",
+    },
+  },
+});